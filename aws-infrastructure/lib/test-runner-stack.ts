@@ -142,7 +142,8 @@ export class TestRunnerStack extends cdk.Stack {
               'echo "DEVICE_FARM_PROJECT_ARN=$DEVICE_FARM_PROJECT_ARN"',
               'echo "TEST_MODE=$TEST_MODE"',
               'echo "SELECTED_TEST=$SELECTED_TEST"',
-              'echo "SELECTED_TEST_CASE=$SELECTED_TEST_CASE"'
+              'echo "SELECTED_TEST_CASE=$SELECTED_TEST_CASE"',
+              'echo "WDIO_TAG=$WDIO_TAG"'
             ]
           },
           build: {
@@ -419,6 +420,12 @@ phases:
       - echo "Config directory contents:" && ls -la config/
       - echo "Looking for Device Farm config:" && ls -la config/wdio.android.devicefarm.conf.ts\`;
 
+    // Tag expression from the test runner UI, compiled to a grep by the wdio config
+    if (process.env.WDIO_TAG) {
+      testSpecContent += \`
+      - export WDIO_TAG="\${process.env.WDIO_TAG}"\`;
+    }
+
     // Add the complete test execution logic with conditional single/full test support
     testSpecContent += \`
       
@@ -510,8 +517,11 @@ phases:
           echo "⚠️ No Allure results found"
         fi
       
-      # Copy artifacts to Device Farm log directory
+      # Copy artifacts to Device Farm log directory (raw results let the runner merge devices into one report)
       - |
+        if [ -d "allure-results" ]; then
+          cp -r allure-results $DEVICEFARM_LOG_DIR/ 2>/dev/null || echo "Could not copy allure-results"
+        fi
         if [ -d "allure-report" ]; then
           cp -r allure-report $DEVICEFARM_LOG_DIR/ 2>/dev/null || echo "Could not copy allure-report"
         fi
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import WDIOReporter, { RunnerStats, TestStats } from '@wdio/reporter';
+import type { Reporters } from '@wdio/types';
+import { TAGS, extractTags } from '../../test/utils/tag.utils';
+import { getWorkerResultsPath } from '../../services/run-results/run-results.service';
+import { QuarantineList } from '../../services/quarantine/quarantine.service';
+import type { RunResultTest, TestCaseState } from '../../types';
+
+export interface ResultsReporterOptions extends Reporters.Options {
+    resultsDir: string;
+}
+
+/**
+ * Records every test's outcome as structured JSON so the test runner UI does not
+ * have to guess counts from console output. Each worker writes its own file;
+ * mergeRunResults() combines them once wdio completes.
+ */
+export default class ResultsReporter extends WDIOReporter {
+    private resultsDir: string;
+    private results = new Map<string, RunResultTest>();
+    private startTime = new Date().toISOString();
+    private quarantine = new QuarantineList();
+    private platform: string | null = null;
+
+    constructor(options: Partial<ResultsReporterOptions>) {
+        super(options);
+        this.resultsDir = options.resultsDir || 'reports/results';
+    }
+
+    onRunnerStart(runner: RunnerStats) {
+        const capabilities = runner.capabilities as WebdriverIO.Capabilities;
+        this.platform = capabilities.platformName || null;
+    }
+
+    onTestEnd(test: TestStats) {
+        const suite = this.currentSuites[this.currentSuites.length - 1];
+        const file = this.toProjectPath(suite?.file || this.currentSpec);
+        const error = test.errors?.[0] || test.error;
+        const tags = extractTags(test.fullTitle);
+        const quarantined = this.quarantine.isQuarantined({
+            file,
+            title: test.title,
+            fullTitle: test.fullTitle,
+            platform: this.platform
+        });
+        // Quarantine list entries show up like the title tag, so tag filters find them too
+        if (quarantined && !tags.includes(TAGS.QUARANTINED)) {
+            tags.push(TAGS.QUARANTINED);
+        }
+
+        // A retried test ends once per attempt; the last attempt is its result
+        this.results.set(`${file}::${test.fullTitle}`, {
+            title: test.title,
+            fullTitle: test.fullTitle,
+            file,
+            state: this.getState(test),
+            duration: test.duration || 0,
+            errorMessage: error?.message || null,
+            errorStack: error?.stack || null,
+            retries: test.retries || 0,
+            tags,
+            quarantined
+        });
+    }
+
+    onRunnerEnd(runner: RunnerStats) {
+        fs.mkdirSync(this.resultsDir, { recursive: true });
+        fs.writeFileSync(getWorkerResultsPath(this.resultsDir, runner.cid), JSON.stringify({
+            startTime: this.startTime,
+            endTime: new Date().toISOString(),
+            specs: runner.specs,
+            failures: runner.failures || 0,
+            tests: Array.from(this.results.values())
+        }, null, 2));
+    }
+
+    // Spec paths arrive as absolute paths or file:// URLs; store them relative to the project
+    private toProjectPath(file?: string): string | null {
+        if (!file) {
+            return null;
+        }
+        const absolutePath = file.startsWith('file://') ? fileURLToPath(file) : file;
+        return path.relative(process.cwd(), absolutePath);
+    }
+
+    /**
+     * Same split as Allure: assertion failures are "failed", anything else thrown is "broken"
+     */
+    private getState(test: TestStats): TestCaseState {
+        if (test.state !== 'failed') {
+            return test.state;
+        }
+        const error = test.errors?.[0] || test.error;
+        const isAssertion = !error
+            || error.name === 'AssertionError'
+            || 'matcherResult' in error
+            || /^expect/i.test(error.message || '');
+        return isAssertion ? 'failed' : 'broken';
+    }
+}
@@ -45,9 +45,9 @@ export const config = {
         '../test/e2e/**/*.e2e.ts'
     ],
     reporters: [
-        'spec',
+        ...(sharedConfig.reporters || []),
         ['allure', {
-            outputDir: 'allure-results',
+            outputDir: process.env.ALLURE_RESULTS_DIR || 'allure-results', // The test runner UI gives each run its own directory
             disableWebdriverStepsReporting: true, // Hide noisy WebDriver step names
             disableWebdriverScreenshotsReporting: true, // Disable automatic screenshots to prevent duplicates
             useCucumberStepReporter: false,
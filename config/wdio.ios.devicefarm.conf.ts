@@ -1,5 +1,6 @@
 import path from 'path';
 import { config as sharedConfig } from './wdio.shared.conf';
+import { buildGrepPattern } from '../test/utils/tag.utils';
 import type { Options } from '@wdio/types';
 
 function getDeviceFarmAppPath(): string {
@@ -20,18 +21,19 @@ export const config = {
     hostname: 'localhost',
     port: 4723,
     path: '/wd/hub',
-    specs: [
-        '../test/e2e/**/*.e2e.ts'
-    ],
-    // Use environment variable for test filtering
+    // A sharded run gets its share of the spec files (project-relative, comma-separated) in WDIO_SPECS
+    specs: process.env.WDIO_SPECS
+        ? process.env.WDIO_SPECS.split(',').map(spec => path.join('..', spec))
+        : ['../test/e2e/**/*.e2e.ts'],
+    // Use environment variable for test filtering (a mocha grep regex, plus any WDIO_TAG expression)
     ...(process.env.WDIO_GREP_PATTERN && {
         mochaOpts: {
             ...sharedConfig.mochaOpts,
-            grep: process.env.WDIO_GREP_PATTERN
+            grep: buildGrepPattern({ pattern: process.env.WDIO_GREP_PATTERN, tags: process.env.WDIO_TAG })
         }
     }),
     reporters: [
-        'spec',
+        ...(sharedConfig.reporters || []),
         ['allure', {
             outputDir: 'allure-results',
             disableWebdriverStepsReporting: true, // Hide noisy WebDriver step names
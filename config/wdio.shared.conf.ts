@@ -1,16 +1,39 @@
+import path from 'path';
 import type { Options } from '@wdio/types';
+import { addTag } from '@wdio/allure-reporter';
 import { captureDebugInfo } from '../test/utils/debug.utils';
+import { buildGrepPattern, TagExpressionError } from '../test/utils/tag.utils';
+import ResultsReporter from './reporters/results.reporter';
+import { mergeRunResults } from '../services/run-results/run-results.service';
+import { QuarantineList } from '../services/quarantine/quarantine.service';
+
+// The test runner UI points this at a per-run directory
+const resultsDir = process.env.RUN_RESULTS_DIR || 'reports/results';
+const quarantine = new QuarantineList();
 
 declare const driver: WebdriverIO.Browser;
 
+// A bad WDIO_TAG (e.g. a regex from before tag expressions) stops the run with the reason rather than a stack trace
+function getTagGrep(): string | undefined {
+    try {
+        return buildGrepPattern({ tags: process.env.WDIO_TAG });
+    } catch (error) {
+        if (error instanceof TagExpressionError) {
+            console.error(`❌ Invalid WDIO_TAG: ${error.message}`);
+            process.exit(1);
+        }
+        throw error;
+    }
+}
+
 export const config: Options.Testrunner = {
     runner: 'local',
     framework: 'mocha',
     mochaOpts: {
         ui: 'bdd',
         timeout: 120000,
-        // Support tag filtering via grep pattern
-        grep: process.env.WDIO_TAG || undefined
+        // Support tag filtering via a tag expression, e.g. WDIO_TAG="@smoke and not @banking"
+        grep: getTagGrep()
     },
     logLevel: 'error', // Reduce logging to only errors
     bail: 0,
@@ -18,13 +41,16 @@ export const config: Options.Testrunner = {
     connectionRetryTimeout: 120000, // Standard connection timeout
     connectionRetryCount: 3,
     services: [],
-    reporters: ['spec'],
+    reporters: [
+        'spec',
+        [ResultsReporter, { resultsDir }]
+    ],
     
     maxInstances: 1,
     
     // Support for test tags
-    // Tags can be passed via command line: --mochaOpts.grep "@ios|@smoke"
-    // Or via environment variable: WDIO_TAG="@ios"
+    // Tags can be passed via environment variable: WDIO_TAG="@smoke and (@ios or @android)"
+    // See parseTagExpression in test/utils/tag.utils.ts for the syntax
     
     beforeSession: function (_config, capabilities, _specs) {
         const caps = capabilities as any;
@@ -44,6 +70,24 @@ export const config: Options.Testrunner = {
         }
     },
     
+    beforeTest: function (test) {
+        // Label quarantined tests in Allure; their failures are excused when the run result is decided
+        const capabilities = browser.capabilities as any;
+        const quarantined = quarantine.isQuarantined({
+            file: test.file ? path.relative(process.cwd(), test.file) : null,
+            title: test.title,
+            fullTitle: test.fullTitle,
+            platform: capabilities.platformName || capabilities['appium:platformName']
+        });
+        if (quarantined) {
+            addTag('quarantined');
+        }
+    },
+    
+    onComplete: function () {
+        mergeRunResults(resultsDir);
+    },
+    
     afterTest: async function(test, _context, { error, passed }) {
         if (!passed) {
             // Capture comprehensive debug information on failure
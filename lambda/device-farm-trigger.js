@@ -32,7 +32,8 @@ exports.handler = async (event) => {
         buildPath,
         testMode,
         testSuite: selectedTestSuite,
-        testCase: selectedTestCase
+        testCase: selectedTestCase,
+        tags
       } = body;
       
       if (!projectArn || !devicePoolArn || !buildPath) {
@@ -83,6 +84,11 @@ exports.handler = async (event) => {
           {
             name: 'SELECTED_TEST_CASE',
             value: selectedTestCase || ''
+          },
+          {
+            // Tag expressions (validated by the test runner UI), and-ed together
+            name: 'WDIO_TAG',
+            value: (tags || []).map(tag => `(${tag})`).join(' and ')
           }
         ]
       });
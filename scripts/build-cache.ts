@@ -0,0 +1,127 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { BuildCache } from '../services/build-cache/build-cache.service';
+import { BuildCacheFilter, CachedBuild } from '../types';
+
+dotenv.config({ debug: false });
+
+const USAGE = `
+Usage: npm run build:cache -- <command> [options]
+
+Commands:
+  list                     List cached builds, newest first
+  prune                    Apply the retention policy (BUILD_CACHE_MAX_BUILDS_PER_BRANCH, BUILD_CACHE_MAX_SIZE_MB)
+  pin <key>                Keep a build whatever the retention policy says, e.g. pin android/main/1234
+  unpin <key>              Let the retention policy prune a pinned build again
+  verify                   Check cached builds against their checksums
+
+Options:
+  --platform <platform>    Only builds of this platform (android|ios), for list and verify
+  --branch <branch>        Only builds of this branch, for list and verify
+  --dry-run                Show what prune would delete without deleting it
+  --fix                    Drop missing and corrupt builds found by verify, so they're fetched again
+`;
+
+function formatSize(bytes: number): string {
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function describe(build: CachedBuild): string {
+    return `${build.key}${build.pinned ? ' 📌' : ''} (${path.basename(build.filePath)}, ${formatSize(build.fileSize)})`;
+}
+
+function getOption(args: string[], name: string): string | undefined {
+    const index = args.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+    if (index === -1) return undefined;
+    return args[index].includes('=') ? args[index].split('=').slice(1).join('=') : args[index + 1];
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const command = args[0];
+    const cache = new BuildCache({ cacheDir: path.join(__dirname, '..', '.bitrise-cache') });
+
+    const platform = getOption(args, 'platform');
+    if (platform && platform !== 'android' && platform !== 'ios') {
+        console.error(`❌ Invalid platform: ${platform}. Must be 'android' or 'ios'`);
+        process.exit(1);
+    }
+    const filter: BuildCacheFilter = {
+        platform: platform as BuildCacheFilter['platform'],
+        branch: getOption(args, 'branch')
+    };
+
+    switch (command) {
+        case 'list': {
+            const builds = cache.list(filter);
+            if (builds.length === 0) {
+                console.log('\n📭 No cached builds\n');
+                return;
+            }
+            console.log(`\n💾 ${builds.length} cached build(s), ${formatSize(builds.reduce((total, build) => total + build.fileSize, 0))}:`);
+            builds.forEach(build => {
+                console.log(`   ${describe(build)}`);
+                console.log(`      Downloaded: ${new Date(build.downloadedAt).toLocaleString()}, last used: ${new Date(build.lastUsedAt).toLocaleString()}`);
+            });
+            console.log('');
+            return;
+        }
+
+        case 'prune': {
+            const dryRun = args.includes('--dry-run');
+            const removals = cache.prune({ dryRun });
+            if (removals.length === 0) {
+                console.log('\n✅ Nothing to prune\n');
+                return;
+            }
+            console.log(`\n🧹 ${dryRun ? 'Would remove' : 'Removed'} ${removals.length} build(s):`);
+            removals.forEach(({ build, reason }) => console.log(`   ${describe(build)}: ${reason}`));
+            console.log('');
+            return;
+        }
+
+        case 'pin':
+        case 'unpin': {
+            const key = args[1];
+            if (!key || key.startsWith('--')) {
+                console.error(`❌ Usage: npm run build:cache -- ${command} <platform>/<branch>/<buildNumber>`);
+                process.exit(1);
+            }
+            const build = cache.setPinned(key, command === 'pin');
+            if (!build) {
+                console.error(`❌ No cached build ${key}. Run 'npm run build:cache -- list' to see the keys`);
+                process.exit(1);
+            }
+            console.log(`\n${command === 'pin' ? '📌 Pinned' : '📍 Unpinned'} ${describe(build)}\n`);
+            return;
+        }
+
+        case 'verify': {
+            const fix = args.includes('--fix');
+            const results = await cache.verify({ fix, filter });
+            const failed = results.filter(result => result.status !== 'ok');
+            console.log(`\n🔍 Verified ${results.length} cached build(s):`);
+            results.forEach(({ build, status }) => {
+                console.log(`   ${status === 'ok' ? '✅' : '❌'} ${describe(build)}${status === 'ok' ? '' : `: ${status}`}`);
+            });
+            if (failed.length > 0) {
+                console.log(fix
+                    ? `\n🗑️ Dropped ${failed.length} build(s); they'll be fetched again\n`
+                    : `\n⚠️ ${failed.length} build(s) failed verification. Run with --fix to drop them\n`);
+                if (!fix) process.exit(1);
+            } else {
+                console.log('');
+            }
+            return;
+        }
+
+        default:
+            console.log(USAGE);
+            process.exit(command && command !== '--help' ? 1 : 0);
+    }
+}
+
+main().catch(error => {
+    console.error('❌ Build cache command failed:', error);
+    process.exit(1);
+});
@@ -1,20 +1,21 @@
 import * as dotenv from 'dotenv';
-import { BitriseService } from '../services/bitrise/bitrise.service';
+import { getBuildProvider } from '../services/build-provider/build-provider.service';
+import { BuildCache } from '../services/build-cache/build-cache.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
 dotenv.config();
 
 async function checkLatestBuild() {
-    const service = new BitriseService();
+    const provider = getBuildProvider({ projectRoot: path.join(__dirname, '..') });
     const branch = process.env.BRANCH || 'develop';
     
     console.log(`\n🔍 Checking latest build for branch: ${branch}\n`);
     
-    const latestBuild = await service.getLatestSuccessfulBuild(branch);
+    const [latestBuild] = await provider.listBuilds(branch, 1);
     
     if (latestBuild) {
-        console.log('📱 Latest Build on Bitrise:');
+        console.log(`📱 Latest Build on ${provider.kind}:`);
         console.log(`   Build Number: #${latestBuild.buildNumber}`);
         console.log(`   Branch: ${latestBuild.branch}`);
         console.log(`   Status: ${latestBuild.status}`);
@@ -24,21 +25,17 @@ async function checkLatestBuild() {
         }
     }
     
-    const metadataPath = path.join(__dirname, '..', '.bitrise-cache', 'metadata.json');
-    if (fs.existsSync(metadataPath)) {
-        const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
-        const cachedBuilds = metadata[branch] || {};
-        
-        if (Object.keys(cachedBuilds).length > 0) {
-            console.log('\n💾 Cached Builds:');
-            Object.values(cachedBuilds).forEach((build: any) => {
-                const isLatest = latestBuild && build.buildNumber === latestBuild.buildNumber;
-                const indicator = isLatest ? ' ✅ (LATEST)' : '';
-                console.log(`   Build #${build.buildNumber}${indicator}`);
-                console.log(`      File: ${path.basename(build.filePath)}`);
-                console.log(`      Downloaded: ${new Date(build.downloadedAt).toLocaleString()}`);
-            });
-        }
+    const cache = new BuildCache({ cacheDir: path.join(__dirname, '..', '.bitrise-cache') });
+    const cachedBuilds = cache.list({ branch });
+    if (cachedBuilds.length > 0) {
+        console.log('\n💾 Cached Builds:');
+        cachedBuilds.forEach(build => {
+            const isLatest = latestBuild && build.buildNumber === latestBuild.buildNumber;
+            const indicator = `${isLatest ? ' ✅ (LATEST)' : ''}${build.pinned ? ' 📌' : ''}`;
+            console.log(`   ${build.platform} build #${build.buildNumber}${indicator}`);
+            console.log(`      File: ${path.basename(build.filePath)}`);
+            console.log(`      Downloaded: ${new Date(build.downloadedAt).toLocaleString()}`);
+        });
     }
     
     const appsDir = path.join(__dirname, '..', 'apps', 'android');
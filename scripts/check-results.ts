@@ -0,0 +1,36 @@
+import * as path from 'path';
+import { getQuarantinedFailures, isPassingRun, readRunResults } from '../services/run-results/run-results.service';
+
+/**
+ * Decide the outcome of a wdio run that exited non-zero, excusing failures of
+ * quarantined tests. Exits 0 when every failure is quarantined, 1 otherwise.
+ *
+ * Usage: npx wdio config/... || npx tsx scripts/check-results.ts [resultsDir]
+ */
+function checkResults() {
+    const resultsDir = process.argv[2] || process.env.RUN_RESULTS_DIR || path.join('reports', 'results');
+    const results = readRunResults(resultsDir);
+
+    if (!results) {
+        console.log(`\n❌ No test results found in ${resultsDir}, treating the run as failed\n`);
+        process.exit(1);
+    }
+
+    const quarantined = getQuarantinedFailures(results);
+    if (quarantined.length > 0) {
+        console.log(`\n🚧 ${quarantined.length} quarantined test(s) failed:`);
+        quarantined.forEach(test => {
+            console.log(`   ${test.file}: ${test.fullTitle}`);
+        });
+    }
+
+    if (isPassingRun(results)) {
+        console.log('\n✅ All failures are quarantined, treating the run as passed\n');
+        process.exit(0);
+    }
+
+    console.log('\n❌ Run has failures outside quarantine\n');
+    process.exit(1);
+}
+
+checkResults();
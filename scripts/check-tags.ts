@@ -0,0 +1,149 @@
+import * as path from 'path';
+import { discoverTestFiles } from '../services/test-discovery/test-discovery.service';
+import { buildTagCatalog } from '../services/tag-catalog/tag-catalog.service';
+import {
+    buildGrepPattern,
+    formatTagExpression,
+    matchesTagExpression,
+    parseTagExpression
+} from '../test/utils/tag.utils';
+
+interface ExpressionCase {
+    expression: string;
+    // Canonical form, which shows how the expression was grouped
+    formatted?: string;
+    // Tags of a test, and whether the expression selects it
+    matches?: [string[], boolean][];
+    // Start of the error message for expressions that don't parse
+    error?: string;
+}
+
+const EXPRESSION_CASES: ExpressionCase[] = [
+    // "and" binds tighter than "or", "not" tighter than both
+    { expression: '@smoke or @ios and @critical', formatted: '@smoke or @ios and @critical', matches: [[['@smoke'], true], [['@ios'], false], [['@ios', '@critical'], true]] },
+    { expression: 'not @banking and @smoke', formatted: 'not @banking and @smoke', matches: [[['@smoke'], true], [['@smoke', '@banking'], false]] },
+    { expression: '(@smoke or @ios) and @critical', formatted: '(@smoke or @ios) and @critical', matches: [[['@smoke'], false], [['@ios', '@critical'], true]] },
+    { expression: 'not (@ios or @android)', matches: [[['@smoke'], true], [['@android'], false]] },
+    { expression: 'not not @ios', formatted: 'not not @ios', matches: [[['@ios'], true]] },
+    // Tags side by side are and-ed; symbolic operators are the old grep spelling
+    { expression: '@ios @smoke', formatted: '@ios and @smoke' },
+    { expression: '@ios|@smoke && !@banking', formatted: '@ios or @smoke and not @banking' },
+    { expression: '@ios AND @smoke', formatted: '@ios and @smoke' },
+    // A tag is never a prefix of another
+    { expression: '@ios', matches: [[['@ios-only'], false], [['@ios'], true]] },
+    { expression: '', error: 'Empty tag expression' },
+    { expression: '@ios and', error: 'Expected a tag at position 9' },
+    { expression: '(@ios or @android', error: 'Expected ")" at position 18' },
+    { expression: '@ios)', error: 'Unexpected ")" at position 5' },
+    { expression: '@ios smoke', error: 'Unknown word "smoke" (tags start with @) at position 6' },
+    { expression: '@ios # @smoke', error: 'Unexpected character at position 6' },
+    { expression: '@ios.*@smoke', error: 'Regular expressions were replaced by tag expressions (write "@ios and @smoke")' }
+];
+
+interface GrepCase {
+    options: Parameters<typeof buildGrepPattern>[0];
+    // Test titles, and whether mocha would run them
+    titles: [string, boolean][];
+}
+
+const GREP_CASES: GrepCase[] = [
+    { options: { tags: '@ios' }, titles: [['Login @ios @smoke', true], ['Login @ios-only', false], ['Login @android', false]] },
+    { options: { tags: ['@smoke', 'not @banking'] }, titles: [['Login @smoke', true], ['Transfer @banking @smoke', false]] },
+    { options: { tags: '@smoke and @ios' }, titles: [['Login @smoke @ios', true], ['Login @ios @smoke', true]] },
+    // A test case title is matched literally, a pattern as the regex it is
+    { options: { testCase: 'Should show (AED) balance' }, titles: [['Should show (AED) balance @ios', true], ['Should show AED balance @ios', false]] },
+    { options: { pattern: 'login|logout', tags: '@smoke' }, titles: [['Auth logout @smoke', true], ['Auth logout @regression', false]] }
+];
+
+/**
+ * Check the tag expression parser and the greps compiled from it, returning what failed
+ */
+function checkTagExpressions(): string[] {
+    const failures: string[] = [];
+
+    for (const testCase of EXPRESSION_CASES) {
+        let expression;
+        try {
+            expression = parseTagExpression(testCase.expression);
+        } catch (error: any) {
+            if (!testCase.error || !error.message.startsWith(testCase.error)) {
+                failures.push(`"${testCase.expression}" failed to parse: ${error.message}`);
+            }
+            continue;
+        }
+        if (testCase.error) {
+            failures.push(`"${testCase.expression}" parsed, expected the error "${testCase.error}"`);
+            continue;
+        }
+        const formatted = formatTagExpression(expression);
+        if (testCase.formatted && formatted !== testCase.formatted) {
+            failures.push(`"${testCase.expression}" parsed as "${formatted}", expected "${testCase.formatted}"`);
+        }
+        for (const [tags, expected] of testCase.matches || []) {
+            if (matchesTagExpression(expression, tags) !== expected) {
+                failures.push(`"${testCase.expression}" ${expected ? 'should' : 'should not'} select ${tags.join(' ')}`);
+            }
+        }
+    }
+
+    for (const testCase of GREP_CASES) {
+        const grep = new RegExp(buildGrepPattern(testCase.options) || '');
+        for (const [title, expected] of testCase.titles) {
+            if (grep.test(title) !== expected) {
+                failures.push(`grep ${grep.source} ${expected ? 'should' : 'should not'} match "${title}"`);
+            }
+        }
+    }
+
+    return failures;
+}
+
+/**
+ * Check the tag expression parser, then that tests only use tags listed in TAGS
+ * (test/utils/tag.utils.ts). Exits 1 on a failed parser check or unknown tags;
+ * tests without a platform tag are reported as a warning.
+ *
+ * Usage: npm run tags:check
+ */
+async function checkTags() {
+    const failures = checkTagExpressions();
+    if (failures.length > 0) {
+        console.log(`\n❌ ${failures.length} tag expression check(s) failed:`);
+        failures.forEach(failure => console.log(`   ${failure}`));
+        console.log('');
+        process.exit(1);
+    }
+    console.log(`\n✅ Tag expressions: ${EXPRESSION_CASES.length + GREP_CASES.length} check(s) passed`);
+
+    const projectRoot = path.join(__dirname, '..');
+    const testFiles = await discoverTestFiles(path.join(projectRoot, 'test', 'e2e'), projectRoot);
+    const catalog = buildTagCatalog(testFiles);
+
+    console.log(`\n🏷️  ${catalog.tags.length} tag(s) in use across ${testFiles.length} spec file(s):`);
+    catalog.tags.forEach(usage => {
+        console.log(`   ${usage.known ? '✅' : '❌'} ${usage.tag} (${usage.count} test(s))`);
+    });
+
+    if (catalog.testsWithoutPlatform.length > 0) {
+        console.log(`\n⚠️  ${catalog.testsWithoutPlatform.length} test(s) have no platform tag:`);
+        catalog.testsWithoutPlatform.forEach(test => {
+            console.log(`   ${test.file}:${test.line} ${test.fullTitle}`);
+        });
+    }
+
+    if (catalog.unknownTags.length > 0) {
+        console.log(`\n❌ Unknown tag(s) not listed in TAGS: ${catalog.unknownTags.join(', ')}`);
+        catalog.tags.filter(usage => !usage.known).forEach(usage => {
+            usage.files.forEach(file => console.log(`   ${usage.tag} in ${file.path}`));
+        });
+        console.log('');
+        process.exit(1);
+    }
+
+    console.log('\n✅ All tags are known\n');
+}
+
+checkTags().catch(error => {
+    console.error('❌ Tag check failed:', error);
+    process.exit(1);
+});
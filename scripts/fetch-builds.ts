@@ -1,7 +1,17 @@
 #!/usr/bin/env npx tsx
 
 import * as dotenv from 'dotenv';
-import { BitriseService } from '../services/bitrise/bitrise.service';
+import { getArtifactRules, getBuildProvider } from '../services/build-provider/build-provider.service';
+import { BuildDownloader } from '../services/build-provider/build-downloader.service';
+import { PROGRESS_LINE_PREFIX } from '../services/build-fetch/build-fetch.service';
+import {
+  ArtifactCandidateStatus,
+  ArtifactSelection,
+  BuildFetchEvent,
+  BuildFetchPhase,
+  BuildInfo,
+  DownloadProgress
+} from '../types';
 
 dotenv.config({ debug: false });
 
@@ -9,8 +19,38 @@ interface FetchOptions {
   branch?: string;
   platform?: 'android' | 'ios';
   buildSlug?: string;
+  // A project in config/build-providers.json (default: BUILD_PROJECT, then its defaultProject)
+  project?: string;
   force?: boolean;
+  // Show which artifact would be downloaded and why, without downloading it
+  explain?: boolean;
   updateConfig?: boolean;
+  // Print phases, progress and the result as JSON lines for /api/builds/fetch instead of a percentage for people
+  progressJson?: boolean;
+}
+
+function report(event: BuildFetchEvent, json: boolean) {
+  if (json) {
+    console.log(`${PROGRESS_LINE_PREFIX}${JSON.stringify(event)}`);
+  } else if (event.type === 'progress' && event.percent !== null) {
+    process.stdout.write(`\rDownloading ${event.fileName}: ${event.percent}%`);
+  }
+}
+
+const CANDIDATE_ICONS: Record<ArtifactCandidateStatus, string> = {
+  selected: '✅',
+  'not-preferred': '⏭️',
+  unmatched: '➖',
+  excluded: '🚫',
+  'wrong-type': '⚪'
+};
+
+function printSelection(build: BuildInfo, selection: ArtifactSelection) {
+  console.log(`\n🔎 Artifacts of build #${build.buildNumber} for ${selection.platform}:`);
+  selection.candidates.forEach(({ artifact, status, reason }) => {
+    console.log(`   ${CANDIDATE_ICONS[status]} ${artifact.title} (${(artifact.fileSizeBytes / 1024 / 1024).toFixed(2)} MB): ${reason}`);
+  });
+  console.log(selection.selected ? `\n📦 Would download ${selection.selected.title}\n` : `\n❌ ${selection.reason}\n`);
 }
 
 async function fetchBuilds(options: FetchOptions = {}) {
@@ -18,60 +58,47 @@ async function fetchBuilds(options: FetchOptions = {}) {
     branch = 'main',
     platform = 'android',
     buildSlug,
+    project,
     force = false,
-    updateConfig = true
+    explain = false,
+    updateConfig = true,
+    progressJson = false
   } = options;
   
   const targetBranch = branch;
 
-  console.log('========================================');
-  console.log('  Bitrise Build Fetcher');
-  console.log('========================================');
-  console.log(`Platform: ${platform.toUpperCase()}`);
-  console.log(`Branch: ${targetBranch}`);
-  console.log('========================================\n');
-
   try {
-    const bitrise = new BitriseService();
-
-    // Check if we need to download (skip cache if specific buildSlug is requested)
-    if (!force && !buildSlug) {
-      const cacheCheck = await bitrise.isLatestBuildCached(targetBranch);
-      if (cacheCheck.cached) {
-        console.log(`✅ Already have latest ${platform} build for ${targetBranch}`);
-        const cachedPath = bitrise.getCachedBuildPath(targetBranch, platform);
-        if (cachedPath) {
-          console.log(`📦 Cached ${platform.toUpperCase()}: ${cachedPath}`);
-          
-          if (updateConfig && platform === 'android') {
-            bitrise.updateWdioConfig(cachedPath);
-          }
-        }
-        return cachedPath;
-      }
-    }
+    const provider = getBuildProvider({ project });
 
-    // Download build based on platform
-    let buildPath: string | null;
-    if (platform === 'ios') {
-      if (buildSlug) {
-        buildPath = await bitrise.downloadSpecificIPA(buildSlug, targetBranch, force);
-      } else {
-        buildPath = await bitrise.downloadLatestIPA(targetBranch, force);
-      }
-    } else {
-      // Android
-      if (buildSlug) {
-        buildPath = await bitrise.downloadSpecificAPK(buildSlug, targetBranch, force);
-      } else {
-        buildPath = await bitrise.downloadLatestAPK(targetBranch, force);
+    console.log('========================================');
+    console.log('  Build Fetcher');
+    console.log('========================================');
+    console.log(`Provider: ${provider.kind}${project ? ` (${project})` : ''}`);
+    console.log(`Platform: ${platform.toUpperCase()}`);
+    console.log(`Branch: ${targetBranch}`);
+    console.log('========================================\n');
+
+    const downloader = new BuildDownloader(provider, { artifactRules: getArtifactRules({ project }) });
+    downloader.on('phase', (phase: BuildFetchPhase) => report({ type: 'phase', phase }, progressJson));
+    downloader.on('progress', (progress: DownloadProgress) => report({ type: 'progress', ...progress }, progressJson));
+
+    if (explain) {
+      const explanation = await downloader.explain({ platform, branch: targetBranch, buildSlug });
+      if (explanation) {
+        printSelection(explanation.build, explanation.selection);
       }
+      return null;
     }
-    
-    if (buildPath && updateConfig && platform === 'android') {
-      bitrise.updateWdioConfig(buildPath);
+
+    let buildPath = await downloader.download({ platform, branch: targetBranch, buildSlug, force });
+
+    if (buildPath && platform === 'ios') {
+      buildPath = await downloader.extractIpa(buildPath);
+    } else if (buildPath && updateConfig) {
+      downloader.updateWdioConfig(buildPath);
     }
 
+    report({ type: 'result', filePath: buildPath }, progressJson);
     return buildPath;
   } catch (error: any) {
     console.error('❌ Error:', error.message);
@@ -97,6 +124,10 @@ if (require.main === module) {
       options.buildSlug = arg.split('=')[1];
     } else if (arg === '--buildSlug' && args[i + 1]) {
       options.buildSlug = args[++i];
+    } else if (arg.startsWith('--project=')) {
+      options.project = arg.split('=')[1];
+    } else if (arg === '--project' && args[i + 1]) {
+      options.project = args[++i];
     } else if (arg.startsWith('--platform=')) {
       const platform = arg.split('=')[1];
       if (['android', 'ios'].includes(platform)) {
@@ -115,8 +146,12 @@ if (require.main === module) {
       }
     } else if (arg === '--force') {
       options.force = true;
+    } else if (arg === '--explain') {
+      options.explain = true;
     } else if (arg === '--no-update-config') {
       options.updateConfig = false;
+    } else if (arg === '--progress-json') {
+      options.progressJson = true;
     } else if (arg === '--help') {
       console.log(`
 Usage: npx tsx scripts/fetch-builds.ts [options]
@@ -124,8 +159,12 @@ Usage: npx tsx scripts/fetch-builds.ts [options]
 Options:
   --platform <platform>    Platform to fetch (android|ios) (default: android)
   --branch <branch>        Branch to fetch (default: main)
+  --buildSlug <slug>       Fetch this build instead of the branch's latest
+  --project <project>      Project in config/build-providers.json to fetch from (default: BUILD_PROJECT or its defaultProject)
   --force                  Force download even if cached
+  --explain                Show which artifact would be downloaded and why, without downloading
   --no-update-config       Don't update wdio config file
+  --progress-json          Print fetch progress as JSON lines (used by the UI)
   --help                   Show this help message
 
 Examples:
@@ -133,6 +172,8 @@ Examples:
   npx tsx scripts/fetch-builds.ts --platform android --branch main
   npx tsx scripts/fetch-builds.ts --platform ios --branch release-v6.5.0
   npx tsx scripts/fetch-builds.ts --branch develop --force
+  npx tsx scripts/fetch-builds.ts --project nightly --platform ios
+  npx tsx scripts/fetch-builds.ts --platform android --branch main --explain
 `);
       process.exit(0);
     }
@@ -37,6 +37,13 @@ archive.file(path.join(PROJECT_ROOT, 'package.json'), { name: 'package.json' });
 // WebDriverIO configurations  
 archive.file(path.join(PROJECT_ROOT, 'config/wdio.android.devicefarm.conf.ts'), { name: 'config/wdio.android.devicefarm.conf.ts' });
 archive.file(path.join(PROJECT_ROOT, 'config/wdio.shared.conf.ts'), { name: 'config/wdio.shared.conf.ts' });
+archive.directory(path.join(PROJECT_ROOT, 'config/reporters'), 'config/reporters');
+archive.file(path.join(PROJECT_ROOT, 'config/quarantine.json'), { name: 'config/quarantine.json' });
+
+// Modules the shared config pulls in (results reporter, quarantine list)
+archive.directory(path.join(PROJECT_ROOT, 'services'), 'services');
+archive.directory(path.join(PROJECT_ROOT, 'types'), 'types');
+archive.file(path.join(PROJECT_ROOT, 'scripts/check-results.ts'), { name: 'scripts/check-results.ts' });
 
 // TypeScript config
 archive.file(path.join(PROJECT_ROOT, 'tsconfig.json'), { name: 'tsconfig.json' });
@@ -72,13 +79,13 @@ phases:
           echo "Running single test: $SELECTED_TEST"
           if [ -n "$SELECTED_TEST_CASE" ]; then
             echo "Test case: $SELECTED_TEST_CASE"
-            npx wdio config/wdio.android.devicefarm.conf.ts --spec="$SELECTED_TEST" --grep="$SELECTED_TEST_CASE"
+            npx wdio config/wdio.android.devicefarm.conf.ts --spec="$SELECTED_TEST" --grep="$SELECTED_TEST_CASE" || npx ts-node --transpile-only scripts/check-results.ts
           else
-            npx wdio config/wdio.android.devicefarm.conf.ts --spec="$SELECTED_TEST"
+            npx wdio config/wdio.android.devicefarm.conf.ts --spec="$SELECTED_TEST" || npx ts-node --transpile-only scripts/check-results.ts
           fi
         else
           echo "Running full test suite"
-          npx wdio config/wdio.android.devicefarm.conf.ts
+          npx wdio config/wdio.android.devicefarm.conf.ts || npx ts-node --transpile-only scripts/check-results.ts
         fi
         
   post_test:
@@ -0,0 +1,440 @@
+import { exec } from 'child_process';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import * as yauzl from 'yauzl';
+import {
+  AllureHistoryKey,
+  AllureResultsSource,
+  DeviceFarmBackend,
+  MergedAllureReport,
+  RunRecord,
+  RunResultTest,
+  TestCaseState
+} from '../../types';
+import { getDeviceFarmBackend } from '../device-farm/device-farm.service';
+
+const execAsync = promisify(exec);
+
+// Describe the whole report rather than one source, so they are written once per merge instead of copied
+const REPORT_WIDE_FILES = ['environment.properties', 'executor.json'];
+const RESULTS_DIR_NAME = 'allure-results';
+const HISTORY_DIR_NAME = 'history';
+const TEST_CASE_STATES: TestCaseState[] = ['passed', 'failed', 'broken', 'skipped'];
+const UNKNOWN_BRANCH = 'unknown-branch';
+// A single-file report embeds every data file as d('<name>','<base64 or data URI>')
+const EMBEDDED_HISTORY_PATTERN = /d\('(history\/[^']+)','([^']*)'\)/g;
+
+// Generations sharing a history run one after another, and a run's report is only built once at a time
+const globalForAllure = globalThis as unknown as {
+  allureHistoryQueues?: Map<string, Promise<unknown>>;
+  allureReportsInFlight?: Map<string, Promise<MergedAllureReport | null>>;
+};
+
+interface ResultsFile {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Where generated reports live, one directory per run (or merge) id
+ */
+export function getAllureReportsDir(): string {
+  return path.join(process.cwd(), 'allure-reports');
+}
+
+/**
+ * Raw results of a finished local run, kept so its report can be merged with others later
+ */
+export function getArchivedResultsDir(runId: string): string {
+  return path.join(process.cwd(), 'allure-results-archive', runId);
+}
+
+/**
+ * Where a branch+platform keeps the history/ folder each report hands on to the next
+ */
+export function getAllureHistoryDir(key: AllureHistoryKey): string {
+  const branch = (key.branch || UNKNOWN_BRANCH).replace(/[^\w.-]+/g, '_');
+  return path.join(process.cwd(), 'allure-history', branch, key.platform.toLowerCase());
+}
+
+function formatPlatform(source: AllureResultsSource): string {
+  const platform = source.platform.toLowerCase() === 'ios' ? 'iOS' : 'Android';
+  return source.osVersion ? `${platform} ${source.osVersion}` : platform;
+}
+
+// Allure folds results sharing a history id into retries of one test, so each device gets its own
+function labelResult(result: any, source: AllureResultsSource): any {
+  const parameters = [
+    { name: 'Device', value: source.device },
+    { name: 'Platform', value: formatPlatform(source) }
+  ];
+  const historyKey = `${result.historyId || result.fullName || result.name}:${source.platform.toLowerCase()}:${source.device}`;
+  return {
+    ...result,
+    parameters: [
+      ...(result.parameters || []).filter((parameter: any) => !parameters.some(added => added.name === parameter.name)),
+      ...parameters
+    ],
+    historyId: crypto.createHash('md5').update(historyKey).digest('hex')
+  };
+}
+
+/**
+ * Write one source's raw results into a merge directory, labelling each test
+ * result with its device and platform. Returns how many test results it added.
+ */
+async function writeResults(files: ResultsFile[], targetDir: string, source: AllureResultsSource): Promise<number> {
+  await fs.mkdir(targetDir, { recursive: true });
+  let resultCount = 0;
+
+  for (const { name, content } of files) {
+    const fileName = path.basename(name);
+    if (REPORT_WIDE_FILES.includes(fileName)) {
+      continue;
+    }
+
+    if (fileName.endsWith('-result.json')) {
+      try {
+        const result = labelResult(JSON.parse(content.toString('utf8')), source);
+        await fs.writeFile(path.join(targetDir, fileName), JSON.stringify(result));
+        resultCount++;
+      } catch (error) {
+        console.warn(`⚠️ Skipping unreadable Allure result ${name}:`, error);
+      }
+    } else if (fileName === 'categories.json') {
+      // Every source ships the same categories; the first one wins
+      await fs.writeFile(path.join(targetDir, fileName), content, { flag: 'wx' }).catch(() => {});
+    } else {
+      // Containers and attachments are named by uuid, so they never clash
+      await fs.writeFile(path.join(targetDir, fileName), content);
+    }
+  }
+
+  return resultCount;
+}
+
+/**
+ * Copy a local results directory into a merge directory
+ */
+export async function copyAllureResults(resultsDir: string, targetDir: string, source: AllureResultsSource): Promise<number> {
+  const entries = await fs.readdir(resultsDir, { withFileTypes: true });
+  const files: ResultsFile[] = [];
+  for (const entry of entries.filter(entry => entry.isFile())) {
+    files.push({ name: entry.name, content: await fs.readFile(path.join(resultsDir, entry.name)) });
+  }
+  return writeResults(files, targetDir, source);
+}
+
+// Files inside any allure-results directory of a zip, e.g. a Device Farm job's Customer Artifacts
+function readZippedResults(zipBuffer: Buffer): Promise<ResultsFile[]> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(zipBuffer, { lazyEntries: true }, (error, zipfile) => {
+      if (error || !zipfile) {
+        reject(error || new Error('Failed to read zip file'));
+        return;
+      }
+
+      const files: ResultsFile[] = [];
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        const parts = entry.fileName.split('/');
+        const isResult = !entry.fileName.endsWith('/') && parts.slice(0, -1).includes(RESULTS_DIR_NAME);
+        if (!isResult) {
+          zipfile.readEntry();
+          return;
+        }
+
+        zipfile.openReadStream(entry, (streamError, stream) => {
+          if (streamError || !stream) {
+            reject(streamError || new Error(`Failed to read ${entry.fileName}`));
+            return;
+          }
+          const chunks: Buffer[] = [];
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+          stream.on('end', () => {
+            files.push({ name: entry.fileName, content: Buffer.concat(chunks) });
+            zipfile.readEntry();
+          });
+          stream.on('error', reject);
+        });
+      });
+      zipfile.on('end', () => resolve(files));
+      zipfile.on('error', reject);
+      zipfile.readEntry();
+    });
+  });
+}
+
+// The raw results a Device Farm job's testspec copied into its Customer Artifacts, if any
+async function readJobResultFiles(jobArn: string, deviceFarm: DeviceFarmBackend): Promise<ResultsFile[]> {
+  const { artifacts } = await deviceFarm.listArtifacts({ arn: jobArn, type: 'FILE' });
+  const customerArtifacts = artifacts?.find(artifact =>
+    artifact.name?.includes('Customer Artifacts') && artifact.extension === 'zip'
+  );
+  if (!customerArtifacts?.url) {
+    return [];
+  }
+  return readZippedResults(await deviceFarm.downloadArtifact(customerArtifacts.url));
+}
+
+/**
+ * Pull the raw results a Device Farm job's testspec copied into its Customer
+ * Artifacts. Returns 0 if the job has none (e.g. its device failed in setup).
+ */
+export async function collectJobAllureResults(
+  jobArn: string,
+  targetDir: string,
+  source: AllureResultsSource,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<number> {
+  return writeResults(await readJobResultFiles(jobArn, deviceFarm), targetDir, source);
+}
+
+// One job per device; retried jobs are left out, their retry stands in for them
+async function getRunJobs(
+  run: RunRecord,
+  deviceFarm: DeviceFarmBackend
+): Promise<{ arn: string; device: string; osVersion?: string }[]> {
+  const jobs = (run.deviceRuns || [])
+    .filter(deviceRun => !deviceRun.retriedBy && deviceRun.jobArn)
+    .map(deviceRun => ({ arn: deviceRun.jobArn!, device: deviceRun.deviceName, osVersion: deviceRun.os }));
+  if (jobs.length > 0 || !run.runArn) {
+    return jobs;
+  }
+
+  const { jobs: runJobs } = await deviceFarm.listJobs({ arn: run.runArn });
+  return (runJobs || [])
+    .filter(job => !!job.arn)
+    .map(job => ({ arn: job.arn!, device: job.device?.name || job.name || 'Unknown device', osVersion: job.device?.os }));
+}
+
+// The sources a history entry contributes: a job per device for Device Farm, the archived results for a local run
+async function collectRunResults(
+  run: RunRecord,
+  targetDir: string,
+  deviceFarm: DeviceFarmBackend
+): Promise<MergedAllureReport['sources']> {
+  const platform = run.platform || 'android';
+
+  if (!run.isDeviceFarm) {
+    const source = { runId: run.id, device: run.device || 'Local device', platform };
+    const resultsDir = getArchivedResultsDir(run.id);
+    const resultCount = await copyAllureResults(resultsDir, targetDir, source).catch(() => 0);
+    return [{ ...source, resultCount }];
+  }
+
+  const sources: MergedAllureReport['sources'] = [];
+  for (const job of await getRunJobs(run, deviceFarm)) {
+    const source = { runId: run.id, device: job.device, platform, osVersion: job.osVersion };
+    sources.push({ ...source, resultCount: await collectJobAllureResults(job.arn, targetDir, source, deviceFarm) });
+  }
+  return sources;
+}
+
+// A raw Allure result as a test case, titled the way mocha titles it locally (suite titles, then the test's)
+function toTestCase(result: any): RunResultTest {
+  const labels = (name: string): string[] => (result.labels || [])
+    .filter((label: any) => label.name === name)
+    .map((label: any) => label.value);
+  const suites = [...labels('parentSuite'), ...labels('suite'), ...labels('subSuite')];
+  return {
+    title: result.name,
+    fullTitle: [...suites, result.name].join(' '),
+    file: null,
+    state: TEST_CASE_STATES.includes(result.status) ? result.status : 'pending',
+    duration: result.start && result.stop ? result.stop - result.start : 0,
+    errorMessage: result.statusDetails?.message || null,
+    errorStack: result.statusDetails?.trace || null,
+    retries: 0,
+    tags: labels('tag'),
+    quarantined: false
+  };
+}
+
+/**
+ * The test cases of a Device Farm run, read from its jobs' raw results (Device
+ * Farm itself only reports suites). A test run on several devices gives one
+ * test case per device.
+ */
+export async function collectDeviceFarmTestCases(
+  run: RunRecord,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<RunResultTest[]> {
+  const testCases: RunResultTest[] = [];
+  for (const job of await getRunJobs(run, deviceFarm)) {
+    for (const { name, content } of await readJobResultFiles(job.arn, deviceFarm)) {
+      if (!name.endsWith('-result.json')) {
+        continue;
+      }
+      try {
+        testCases.push(toTestCase(JSON.parse(content.toString('utf8'))));
+      } catch (error) {
+        console.warn(`⚠️ Skipping unreadable Allure result ${name}:`, error);
+      }
+    }
+  }
+  return testCases;
+}
+
+async function writeEnvironment(targetDir: string, sources: MergedAllureReport['sources']): Promise<void> {
+  const devices = sources.map(source => `${source.device} (${formatPlatform(source)})`);
+  const runs = [...new Set(sources.map(source => source.runId))];
+  const lines = [
+    `Devices=${devices.join(', ')}`,
+    `Runs=${runs.join(', ')}`
+  ];
+  await fs.writeFile(path.join(targetDir, 'environment.properties'), `${lines.join('\n')}\n`);
+}
+
+function withHistoryQueue<T>(historyDir: string, task: () => Promise<T>): Promise<T> {
+  const queues = globalForAllure.allureHistoryQueues ??= new Map();
+  const next = (queues.get(historyDir) || Promise.resolve()).catch(() => {}).then(task);
+  queues.set(historyDir, next);
+  next.catch(() => {}).finally(() => {
+    if (queues.get(historyDir) === next) {
+      queues.delete(historyDir);
+    }
+  });
+  return next;
+}
+
+// The next build number on the trend graph, after the last one the history remembers
+async function getNextBuildOrder(historyDir: string): Promise<number> {
+  try {
+    const trend = JSON.parse(await fs.readFile(path.join(historyDir, 'history-trend.json'), 'utf8'));
+    return Math.max(0, ...trend.map((item: any) => item.buildOrder || 0)) + 1;
+  } catch {
+    return 1;
+  }
+}
+
+// Seed the results with the last report's history, and name this report on the trend graphs
+async function restoreAllureHistory(resultsDir: string, historyDir: string, reportId: string): Promise<void> {
+  const targetDir = path.join(resultsDir, HISTORY_DIR_NAME);
+  await fs.mkdir(targetDir, { recursive: true });
+  for (const fileName of await fs.readdir(historyDir).catch(() => [] as string[])) {
+    await fs.copyFile(path.join(historyDir, fileName), path.join(targetDir, fileName));
+  }
+
+  const executor = {
+    name: 'Test Runner',
+    type: 'test-runner',
+    buildName: reportId,
+    buildOrder: await getNextBuildOrder(historyDir),
+    reportName: reportId,
+    reportUrl: `/api/allure/report?runId=${reportId}`
+  };
+  await fs.writeFile(path.join(resultsDir, 'executor.json'), JSON.stringify(executor));
+}
+
+/**
+ * Keep the history/ files of a freshly generated report for the next one. A
+ * single-file report has no history/ folder, so they are read back out of its index.html.
+ */
+async function saveAllureHistory(reportDir: string, historyDir: string): Promise<number> {
+  const files: ResultsFile[] = [];
+  const html = await fs.readFile(path.join(reportDir, 'index.html'), 'utf8');
+  for (const [, name, value] of html.matchAll(EMBEDDED_HISTORY_PATTERN)) {
+    files.push({ name, content: Buffer.from(value.replace(/^data:[^,]*,/, ''), 'base64') });
+  }
+  if (files.length === 0) {
+    const generatedDir = path.join(reportDir, HISTORY_DIR_NAME);
+    for (const fileName of await fs.readdir(generatedDir).catch(() => [] as string[])) {
+      files.push({ name: fileName, content: await fs.readFile(path.join(generatedDir, fileName)) });
+    }
+  }
+
+  await fs.mkdir(historyDir, { recursive: true });
+  for (const { name, content } of files) {
+    await fs.writeFile(path.join(historyDir, path.basename(name)), content);
+  }
+  return files.length;
+}
+
+/**
+ * Generate a single-file report (index.html) from a results directory. Given a
+ * history key, the report carries on that branch+platform's trend and test history.
+ */
+export async function generateAllureReport(
+  resultsDir: string,
+  reportDir: string,
+  options: { projectRoot?: string; history?: AllureHistoryKey } = {}
+): Promise<void> {
+  const { projectRoot = path.join(process.cwd(), '..'), history } = options;
+  const generate = async () => {
+    await fs.mkdir(path.dirname(reportDir), { recursive: true });
+    await execAsync(`npx allure generate "${resultsDir}" --clean --single-file -o "${reportDir}"`, { cwd: projectRoot });
+  };
+  if (!history) {
+    return generate();
+  }
+
+  const historyDir = getAllureHistoryDir(history);
+  return withHistoryQueue(historyDir, async () => {
+    await restoreAllureHistory(resultsDir, historyDir, path.basename(reportDir));
+    try {
+      await generate();
+      const saved = await saveAllureHistory(reportDir, historyDir);
+      console.log(`📈 Saved ${saved} Allure history file(s) for ${history.branch || UNKNOWN_BRANCH} (${history.platform})`);
+    } finally {
+      // The results directory may be an archive that gets merged later; leave it as it was
+      await fs.rm(path.join(resultsDir, HISTORY_DIR_NAME), { recursive: true, force: true }).catch(() => {});
+      await fs.rm(path.join(resultsDir, 'executor.json'), { force: true }).catch(() => {});
+    }
+  });
+}
+
+/**
+ * Merge the raw results of several runs (every device of a Device Farm run,
+ * or several local runs) into one report saved under `reportId`. Returns null
+ * if none of the runs left any results to merge.
+ */
+export async function mergeAllureReports(
+  runs: RunRecord[],
+  reportId: string,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend(),
+  history?: AllureHistoryKey
+): Promise<MergedAllureReport | null> {
+  const resultsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'allure-merge-'));
+  try {
+    const sources: MergedAllureReport['sources'] = [];
+    for (const run of runs) {
+      sources.push(...await collectRunResults(run, resultsDir, deviceFarm));
+    }
+
+    const resultCount = sources.reduce((total, source) => total + source.resultCount, 0);
+    if (resultCount === 0) {
+      return null;
+    }
+
+    await writeEnvironment(resultsDir, sources.filter(source => source.resultCount > 0));
+    const reportDir = path.join(getAllureReportsDir(), reportId);
+    await generateAllureReport(resultsDir, reportDir, { history });
+    console.log(`📊 Merged ${resultCount} Allure results from ${sources.length} source(s) into ${reportDir}`);
+
+    return { reportId, reportDir, resultCount, sources };
+  } finally {
+    await fs.rm(resultsDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * The report of a finished Device Farm run, built from its jobs' raw results
+ * and carrying on its branch+platform history. Saved as `device-farm-<id>`.
+ */
+export function generateDeviceFarmReport(
+  run: RunRecord,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<MergedAllureReport | null> {
+  const reportId = `device-farm-${run.id}`;
+  const inFlight = globalForAllure.allureReportsInFlight ??= new Map();
+  let report = inFlight.get(reportId);
+  if (!report) {
+    report = mergeAllureReports([run], reportId, deviceFarm, { branch: run.branch, platform: run.platform || 'android' })
+      .finally(() => inFlight.delete(reportId));
+    inFlight.set(reportId, report);
+  }
+  return report;
+}
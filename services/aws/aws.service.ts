@@ -0,0 +1,236 @@
+import { DeviceFarmClient } from '@aws-sdk/client-device-farm';
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  AwsBucketConfig,
+  AwsConfig,
+  AwsCredentialSource,
+  AwsCredentialsConfig,
+  DeviceFarmBackendKind,
+  DeviceFarmBudgetConfig
+} from '../../types';
+
+const REGION_PATTERN = /^[a-z]{2}(-gov)?-[a-z]+-\d+$/;
+const PROJECT_ARN_PATTERN = /^arn:aws:devicefarm:([a-z0-9-]+):\d{12}:project:[\w-]+$/;
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+const CREDENTIAL_SOURCES: AwsCredentialSource[] = ['profile', 'env', 'default'];
+const DEVICE_FARM_BACKENDS: DeviceFarmBackendKind[] = ['aws', 'local'];
+
+/**
+ * Thrown for invalid AWS settings, listing every problem at once
+ */
+export class AwsConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid AWS configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'AwsConfigError';
+  }
+}
+
+function loadCredentials(env: NodeJS.ProcessEnv, problems: string[]): AwsCredentialsConfig {
+  const explicit = env.AWS_CREDENTIAL_SOURCE as AwsCredentialSource | undefined;
+  if (explicit && !CREDENTIAL_SOURCES.includes(explicit)) {
+    problems.push(`AWS_CREDENTIAL_SOURCE must be one of ${CREDENTIAL_SOURCES.join(', ')} (got "${explicit}")`);
+  }
+
+  // A profile wins over static keys, as it always has for these routes
+  const source = explicit && CREDENTIAL_SOURCES.includes(explicit)
+    ? explicit
+    : env.AWS_PROFILE ? 'profile' : env.AWS_ACCESS_KEY_ID ? 'env' : 'default';
+
+  if (source === 'profile' && !env.AWS_PROFILE) {
+    problems.push('AWS_PROFILE is required when AWS_CREDENTIAL_SOURCE=profile');
+  }
+  if (source === 'env' && (!env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY)) {
+    problems.push('AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY must both be set to use keys from the environment');
+  }
+
+  return {
+    source,
+    profile: source === 'profile' ? env.AWS_PROFILE : undefined,
+    accessKeyId: source === 'env' ? env.AWS_ACCESS_KEY_ID : undefined,
+    secretAccessKey: source === 'env' ? env.AWS_SECRET_ACCESS_KEY : undefined,
+    sessionToken: source === 'env' ? env.AWS_SESSION_TOKEN : undefined
+  };
+}
+
+// Device Farm's list price for a metered device minute
+const DEFAULT_COST_PER_MINUTE = 0.17;
+
+function loadAmount(name: string, value: string | undefined, problems: string[]): number | null {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    problems.push(`${name} must be an amount in USD such as 250 or 0.17 (got "${value}")`);
+    return null;
+  }
+  return amount;
+}
+
+function loadBudget(env: NodeJS.ProcessEnv, problems: string[]): DeviceFarmBudgetConfig {
+  const block = env.DEVICE_FARM_BUDGET_BLOCK;
+  if (block !== undefined && !['true', 'false'].includes(block)) {
+    problems.push(`DEVICE_FARM_BUDGET_BLOCK must be true or false (got "${block}")`);
+  }
+
+  const monthlyLimit = loadAmount('DEVICE_FARM_MONTHLY_BUDGET', env.DEVICE_FARM_MONTHLY_BUDGET, problems);
+  if (block === 'true' && monthlyLimit === null) {
+    problems.push('DEVICE_FARM_BUDGET_BLOCK needs DEVICE_FARM_MONTHLY_BUDGET to be set');
+  }
+
+  return {
+    costPerMinute: loadAmount('DEVICE_FARM_COST_PER_MINUTE', env.DEVICE_FARM_COST_PER_MINUTE, problems) ?? DEFAULT_COST_PER_MINUTE,
+    monthlyLimit,
+    blockWhenExceeded: block === 'true'
+  };
+}
+
+function checkRegion(name: string, region: string, problems: string[]) {
+  if (!REGION_PATTERN.test(region)) {
+    problems.push(`${name} is not a valid AWS region (got "${region}")`);
+  }
+}
+
+function loadBucket(prefix: string, defaults: AwsBucketConfig, env: NodeJS.ProcessEnv, problems: string[]): AwsBucketConfig {
+  const bucket = {
+    name: env[`${prefix}_BUCKET_NAME`] || defaults.name,
+    region: env[`${prefix}_BUCKET_REGION`] || defaults.region
+  };
+  if (!BUCKET_NAME_PATTERN.test(bucket.name)) {
+    problems.push(`${prefix}_BUCKET_NAME is not a valid S3 bucket name (got "${bucket.name}")`);
+  }
+  // A defaulted region has already been checked where it came from
+  if (env[`${prefix}_BUCKET_REGION`]) {
+    checkRegion(`${prefix}_BUCKET_REGION`, bucket.region, problems);
+  }
+  return bucket;
+}
+
+/**
+ * Read and validate the AWS settings from the environment.
+ * Throws AwsConfigError if anything set is malformed.
+ */
+export function loadAwsConfig(env: NodeJS.ProcessEnv = process.env): AwsConfig {
+  const problems: string[] = [];
+  const defaultRegion = env.AWS_REGION || 'us-west-2';
+
+  const credentials = loadCredentials(env, problems);
+
+  // Device Farm itself only runs in us-west-2, so its region doesn't follow AWS_REGION
+  const deviceFarmRegion = env.DEVICE_FARM_REGION || 'us-west-2';
+  if (env.DEVICE_FARM_REGION) {
+    checkRegion('DEVICE_FARM_REGION', deviceFarmRegion, problems);
+  }
+
+  const backend = (env.DEVICE_FARM_BACKEND || 'aws') as DeviceFarmBackendKind;
+  if (!DEVICE_FARM_BACKENDS.includes(backend)) {
+    problems.push(`DEVICE_FARM_BACKEND must be one of ${DEVICE_FARM_BACKENDS.join(', ')} (got "${backend}")`);
+  }
+
+  // The local backend accepts any project, so give it one rather than disabling the routes
+  const projectArn = env.DEVICE_FARM_PROJECT_ARN || env.NEXT_PUBLIC_DEVICE_FARM_PROJECT_ARN
+    || (backend === 'local' ? `arn:aws:devicefarm:${deviceFarmRegion}:000000000000:project:local` : null);
+  if (projectArn) {
+    const match = projectArn.match(PROJECT_ARN_PATTERN);
+    if (!match) {
+      problems.push(`DEVICE_FARM_PROJECT_ARN is not a Device Farm project ARN (got "${projectArn}")`);
+    } else if (match[1] !== deviceFarmRegion) {
+      problems.push(`DEVICE_FARM_PROJECT_ARN is in ${match[1]} but the Device Farm region is ${deviceFarmRegion}`);
+    }
+  }
+
+  const budget = loadBudget(env, problems);
+
+  const maxInfraRetries = env.DEVICE_FARM_MAX_INFRA_RETRIES ? Number(env.DEVICE_FARM_MAX_INFRA_RETRIES) : 2;
+  if (!Number.isInteger(maxInfraRetries) || maxInfraRetries < 0) {
+    problems.push(`DEVICE_FARM_MAX_INFRA_RETRIES must be a whole number, 0 or more (got "${env.DEVICE_FARM_MAX_INFRA_RETRIES}")`);
+  }
+
+  const buckets = {
+    tests: loadBucket('TESTS', { name: 'vault22-tests', region: defaultRegion }, env, problems),
+    reports: loadBucket('REPORTS', { name: 'vault22-test-reports', region: 'eu-west-1' }, env, problems),
+    builds: loadBucket('BUILDS', { name: 'vault22-builds', region: defaultRegion }, env, problems)
+  };
+
+  if (problems.length > 0) {
+    throw new AwsConfigError(problems);
+  }
+
+  return {
+    credentials,
+    deviceFarm: { backend, region: deviceFarmRegion, projectArn, budget, maxInfraRetries },
+    buckets
+  };
+}
+
+interface AwsClients {
+  config: AwsConfig;
+  deviceFarm?: DeviceFarmClient;
+  s3: Map<string, S3Client>;
+}
+
+const globalForAws = globalThis as unknown as { awsClients?: AwsClients };
+
+function getClients(): AwsClients {
+  if (!globalForAws.awsClients) {
+    globalForAws.awsClients = { config: loadAwsConfig(), s3: new Map() };
+  }
+  return globalForAws.awsClients;
+}
+
+/**
+ * Validated AWS settings, loaded once per server process
+ */
+export function getAwsConfig(): AwsConfig {
+  return getClients().config;
+}
+
+// Profile and default sources are left to the SDK's provider chain, which reads AWS_PROFILE itself
+function getClientCredentials(credentials: AwsCredentialsConfig) {
+  return credentials.source === 'env'
+    ? {
+        accessKeyId: credentials.accessKeyId!,
+        secretAccessKey: credentials.secretAccessKey!,
+        sessionToken: credentials.sessionToken
+      }
+    : undefined;
+}
+
+export function getDeviceFarmClient(): DeviceFarmClient {
+  const clients = getClients();
+  if (!clients.deviceFarm) {
+    clients.deviceFarm = new DeviceFarmClient({
+      region: clients.config.deviceFarm.region,
+      credentials: getClientCredentials(clients.config.credentials)
+    });
+  }
+  return clients.deviceFarm;
+}
+
+/**
+ * S3 client for the region the given bucket lives in, or for an S3-compatible endpoint
+ */
+export function getS3Client(bucket: keyof AwsConfig['buckets'], endpoint?: string): S3Client {
+  const clients = getClients();
+  const { region } = clients.config.buckets[bucket];
+  const key = endpoint ? `${region} ${endpoint}` : region;
+  let client = clients.s3.get(key);
+  if (!client) {
+    client = new S3Client({
+      region,
+      credentials: getClientCredentials(clients.config.credentials),
+      // Most S3-compatible stores don't serve bucket subdomains
+      ...(endpoint ? { endpoint, forcePathStyle: true } : {})
+    });
+    clients.s3.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Public URL of an object in one of the configured buckets
+ */
+export function getBucketObjectUrl(bucket: keyof AwsConfig['buckets'], key: string): string {
+  const { name, region } = getAwsConfig().buckets[bucket];
+  return `https://${name}.s3.${region}.amazonaws.com/${key}`;
+}
@@ -0,0 +1,375 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, Hash } from 'crypto';
+import {
+  BuildCacheConfig,
+  BuildCacheFilter,
+  BuildCacheIndex,
+  BuildCacheRemoval,
+  BuildMetadata,
+  BuildVerifyResult,
+  CachedBuild,
+  HistoryEntry
+} from '../../types';
+
+const INDEX_FILE = 'build-index.json';
+// What BitriseService wrote before the index, keyed `${branch}-${buildNumber}` whatever the platform
+const LEGACY_METADATA_FILE = 'build-metadata.json';
+// What scripts/check-build.ts read, keyed by branch and then by build
+const LEGACY_BRANCH_METADATA_FILE = 'metadata.json';
+// app-<branch>-build-<number>[-<anything>].apk/.ipa, or the .app extracted from an IPA
+const BUILD_FILE_PATTERN = /^app-(.+?)-build-(\d+)(?:-[^.]+)?\.(apk|ipa|app)$/i;
+
+export function getBuildKey(platform: 'android' | 'ios', branch: string, buildNumber: number): string {
+  return `${platform}/${branch}/${buildNumber}`;
+}
+
+export function getBuildPlatform(filePath: string): 'android' | 'ios' | null {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.apk') return 'android';
+  if (extension === '.ipa' || extension === '.app') return 'ios';
+  return null;
+}
+
+/**
+ * What a build file's name says about it, going by how downloaded builds are
+ * named and how the s3 and local build providers expect them to be
+ */
+export function parseBuildFileName(fileName: string): { platform: 'android' | 'ios'; branch: string; buildNumber: number } | null {
+  const match = BUILD_FILE_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  return {
+    platform: match[3].toLowerCase() === 'apk' ? 'android' : 'ios',
+    branch: match[1],
+    buildNumber: parseInt(match[2])
+  };
+}
+
+// An IPA's app bundle is extracted next to it (see BuildDownloader.extractIpa)
+function getExtractedAppPath(filePath: string): string | null {
+  return filePath.toLowerCase().endsWith('.ipa') ? filePath.replace(/\.ipa$/i, '.app') : null;
+}
+
+/**
+ * Hash a file as a stream, so a 200 MB IPA is never held in memory
+ */
+export async function hashFile(filePath: string): Promise<{ hash: Hash; size: number }> {
+  const hash = createHash('sha256');
+  let size = 0;
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+  return { hash, size };
+}
+
+/**
+ * Calculate file checksum for integrity verification
+ */
+export async function calculateChecksum(filePath: string): Promise<string> {
+  const { hash } = await hashFile(filePath);
+  return hash.digest('hex');
+}
+
+function readJson<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    console.warn(`Failed to read ${filePath}, ignoring it:`, error);
+    return null;
+  }
+}
+
+/**
+ * The one index of downloaded builds for both platforms, with the retention
+ * policy applied whenever a build is added: a number of builds per platform
+ * and branch, and a total size beyond which the least recently used go.
+ * Pinned builds are kept regardless. The index is re-read on every call, as
+ * the CLI scripts and the test runner UI share it.
+ */
+export class BuildCache {
+  private config: BuildCacheConfig;
+  private indexFile: string;
+
+  constructor(config: Partial<BuildCacheConfig> = {}) {
+    this.config = {
+      cacheDir: path.join(process.cwd(), '.bitrise-cache'),
+      maxBuildsPerBranch: parseInt(process.env.BUILD_CACHE_MAX_BUILDS_PER_BRANCH || '') || 3,
+      maxTotalBytes: (parseInt(process.env.BUILD_CACHE_MAX_SIZE_MB || '') || 10240) * 1024 * 1024,
+      ...config
+    };
+    this.indexFile = path.join(this.config.cacheDir, INDEX_FILE);
+  }
+
+  /**
+   * Cached builds, newest first
+   */
+  list(filter: BuildCacheFilter = {}): CachedBuild[] {
+    return Object.values(this.read().builds)
+      .filter(build => (!filter.platform || build.platform === filter.platform) && (!filter.branch || build.branch === filter.branch))
+      .sort((a, b) => b.buildNumber - a.buildNumber || a.key.localeCompare(b.key));
+  }
+
+  get(platform: 'android' | 'ios', branch: string, buildNumber: number): CachedBuild | null {
+    return this.read().builds[getBuildKey(platform, branch, buildNumber)] || null;
+  }
+
+  /**
+   * The newest build of a branch whose file is still on disk
+   */
+  getLatest(platform: 'android' | 'ios', branch: string): CachedBuild | null {
+    return this.list({ platform, branch }).find(build => fs.existsSync(build.filePath)) || null;
+  }
+
+  /**
+   * The build a file belongs to, going by file name: the APK or IPA, or an IPA's extracted app
+   */
+  findByPath(filePath: string): CachedBuild | null {
+    const fileName = path.basename(filePath);
+    return Object.values(this.read().builds).find(build =>
+      path.basename(build.filePath) === fileName
+      || path.basename(getExtractedAppPath(build.filePath) || '') === fileName
+    ) || null;
+  }
+
+  /**
+   * Record a downloaded build (keeping its pin if it was cached before) and apply the retention policy
+   */
+  add(platform: 'android' | 'ios', metadata: BuildMetadata): CachedBuild {
+    const index = this.read();
+    const key = getBuildKey(platform, metadata.branch, metadata.buildNumber);
+    const build: CachedBuild = {
+      ...metadata,
+      key,
+      platform,
+      pinned: index.builds[key]?.pinned || false,
+      lastUsedAt: new Date().toISOString()
+    };
+    index.builds[key] = build;
+    this.write(index);
+    this.prune({ keep: key });
+    return build;
+  }
+
+  /**
+   * Note that a cached build was used, so the size limit evicts it later
+   */
+  touch(key: string): void {
+    const index = this.read();
+    if (index.builds[key]) {
+      index.builds[key].lastUsedAt = new Date().toISOString();
+      this.write(index);
+    }
+  }
+
+  setPinned(key: string, pinned: boolean): CachedBuild | null {
+    const index = this.read();
+    const build = index.builds[key];
+    if (!build) {
+      return null;
+    }
+    build.pinned = pinned;
+    this.write(index);
+    return build;
+  }
+
+  /**
+   * Apply the retention policy. Entries whose file is gone are dropped from
+   * the index; builds over the limits are deleted from disk as well.
+   */
+  prune(options: { dryRun?: boolean; keep?: string } = {}): BuildCacheRemoval[] {
+    const index = this.read();
+    const removals: BuildCacheRemoval[] = [];
+    const remaining: CachedBuild[] = [];
+
+    for (const build of Object.values(index.builds)) {
+      if (fs.existsSync(build.filePath)) {
+        remaining.push(build);
+      } else {
+        removals.push({ build, reason: 'missing' });
+      }
+    }
+
+    // Only the newest builds of each platform and branch
+    const byBranch = new Map<string, CachedBuild[]>();
+    for (const build of remaining) {
+      const group = `${build.platform}/${build.branch}`;
+      byBranch.set(group, [...(byBranch.get(group) || []), build]);
+    }
+    for (const builds of byBranch.values()) {
+      builds
+        .filter(build => !build.pinned)
+        // The build just added stays whatever its number, taking one of its branch's places
+        .sort((a, b) => Number(b.key === options.keep) - Number(a.key === options.keep) || b.buildNumber - a.buildNumber)
+        .slice(this.config.maxBuildsPerBranch)
+        .filter(build => build.key !== options.keep)
+        .forEach(build => removals.push({ build, reason: 'branch-limit' }));
+    }
+
+    // Then the least recently used, until the rest fits
+    const removedKeys = new Set(removals.map(removal => removal.build.key));
+    const kept = remaining.filter(build => !removedKeys.has(build.key));
+    let totalBytes = kept.reduce((total, build) => total + build.fileSize, 0);
+    const evictable = kept
+      .filter(build => !build.pinned && build.key !== options.keep)
+      .sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+    for (const build of evictable) {
+      if (totalBytes <= this.config.maxTotalBytes) break;
+      removals.push({ build, reason: 'size-limit' });
+      totalBytes -= build.fileSize;
+    }
+
+    if (options.dryRun || removals.length === 0) {
+      return removals;
+    }
+
+    for (const { build, reason } of removals) {
+      if (reason !== 'missing') {
+        this.deleteFiles(build);
+        console.log(`🗑️ Deleted ${path.basename(build.filePath)} (${build.key}, ${reason})`);
+      }
+      delete index.builds[build.key];
+    }
+    this.write(index);
+    return removals;
+  }
+
+  /**
+   * Check each cached build's file against its checksum. With `fix`, builds
+   * that are missing or corrupt are dropped (and deleted) so they're fetched again.
+   */
+  async verify(options: { fix?: boolean; filter?: BuildCacheFilter } = {}): Promise<BuildVerifyResult[]> {
+    const results: BuildVerifyResult[] = [];
+    for (const build of this.list(options.filter)) {
+      if (!fs.existsSync(build.filePath)) {
+        results.push({ build, status: 'missing' });
+        continue;
+      }
+      const checksum = await calculateChecksum(build.filePath);
+      // Builds migrated from scripts/check-build.ts's metadata had no checksum to compare with
+      if (!build.checksum) {
+        this.update(build.key, { checksum });
+        results.push({ build: { ...build, checksum }, status: 'ok' });
+        continue;
+      }
+      results.push({ build, status: checksum === build.checksum ? 'ok' : 'corrupt' });
+    }
+
+    if (options.fix) {
+      const index = this.read();
+      for (const { build, status } of results.filter(result => result.status !== 'ok')) {
+        this.deleteFiles(build);
+        delete index.builds[build.key];
+      }
+      this.write(index);
+    }
+    return results;
+  }
+
+  private update(key: string, changes: Partial<CachedBuild>): void {
+    const index = this.read();
+    if (index.builds[key]) {
+      index.builds[key] = { ...index.builds[key], ...changes };
+      this.write(index);
+    }
+  }
+
+  private deleteFiles(build: CachedBuild): void {
+    fs.rmSync(build.filePath, { force: true });
+    const appPath = getExtractedAppPath(build.filePath);
+    if (appPath) {
+      fs.rmSync(appPath, { recursive: true, force: true });
+    }
+  }
+
+  private read(): BuildCacheIndex {
+    const index = readJson<BuildCacheIndex>(this.indexFile);
+    if (index) {
+      return index;
+    }
+    const migrated = this.migrate();
+    if (Object.keys(migrated.builds).length > 0) {
+      this.write(migrated);
+    }
+    return migrated;
+  }
+
+  private write(index: BuildCacheIndex): void {
+    fs.mkdirSync(this.config.cacheDir, { recursive: true });
+    // Write then rename, so a reader in another process never sees half an index
+    const tempFile = `${this.indexFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(index, null, 2));
+    fs.renameSync(tempFile, this.indexFile);
+  }
+
+  /**
+   * Build the index from the two metadata files it replaces. Only runs while
+   * there is no index yet; the old files are left where they are.
+   */
+  private migrate(): BuildCacheIndex {
+    const index: BuildCacheIndex = { version: 1, builds: {} };
+    const legacy = readJson<Record<string, BuildMetadata>>(path.join(this.config.cacheDir, LEGACY_METADATA_FILE)) || {};
+    const legacyByBranch = readJson<Record<string, Record<string, Partial<BuildMetadata>>>>(
+      path.join(this.config.cacheDir, LEGACY_BRANCH_METADATA_FILE)
+    ) || {};
+
+    const entries: Partial<BuildMetadata>[] = [
+      ...Object.values(legacy),
+      ...Object.entries(legacyByBranch).flatMap(([branch, builds]) =>
+        Object.values(builds || {}).map(build => ({ branch, ...build }))
+      )
+    ];
+    for (const entry of entries) {
+      const platform = entry.filePath ? getBuildPlatform(entry.filePath) : null;
+      if (!platform || !entry.branch || !entry.buildNumber) {
+        continue;
+      }
+      const key = getBuildKey(platform, entry.branch, entry.buildNumber);
+      if (index.builds[key]) {
+        continue;
+      }
+      const downloadedAt = entry.downloadedAt || new Date().toISOString();
+      index.builds[key] = {
+        buildNumber: entry.buildNumber,
+        buildSlug: entry.buildSlug || '',
+        branch: entry.branch,
+        commitHash: entry.commitHash || null,
+        downloadedAt,
+        filePath: entry.filePath!,
+        fileSize: entry.fileSize || (fs.existsSync(entry.filePath!) ? fs.statSync(entry.filePath!).size : 0),
+        checksum: entry.checksum || '',
+        key,
+        platform,
+        pinned: false,
+        lastUsedAt: downloadedAt
+      };
+    }
+
+    if (entries.length > 0) {
+      console.log(`📦 Imported ${Object.keys(index.builds).length} cached build(s) into ${INDEX_FILE}`);
+    }
+    return index;
+  }
+}
+
+/**
+ * What a run records about its build: what the build cache recorded when it
+ * was downloaded, or else what its file name says
+ */
+export function getBuildDetails(
+  buildPath: string,
+  cacheDir: string = path.join(process.cwd(), '.bitrise-cache')
+): Pick<HistoryEntry, 'branch' | 'buildNumber' | 'commitHash'> {
+  const build = new BuildCache({ cacheDir }).findByPath(buildPath);
+  if (build) {
+    return { branch: build.branch, buildNumber: build.buildNumber, commitHash: build.commitHash };
+  }
+
+  const parsed = parseBuildFileName(path.basename(buildPath));
+  return parsed ? { branch: parsed.branch, buildNumber: parsed.buildNumber } : {};
+}
@@ -0,0 +1,221 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import readline from 'readline';
+import { BuildFetchEvent, BuildFetchJob, BuildFetchJobEvent, BuildFetchRequest } from '../../types';
+
+// How scripts/fetch-builds.ts marks the progress lines build fetch jobs pick out of its output
+export const PROGRESS_LINE_PREFIX = '@@progress ';
+// Finished jobs are kept this long so a modal reopened afterwards still sees how it ended
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+// The ETA only means something once a few seconds of transfer rate are in
+const MIN_ETA_SAMPLE_MS = 2000;
+
+interface TrackedJob {
+  job: BuildFetchJob;
+  // When the current download attempt started and how much was already on disk then
+  downloadStartedAt: number | null;
+  downloadStartBytes: number;
+}
+
+/**
+ * Runs `npm run build:fetch` as background jobs and follows them through the
+ * JSON lines it prints, so the browser can close the build fetch modal and
+ * come back to the same download. One job per platform, branch and build at
+ * a time: asking again returns the one already running.
+ */
+export class BuildFetchJobs {
+  private jobs = new Map<string, TrackedJob>();
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Start fetching a build with the CLI in `projectRoot`, or return the job already fetching it
+   */
+  start(request: BuildFetchRequest, projectRoot: string): BuildFetchJob {
+    this.prune();
+    const running = [...this.jobs.values()].find(({ job }) =>
+      job.status === 'running'
+      && job.platform === request.platform
+      && job.branch === request.branch
+      && job.buildSlug === (request.buildSlug || null)
+      && job.project === (request.project || null)
+    );
+    if (running) {
+      return running.job;
+    }
+
+    const now = new Date().toISOString();
+    const tracked: TrackedJob = {
+      job: {
+        id: randomUUID(),
+        platform: request.platform,
+        branch: request.branch,
+        buildSlug: request.buildSlug || null,
+        project: request.project || null,
+        status: 'running',
+        phase: 'resolving',
+        bytesDownloaded: 0,
+        totalBytes: null,
+        percent: null,
+        etaSeconds: null,
+        filePath: null,
+        error: null,
+        startedAt: now,
+        updatedAt: now,
+        finishedAt: null
+      },
+      downloadStartedAt: null,
+      downloadStartBytes: 0
+    };
+    this.jobs.set(tracked.job.id, tracked);
+    this.run(tracked, projectRoot);
+    return tracked.job;
+  }
+
+  getJob(id: string): BuildFetchJob | null {
+    return this.jobs.get(id)?.job || null;
+  }
+
+  /**
+   * Jobs still running or finished in the last hour, newest first
+   */
+  listJobs(): BuildFetchJob[] {
+    this.prune();
+    return [...this.jobs.values()]
+      .map(({ job }) => job)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Subscribe to a job's changes. Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: (event: BuildFetchJobEvent) => void): () => void {
+    const eventName = `job:${id}`;
+    this.emitter.on(eventName, listener);
+    return () => {
+      this.emitter.off(eventName, listener);
+    };
+  }
+
+  private run(tracked: TrackedJob, projectRoot: string): void {
+    const { job } = tracked;
+    const args = [`--platform=${job.platform}`, `--branch=${job.branch}`];
+    if (job.buildSlug) {
+      args.push(`--buildSlug=${job.buildSlug}`);
+    }
+    if (job.project) {
+      args.push(`--project=${job.project}`);
+    }
+    console.log(`📥 Build fetch ${job.id}: npm run build:fetch -- ${args.join(' ')}`);
+
+    const child = spawn('npm', ['run', 'build:fetch', '--', ...args, '--progress-json'], {
+      cwd: projectRoot,
+      env: { ...process.env, FORCE_COLOR: '0' }
+    });
+
+    let result: string | null | undefined;
+    let stderr = '';
+    readline.createInterface({ input: child.stdout }).on('line', line => {
+      if (!line.startsWith(PROGRESS_LINE_PREFIX)) {
+        return;
+      }
+      try {
+        const event: BuildFetchEvent = JSON.parse(line.slice(PROGRESS_LINE_PREFIX.length));
+        if (event.type === 'result') {
+          result = event.filePath;
+        } else {
+          this.apply(tracked, event);
+        }
+      } catch {
+        // A progress line cut short is not worth failing the download over
+      }
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', error => this.finish(tracked, null, error.message));
+    child.on('close', code => {
+      if (code !== 0) {
+        // The CLI reports what went wrong as its last `❌ Error:` line
+        const reason = stderr.split('\n').reverse().find(line => line.startsWith('❌ Error:'))?.replace('❌ Error:', '').trim();
+        this.finish(tracked, null, reason || stderr.trim() || `build:fetch exited with code ${code}`);
+      } else if (!result) {
+        this.finish(tracked, null, `No ${job.platform === 'ios' ? 'IPA' : 'APK'} artifact found in the build`);
+      } else {
+        this.finish(tracked, result, null);
+      }
+    });
+  }
+
+  private apply(tracked: TrackedJob, event: Exclude<BuildFetchEvent, { type: 'result' }>): void {
+    const { job } = tracked;
+    if (event.type === 'phase') {
+      if (event.phase === 'downloading') {
+        tracked.downloadStartedAt = null;
+      }
+      job.phase = event.phase;
+      job.etaSeconds = null;
+    } else {
+      const now = Date.now();
+      if (tracked.downloadStartedAt === null) {
+        tracked.downloadStartedAt = now;
+        tracked.downloadStartBytes = event.bytesDownloaded;
+      }
+      job.bytesDownloaded = event.bytesDownloaded;
+      job.totalBytes = event.totalBytes;
+      job.percent = event.percent;
+
+      const elapsedMs = now - tracked.downloadStartedAt;
+      const transferred = event.bytesDownloaded - tracked.downloadStartBytes;
+      job.etaSeconds = event.totalBytes && elapsedMs >= MIN_ETA_SAMPLE_MS && transferred > 0
+        ? Math.round(((event.totalBytes - event.bytesDownloaded) * elapsedMs) / transferred / 1000)
+        : null;
+    }
+    this.publish(job);
+  }
+
+  private finish(tracked: TrackedJob, filePath: string | null, error: string | null): void {
+    const { job } = tracked;
+    if (job.status !== 'running') {
+      return;
+    }
+    job.status = error ? 'failed' : 'completed';
+    job.filePath = filePath;
+    job.error = error;
+    job.etaSeconds = null;
+    job.finishedAt = new Date().toISOString();
+    console.log(error ? `❌ Build fetch ${job.id} failed: ${error}` : `✅ Build fetch ${job.id} finished: ${filePath}`);
+    this.publish(job);
+  }
+
+  private publish(job: BuildFetchJob): void {
+    job.updatedAt = new Date().toISOString();
+    const event: BuildFetchJobEvent = { type: 'job:update', job, timestamp: job.updatedAt };
+    this.emitter.emit(`job:${job.id}`, event);
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, { job }] of this.jobs) {
+      if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+// One job list per server process (survives Next.js dev hot reloads)
+const globalForBuildFetch = globalThis as unknown as { buildFetchJobs?: BuildFetchJobs };
+
+export function getBuildFetchJobs(): BuildFetchJobs {
+  if (!globalForBuildFetch.buildFetchJobs) {
+    globalForBuildFetch.buildFetchJobs = new BuildFetchJobs();
+  }
+  return globalForBuildFetch.buildFetchJobs;
+}
@@ -0,0 +1,220 @@
+import {
+  ArtifactCandidate,
+  ArtifactInfo,
+  ArtifactRule,
+  ArtifactRules,
+  ArtifactRulesConfig,
+  ArtifactSelection,
+  ArtifactSelectionRules
+} from '../../types';
+
+const RULE_FIELDS: (keyof ArtifactRule)[] = ['name', 'title', 'artifactType', 'flavor', 'variant'];
+
+// What was picked before there were rules: a signed APK if there is one, never an APK signature
+export const DEFAULT_ARTIFACT_RULES: ArtifactRules = {
+  android: {
+    prefer: [{ name: 'signed', title: 'signed' }],
+    exclude: [{ name: 'APK signature', title: '\\.idsig$' }],
+    requireMatch: false
+  },
+  ios: {
+    prefer: [],
+    exclude: [],
+    requireMatch: false
+  }
+};
+
+/**
+ * Rules for each platform, the later configs overriding the earlier field by field
+ */
+export function mergeArtifactRules(...configs: (ArtifactRulesConfig | undefined)[]): ArtifactRules {
+  return {
+    android: Object.assign({}, DEFAULT_ARTIFACT_RULES.android, ...configs.map(config => config?.android)),
+    ios: Object.assign({}, DEFAULT_ARTIFACT_RULES.ios, ...configs.map(config => config?.ios))
+  };
+}
+
+/**
+ * Add a problem for anything in an artifactRules setting that isn't a valid rule
+ */
+export function checkArtifactRules(name: string, config: unknown, problems: string[]): void {
+  if (config === undefined) {
+    return;
+  }
+  if (typeof config !== 'object' || config === null) {
+    problems.push(`${name} must map android and/or ios to their rules`);
+    return;
+  }
+
+  for (const [platform, rules] of Object.entries(config)) {
+    if (platform !== 'android' && platform !== 'ios') {
+      problems.push(`${name} has rules for an unknown platform "${platform}" (android or ios)`);
+      continue;
+    }
+    if (rules?.requireMatch !== undefined && typeof rules.requireMatch !== 'boolean') {
+      problems.push(`${name}.${platform}.requireMatch must be true or false`);
+    }
+    for (const list of ['prefer', 'exclude'] as const) {
+      const ruleList = rules?.[list];
+      if (ruleList === undefined) {
+        continue;
+      }
+      if (!Array.isArray(ruleList)) {
+        problems.push(`${name}.${platform}.${list} must be a list of rules`);
+        continue;
+      }
+      ruleList.forEach((rule: Record<string, unknown>, index: number) => {
+        const ruleName = `${name}.${platform}.${list}[${index}]`;
+        const fields = Object.keys(rule || {});
+        const unknown = fields.filter(field => !RULE_FIELDS.includes(field as keyof ArtifactRule));
+        if (unknown.length > 0) {
+          problems.push(`${ruleName} has unknown fields: ${unknown.join(', ')} (use ${RULE_FIELDS.join(', ')})`);
+        }
+        if (!fields.some(field => field !== 'name' && RULE_FIELDS.includes(field as keyof ArtifactRule))) {
+          problems.push(`${ruleName} must set at least one of title, artifactType, flavor or variant`);
+        }
+        for (const field of fields.filter(field => RULE_FIELDS.includes(field as keyof ArtifactRule))) {
+          if (typeof rule[field] !== 'string' || !rule[field]) {
+            problems.push(`${ruleName}.${field} must be a non-empty string`);
+          }
+        }
+        if (typeof rule?.title === 'string') {
+          try {
+            new RegExp(rule.title, 'i');
+          } catch (error: any) {
+            problems.push(`${ruleName}.title is not a valid regular expression: ${error.message}`);
+          }
+        }
+      });
+    }
+  }
+}
+
+/**
+ * How a rule is shown when explaining a selection
+ */
+export function describeRule(rule: ArtifactRule): string {
+  if (rule.name) {
+    return `'${rule.name}'`;
+  }
+  const parts = [
+    rule.title && `title /${rule.title}/`,
+    rule.artifactType && `type ${rule.artifactType}`,
+    rule.flavor && `flavor ${rule.flavor}`,
+    rule.variant && `variant ${rule.variant}`
+  ].filter(Boolean);
+  return `{ ${parts.join(', ')} }`;
+}
+
+// The words of a title, with camelCase split: app-uaeStaging-release.apk has app, uae, staging, release, apk
+function getTitleWords(title: string): string[] {
+  return title
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function hasWords(title: string, value: string): boolean {
+  const words = getTitleWords(title);
+  return getTitleWords(value).every(word => words.includes(word));
+}
+
+export function matchesRule(artifact: ArtifactInfo, rule: ArtifactRule): boolean {
+  return (!rule.title || new RegExp(rule.title, 'i').test(artifact.title))
+    && (!rule.artifactType || artifact.artifactType === rule.artifactType)
+    && (!rule.flavor || hasWords(artifact.title, rule.flavor))
+    && (!rule.variant || hasWords(artifact.title, rule.variant));
+}
+
+function isInstallable(platform: 'android' | 'ios', artifact: ArtifactInfo): boolean {
+  const title = artifact.title.toLowerCase();
+  return platform === 'ios'
+    ? title.endsWith('.ipa') || artifact.artifactType === 'ios-ipa'
+    // Bitrise types App Bundles as android-apk too, but an .aab can't be installed
+    : (title.endsWith('.apk') || artifact.artifactType === 'android-apk') && !title.endsWith('.aab');
+}
+
+/**
+ * Pick the artifact of a build to install on a platform, explaining the
+ * decision for every artifact so a wrong pick can be traced to its rule
+ */
+export function selectArtifact(
+  platform: 'android' | 'ios',
+  artifacts: ArtifactInfo[],
+  rules: ArtifactSelectionRules
+): ArtifactSelection {
+  const label = platform === 'ios' ? 'IPA' : 'APK';
+  const candidates: ArtifactCandidate[] = artifacts.map(artifact => ({ artifact, status: 'unmatched', rule: null, reason: '' }));
+  const eligible: ArtifactCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const exclusion = rules.exclude.find(rule => matchesRule(candidate.artifact, rule));
+    if (!isInstallable(platform, candidate.artifact)) {
+      candidate.status = 'wrong-type';
+      candidate.reason = `Not an ${label}`;
+    } else if (exclusion) {
+      candidate.status = 'excluded';
+      candidate.rule = describeRule(exclusion);
+      candidate.reason = `Excluded by ${candidate.rule}`;
+    } else {
+      eligible.push(candidate);
+    }
+  }
+
+  const result = (selected: ArtifactCandidate | null, reason: string): ArtifactSelection => ({
+    platform,
+    selected: selected?.artifact || null,
+    reason,
+    candidates
+  });
+
+  if (eligible.length === 0) {
+    return result(null, artifacts.length === 0
+      ? 'The build has no artifacts'
+      : `No ${label} artifact${candidates.some(c => c.status === 'excluded') ? ' left after the exclusion rules' : ' in the build'}`);
+  }
+
+  // Where each candidate ranks: the first preference rule it matches
+  for (const candidate of eligible) {
+    const preferred = rules.prefer.find(rule => matchesRule(candidate.artifact, rule));
+    if (preferred) {
+      candidate.rule = describeRule(preferred);
+    }
+  }
+  const rank = (candidate: ArtifactCandidate) => {
+    const index = rules.prefer.findIndex(rule => matchesRule(candidate.artifact, rule));
+    return index === -1 ? Infinity : index;
+  };
+  const best = eligible.reduce((winner, candidate) => rank(candidate) < rank(winner) ? candidate : winner);
+
+  if (rank(best) === Infinity) {
+    eligible.forEach(candidate => {
+      candidate.status = 'unmatched';
+      candidate.reason = 'Matches no preference rule';
+    });
+    if (rules.requireMatch) {
+      return result(null, `No ${label} artifact matches a preference rule, and one is required`);
+    }
+    const first = eligible[0];
+    first.status = 'selected';
+    first.reason = rules.prefer.length > 0
+      ? `First ${label} artifact; none matches a preference rule`
+      : `First ${label} artifact`;
+    return result(first, first.reason);
+  }
+
+  const ties = eligible.filter(candidate => rank(candidate) === rank(best));
+  for (const candidate of eligible) {
+    if (candidate === best) {
+      candidate.status = 'selected';
+      candidate.reason = `Matches ${candidate.rule}${ties.length > 1 ? `, the first of ${ties.length} artifacts that do` : ''}`;
+    } else {
+      candidate.status = candidate.rule ? 'not-preferred' : 'unmatched';
+      candidate.reason = rank(candidate) === rank(best)
+        ? `Also matches ${candidate.rule}, but comes after ${best.artifact.title}`
+        : candidate.rule ? `Matches ${candidate.rule}, a lower preference` : 'Matches no preference rule';
+    }
+  }
+  return result(best, best.reason);
+}
@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as yauzl from 'yauzl';
+import {
+  ArtifactInfo,
+  ArtifactSelection,
+  BuildDownloaderConfig,
+  BuildDownloadRequest,
+  BuildFetchPhase,
+  BuildInfo,
+  BuildProvider,
+  DownloadProgress
+} from '../../types';
+import { BuildCache, calculateChecksum, hashFile } from '../build-cache/build-cache.service';
+import { DEFAULT_ARTIFACT_RULES, selectArtifact } from './artifact-selection.service';
+
+// Progress events are throttled so a fast download doesn't flood listeners
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Fetches builds from a build provider into apps/<platform> and the build
+ * cache. Emits 'phase' (BuildFetchPhase) as a fetch moves along and
+ * 'progress' (DownloadProgress) while an artifact downloads.
+ */
+export class BuildDownloader extends EventEmitter {
+  private config: BuildDownloaderConfig;
+  private cache: BuildCache;
+
+  constructor(private provider: BuildProvider, config: Partial<BuildDownloaderConfig> = {}) {
+    super();
+    this.config = {
+      cacheDir: path.join(process.cwd(), '.bitrise-cache'),
+      appsDir: path.join(process.cwd(), 'apps'),
+      downloadRetries: parseInt(process.env.BUILD_DOWNLOAD_RETRIES || '') || 3,
+      artifactRules: DEFAULT_ARTIFACT_RULES,
+      ...config
+    };
+    this.cache = new BuildCache({ cacheDir: this.config.cacheDir });
+  }
+
+  private setPhase(phase: BuildFetchPhase): void {
+    this.emit('phase', phase);
+  }
+
+  /**
+   * Download a build's APK or IPA, or use the cached copy if its checksum
+   * still matches. Returns null if the build or an artifact for the platform
+   * can't be found.
+   */
+  async download(request: BuildDownloadRequest): Promise<string | null> {
+    const { platform, branch, buildSlug, force = false } = request;
+    const label = platform === 'ios' ? 'IPA' : 'APK';
+
+    const build = await this.resolveBuild(request);
+    if (!build) {
+      return null;
+    }
+
+    if (!force) {
+      const cached = this.cache.get(platform, branch, build.buildNumber);
+      // Builds migrated into the cache index may not know their slug
+      if (cached && (!cached.buildSlug || cached.buildSlug === build.buildSlug) && fs.existsSync(cached.filePath)) {
+        // Verify file integrity
+        this.setPhase('verifying');
+        if (await calculateChecksum(cached.filePath) === cached.checksum) {
+          console.log(`✅ Build #${build.buildNumber} already cached`);
+          console.log(`📦 Using cached ${label}: ${cached.filePath}`);
+          this.cache.touch(cached.key);
+          return cached.filePath;
+        }
+        console.log('⚠️ Cached file corrupted, re-downloading...');
+      }
+    }
+
+    this.setPhase('listing');
+    const { selected: artifact, reason } = await this.selectArtifact(platform, build);
+    if (!artifact) {
+      console.log(`❌ ${reason}`);
+      return null;
+    }
+    console.log(`📦 Selected artifact: ${artifact.title} (${(artifact.fileSizeBytes / 1024 / 1024).toFixed(2)} MB): ${reason}`);
+
+    const platformDir = path.join(this.config.appsDir, platform);
+    fs.mkdirSync(platformDir, { recursive: true });
+    const filePath = path.join(platformDir, `app-${branch}-build-${build.buildNumber}.${platform === 'ios' ? 'ipa' : 'apk'}`);
+
+    console.log(`💾 Downloading to: ${filePath}`);
+    const { checksum, fileSize } = await this.downloadArtifact(build, artifact, filePath);
+    console.log('\n✅ Download complete');
+
+    // Record it in the cache index, which prunes older builds by the retention policy
+    this.cache.add(platform, {
+      buildNumber: build.buildNumber,
+      buildSlug: build.buildSlug,
+      branch,
+      commitHash: build.commitHash,
+      downloadedAt: new Date().toISOString(),
+      filePath,
+      fileSize,
+      checksum
+    });
+
+    return filePath;
+  }
+
+  /**
+   * Which artifact download() would pick from a build, and why each of the others wasn't
+   */
+  async explain(request: BuildDownloadRequest): Promise<{ build: BuildInfo; selection: ArtifactSelection } | null> {
+    const build = await this.resolveBuild(request);
+    return build ? { build, selection: await this.selectArtifact(request.platform, build) } : null;
+  }
+
+  private async resolveBuild({ branch, buildSlug }: BuildDownloadRequest): Promise<BuildInfo | null> {
+    console.log(buildSlug ? `🔍 Fetching build ${buildSlug}` : `🔍 Fetching latest build for branch: ${branch}`);
+    this.setPhase('resolving');
+    const build = buildSlug
+      ? await this.provider.getBuild(buildSlug)
+      : (await this.provider.listBuilds(branch, 1))[0] || null;
+    if (!build) {
+      console.log(buildSlug ? `❌ Build not found: ${buildSlug}` : `❌ No successful builds found for branch: ${branch}`);
+      return null;
+    }
+    console.log(`📱 Found build #${build.buildNumber} (${build.commitHash || 'no commit'})`);
+    return build;
+  }
+
+  private async selectArtifact(platform: 'android' | 'ios', build: BuildInfo): Promise<ArtifactSelection> {
+    return selectArtifact(platform, await this.provider.listArtifacts(build), this.config.artifactRules[platform]);
+  }
+
+  /**
+   * Stream an artifact into `<filePath>.partial`, hashing it on the way, and
+   * rename it into place once complete. A dropped connection resumes from the
+   * bytes already on disk instead of starting over, where the provider can.
+   */
+  private async downloadArtifact(
+    build: BuildInfo,
+    artifact: ArtifactInfo,
+    filePath: string
+  ): Promise<{ checksum: string; fileSize: number }> {
+    const partialPath = `${filePath}.partial`;
+    const fileName = path.basename(filePath);
+    const expectedSize = artifact.fileSizeBytes || null;
+
+    for (let attempt = 1; ; attempt++) {
+      this.setPhase('downloading');
+      // Whatever an earlier attempt left on disk is what we resume from, and what the checksum starts with
+      let { hash, size: downloaded } = fs.existsSync(partialPath)
+        ? await hashFile(partialPath)
+        : { hash: createHash('sha256'), size: 0 };
+      let resumedFrom = downloaded;
+
+      try {
+        if (downloaded > 0) {
+          console.log(`↩️ Resuming ${fileName} from ${(downloaded / 1024 / 1024).toFixed(2)} MB`);
+        }
+        const { stream, resumed, totalBytes: reportedTotal } = await this.provider.downloadArtifact(build, artifact, downloaded);
+
+        // No stream: the partial file already holds every byte
+        if (stream) {
+          if (downloaded > 0 && !resumed) {
+            console.log('⚠️ Source ignored the resume request, downloading from the start');
+            hash = createHash('sha256');
+            downloaded = 0;
+            resumedFrom = 0;
+          }
+          const totalBytes = expectedSize || reportedTotal;
+
+          let lastEmit = 0;
+          const emitProgress = (force: boolean) => {
+            if (!force && Date.now() - lastEmit < PROGRESS_INTERVAL_MS) {
+              return;
+            }
+            lastEmit = Date.now();
+            const progress: DownloadProgress = {
+              fileName,
+              bytesDownloaded: downloaded,
+              totalBytes,
+              percent: totalBytes ? Math.min(100, Math.round((downloaded * 100) / totalBytes)) : null,
+              resumedFrom
+            };
+            this.emit('progress', progress);
+          };
+
+          const counter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              hash.update(chunk);
+              downloaded += chunk.length;
+              emitProgress(false);
+              callback(null, chunk);
+            }
+          });
+          await pipeline(stream, counter, fs.createWriteStream(partialPath, { flags: downloaded > 0 ? 'a' : 'w' }));
+          emitProgress(true);
+        }
+
+        this.setPhase('verifying');
+        if (expectedSize && downloaded !== expectedSize) {
+          // A short file is resumed by the next attempt; a longer one doesn't match the artifact at all
+          if (downloaded > expectedSize) {
+            fs.rmSync(partialPath, { force: true });
+          }
+          throw new Error(`Downloaded ${downloaded} bytes of ${fileName}, expected ${expectedSize}`);
+        }
+
+        fs.renameSync(partialPath, filePath);
+        return { checksum: hash.digest('hex'), fileSize: downloaded };
+      } catch (error: any) {
+        // Client errors (e.g. bad credentials or a missing object) won't go away by retrying
+        const status = error.response?.status ?? error.$metadata?.httpStatusCode;
+        if (attempt > this.config.downloadRetries || (status >= 400 && status < 500)) {
+          throw error;
+        }
+        console.warn(`\n⚠️ Download of ${fileName} interrupted (${error.message}), retrying (${attempt}/${this.config.downloadRetries})...`);
+        await new Promise(resolve => setTimeout(resolve, 2000 * attempt));
+      }
+    }
+  }
+
+  /**
+   * Extract the app bundle from an IPA next to it (app-main-build-12.ipa
+   * becomes app-main-build-12.app), which is what the simulator installs
+   */
+  async extractIpa(ipaPath: string): Promise<string> {
+    const appPath = ipaPath.replace(/\.ipa$/, '.app');
+    if (fs.existsSync(appPath) && fs.statSync(appPath).mtimeMs >= fs.statSync(ipaPath).mtimeMs) {
+      console.log(`📦 Using extracted app: ${appPath}`);
+      return appPath;
+    }
+
+    this.setPhase('extracting');
+    const partialPath = `${appPath}.partial`;
+    fs.rmSync(partialPath, { recursive: true, force: true });
+
+    const zipfile = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+      yauzl.open(ipaPath, { lazyEntries: true }, (error, opened) => {
+        if (error || !opened) {
+          reject(error || new Error(`Failed to open ${ipaPath}`));
+        } else {
+          resolve(opened);
+        }
+      });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let found = false;
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          // Payload/Runner.app/Info.plist lands in <appPath>/Info.plist
+          const relativePath = /^Payload\/[^/]+\.app\/(.+)$/.exec(entry.fileName)?.[1];
+          if (!relativePath) {
+            zipfile.readEntry();
+            return;
+          }
+          // yauzl has already rejected absolute paths and any with '..' in them
+          const target = path.join(partialPath, relativePath);
+          found = true;
+
+          if (entry.fileName.endsWith('/')) {
+            fs.mkdirSync(target, { recursive: true });
+            zipfile.readEntry();
+            return;
+          }
+
+          zipfile.openReadStream(entry, async (streamError, stream) => {
+            if (streamError || !stream) {
+              reject(streamError || new Error(`Failed to read ${entry.fileName}`));
+              return;
+            }
+            try {
+              fs.mkdirSync(path.dirname(target), { recursive: true });
+              // Keep executables executable and symlinks (e.g. inside frameworks) as links
+              const mode = entry.externalFileAttributes >>> 16;
+              if ((mode & 0o170000) === 0o120000) {
+                const linkTarget = await new Promise<string>((resolveLink, rejectLink) => {
+                  const chunks: Buffer[] = [];
+                  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+                  stream.on('end', () => resolveLink(Buffer.concat(chunks).toString()));
+                  stream.on('error', rejectLink);
+                });
+                fs.symlinkSync(linkTarget, target);
+              } else {
+                await pipeline(stream, fs.createWriteStream(target, { mode: (mode & 0o777) || 0o644 }));
+              }
+              zipfile.readEntry();
+            } catch (error) {
+              reject(error);
+            }
+          });
+        });
+        zipfile.on('end', () => {
+          if (found) {
+            resolve();
+          } else {
+            reject(new Error(`No app bundle found in ${path.basename(ipaPath)}`));
+          }
+        });
+        zipfile.on('error', reject);
+        zipfile.readEntry();
+      });
+    } catch (error) {
+      zipfile.close();
+      fs.rmSync(partialPath, { recursive: true, force: true });
+      throw error;
+    }
+
+    fs.rmSync(appPath, { recursive: true, force: true });
+    fs.renameSync(partialPath, appPath);
+    console.log(`📂 Extracted ${path.basename(appPath)}`);
+    return appPath;
+  }
+
+  /**
+   * Update WebdriverIO config with the APK path
+   */
+  updateWdioConfig(apkPath: string): void {
+    const configPath = path.join(process.cwd(), 'config', 'wdio.android.conf.ts');
+    
+    if (!fs.existsSync(configPath)) {
+      console.warn('❌ wdio.android.conf.ts not found');
+      return;
+    }
+
+    let config = fs.readFileSync(configPath, 'utf8');
+    const apkFilename = path.basename(apkPath);
+    
+    // Update the app path
+    config = config.replace(
+      /'appium:app':\s*path\.join\([^)]+\),?/,
+      `'appium:app': path.join(__dirname, '..', 'apps', 'android', '${apkFilename}'),`
+    );
+
+    fs.writeFileSync(configPath, config);
+    console.log(`✅ Updated wdio.android.conf.ts with: ${apkFilename}`);
+  }
+}
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArtifactRules, BuildProvider, BuildProviderKind, BuildProviderSettings, BuildProvidersFile } from '../../types';
+import { BitriseService } from '../bitrise/bitrise.service';
+import { checkArtifactRules, mergeArtifactRules } from './artifact-selection.service';
+import { LocalBuildProvider } from './local-build-provider.service';
+import { S3BuildProvider } from './s3-build-provider.service';
+
+const BUILD_PROVIDER_KINDS: BuildProviderKind[] = ['bitrise', 's3', 'local'];
+// Without a providers file there's one project, on Bitrise, as before providers could be chosen
+const DEFAULT_BUILD_PROVIDERS: BuildProvidersFile = {
+  defaultProject: 'default',
+  projects: { default: { provider: 'bitrise' } }
+};
+
+/**
+ * Thrown for an invalid build providers file or an unknown project, listing every problem at once
+ */
+export class BuildProviderConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid build provider configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'BuildProviderConfigError';
+  }
+}
+
+function checkOptionalString(name: string, value: unknown, problems: string[]) {
+  if (value !== undefined && (typeof value !== 'string' || !value)) {
+    problems.push(`${name} must be a non-empty string`);
+  }
+}
+
+/**
+ * Read and validate config/build-providers.json (or BUILD_PROVIDERS_FILE,
+ * relative to the project root). Throws BuildProviderConfigError if it's malformed.
+ */
+export function loadBuildProviders(projectRoot: string = process.cwd(), env: NodeJS.ProcessEnv = process.env): BuildProvidersFile {
+  const filePath = env.BUILD_PROVIDERS_FILE
+    ? path.resolve(projectRoot, env.BUILD_PROVIDERS_FILE)
+    : path.join(projectRoot, 'config', 'build-providers.json');
+  if (!fs.existsSync(filePath)) {
+    if (env.BUILD_PROVIDERS_FILE) {
+      throw new BuildProviderConfigError([`BUILD_PROVIDERS_FILE not found: ${filePath}`]);
+    }
+    return DEFAULT_BUILD_PROVIDERS;
+  }
+
+  let file: BuildProvidersFile;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new BuildProviderConfigError([`${path.basename(filePath)} is not valid JSON: ${error.message}`]);
+  }
+
+  const problems: string[] = [];
+  const projects = Object.entries(file?.projects || {});
+  if (projects.length === 0) {
+    problems.push('projects must name at least one project');
+  } else if (!file.projects[file.defaultProject]) {
+    problems.push(`defaultProject must be one of ${projects.map(([name]) => name).join(', ')} (got "${file.defaultProject}")`);
+  }
+
+  checkArtifactRules('artifactRules', file?.artifactRules, problems);
+  for (const [name, settings] of projects) {
+    checkArtifactRules(`projects.${name}.artifactRules`, settings?.artifactRules, problems);
+    if (!BUILD_PROVIDER_KINDS.includes(settings?.provider)) {
+      problems.push(`projects.${name}.provider must be one of ${BUILD_PROVIDER_KINDS.join(', ')} (got "${settings?.provider}")`);
+      continue;
+    }
+    if (settings.provider === 'bitrise') {
+      checkOptionalString(`projects.${name}.appSlug`, settings.appSlug, problems);
+    } else if (settings.provider === 's3') {
+      checkOptionalString(`projects.${name}.bucket`, settings.bucket, problems);
+      checkOptionalString(`projects.${name}.prefix`, settings.prefix, problems);
+      checkOptionalString(`projects.${name}.endpoint`, settings.endpoint, problems);
+    } else if (typeof settings.directory !== 'string' || !settings.directory) {
+      problems.push(`projects.${name}.directory is required for the local provider`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new BuildProviderConfigError(problems);
+  }
+  return file;
+}
+
+function getProjectSettings(providers: BuildProvidersFile, project?: string): BuildProviderSettings {
+  const name = project || process.env.BUILD_PROJECT || providers.defaultProject;
+  const settings = providers.projects[name];
+  if (!settings) {
+    throw new BuildProviderConfigError([
+      `Unknown build project "${name}" (configured: ${Object.keys(providers.projects).join(', ')})`
+    ]);
+  }
+  return settings;
+}
+
+/**
+ * The provider builds of a project come from: the one asked for, else
+ * BUILD_PROJECT, else the providers file's default project
+ */
+export function getBuildProvider(options: { project?: string; projectRoot?: string } = {}): BuildProvider {
+  const projectRoot = options.projectRoot || process.cwd();
+  const settings = getProjectSettings(loadBuildProviders(projectRoot), options.project);
+
+  switch (settings.provider) {
+    case 's3':
+      return new S3BuildProvider(settings);
+    case 'local':
+      return new LocalBuildProvider(path.resolve(projectRoot, settings.directory));
+    default:
+      return new BitriseService(settings.appSlug ? { appSlug: settings.appSlug } : {});
+  }
+}
+
+/**
+ * How a project's artifacts are picked: the defaults, then the file's
+ * artifactRules, then the project's own
+ */
+export function getArtifactRules(options: { project?: string; projectRoot?: string } = {}): ArtifactRules {
+  const providers = loadBuildProviders(options.projectRoot || process.cwd());
+  return mergeArtifactRules(providers.artifactRules, getProjectSettings(providers, options.project).artifactRules);
+}
@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { ArtifactInfo, ArtifactStream, BuildInfo, BuildProvider, BuildProviderKind } from '../../types';
+import { parseBuildFileName } from '../build-cache/build-cache.service';
+
+export interface BuildFile {
+  // Object key or path under the provider's root; used as the artifact slug
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+interface StoredBuild {
+  info: BuildInfo;
+  files: BuildFile[];
+}
+
+/**
+ * Builds kept as plain files named app-<branch>-build-<number>.apk/.ipa, in a
+ * bucket or a directory. Files with the same branch and number make up one
+ * build, so an APK and an IPA of the same build share it. There's no CI
+ * metadata to go on: a build counts as triggered when its newest file was written.
+ */
+export abstract class FileBuildProvider implements BuildProvider {
+  abstract readonly kind: BuildProviderKind;
+
+  protected abstract listFiles(): Promise<BuildFile[]>;
+  protected abstract openFile(key: string, offset: number): Promise<ArtifactStream>;
+
+  /**
+   * Branches with builds, the most recently built first
+   */
+  async listBranches(): Promise<string[]> {
+    const builds = (await this.loadBuilds())
+      .sort((a, b) => b.info.triggeredAt.localeCompare(a.info.triggeredAt));
+    return [...new Set(builds.map(build => build.info.branch))];
+  }
+
+  async listBuilds(branch: string, limit: number = 10): Promise<BuildInfo[]> {
+    return (await this.loadBuilds())
+      .filter(build => build.info.branch === branch)
+      .slice(0, limit)
+      .map(build => build.info);
+  }
+
+  async getBuild(buildSlug: string): Promise<BuildInfo | null> {
+    return (await this.loadBuilds()).find(build => build.info.buildSlug === buildSlug)?.info || null;
+  }
+
+  async listArtifacts(build: BuildInfo): Promise<ArtifactInfo[]> {
+    const stored = (await this.loadBuilds()).find(candidate => candidate.info.buildSlug === build.buildSlug);
+    return (stored?.files || []).map(file => {
+      const title = path.posix.basename(file.key);
+      return {
+        title,
+        slug: file.key,
+        artifactType: title.toLowerCase().endsWith('.apk') ? 'android-apk' : 'ios-ipa',
+        fileSizeBytes: file.size
+      };
+    });
+  }
+
+  downloadArtifact(_build: BuildInfo, artifact: ArtifactInfo, offset: number): Promise<ArtifactStream> {
+    return this.openFile(artifact.slug, offset);
+  }
+
+  /**
+   * Every build found, newest build number first
+   */
+  private async loadBuilds(): Promise<StoredBuild[]> {
+    const builds = new Map<string, StoredBuild>();
+    for (const file of await this.listFiles()) {
+      const fileName = path.posix.basename(file.key);
+      const parsed = parseBuildFileName(fileName);
+      // Extracted .app bundles and anything else named differently aren't artifacts
+      if (!parsed || !/\.(apk|ipa)$/i.test(fileName)) {
+        continue;
+      }
+
+      const buildSlug = `${parsed.branch}/build-${parsed.buildNumber}`;
+      const modifiedAt = file.modifiedAt.toISOString();
+      const build = builds.get(buildSlug);
+      if (build) {
+        build.files.push(file);
+        if (modifiedAt > build.info.triggeredAt) {
+          build.info.triggeredAt = modifiedAt;
+          build.info.finishedAt = modifiedAt;
+        }
+        continue;
+      }
+      builds.set(buildSlug, {
+        info: {
+          buildNumber: parsed.buildNumber,
+          buildSlug,
+          status: 'success',
+          branch: parsed.branch,
+          commitHash: null,
+          commitMessage: null,
+          triggeredAt: modifiedAt,
+          finishedAt: modifiedAt,
+          workflow: this.kind
+        },
+        files: [file]
+      });
+    }
+    return [...builds.values()].sort((a, b) => b.info.buildNumber - a.info.buildNumber);
+  }
+}
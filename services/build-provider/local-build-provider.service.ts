@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArtifactStream } from '../../types';
+import { BuildFile, FileBuildProvider } from './file-build-provider.service';
+
+/**
+ * Builds in a directory, e.g. a CI workspace mounted on the runner or a
+ * share builds are copied to. Subdirectories such as android/ and ios/ are
+ * searched too.
+ */
+export class LocalBuildProvider extends FileBuildProvider {
+  readonly kind = 'local';
+
+  constructor(private directory: string) {
+    super();
+  }
+
+  protected async listFiles(): Promise<BuildFile[]> {
+    if (!fs.existsSync(this.directory)) {
+      throw new Error(`Build directory not found: ${this.directory}`);
+    }
+
+    const files: BuildFile[] = [];
+    const walk = (relativeDir: string) => {
+      for (const entry of fs.readdirSync(path.join(this.directory, relativeDir), { withFileTypes: true })) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        // Extracted app bundles are directories too, but nothing inside them is a build
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !entry.name.endsWith('.app')) {
+          walk(relativePath);
+        } else if (entry.isFile()) {
+          const stats = fs.statSync(path.join(this.directory, relativePath));
+          files.push({ key: relativePath, size: stats.size, modifiedAt: stats.mtime });
+        }
+      }
+    };
+    walk('');
+    return files;
+  }
+
+  protected async openFile(key: string, offset: number): Promise<ArtifactStream> {
+    const filePath = path.join(this.directory, key);
+    const { size } = fs.statSync(filePath);
+    return {
+      stream: offset < size ? fs.createReadStream(filePath, { start: offset }) : null,
+      resumed: true,
+      totalBytes: size
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { GetObjectCommand, ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { ArtifactStream, S3ProviderSettings } from '../../types';
+import { getAwsConfig, getS3Client } from '../aws/aws.service';
+import { BuildFile, FileBuildProvider } from './file-build-provider.service';
+
+/**
+ * Builds uploaded to a bucket, by default the builds bucket from the CDK
+ * stack (e.g. s3://vault22-builds/android/app-main-build-12.apk)
+ */
+export class S3BuildProvider extends FileBuildProvider {
+  readonly kind = 's3';
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(settings: Omit<S3ProviderSettings, 'provider'> = {}) {
+    super();
+    this.client = getS3Client('builds', settings.endpoint);
+    this.bucket = settings.bucket || getAwsConfig().buckets.builds.name;
+    this.prefix = settings.prefix || '';
+  }
+
+  protected async listFiles(): Promise<BuildFile[]> {
+    const files: BuildFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.prefix || undefined,
+        ContinuationToken: continuationToken
+      }));
+      for (const object of response.Contents || []) {
+        if (object.Key && !object.Key.endsWith('/')) {
+          files.push({ key: object.Key, size: object.Size || 0, modifiedAt: object.LastModified || new Date(0) });
+        }
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return files;
+  }
+
+  protected async openFile(key: string, offset: number): Promise<ArtifactStream> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Range: offset > 0 ? `bytes=${offset}-` : undefined
+      }));
+      const resumed = offset > 0 && Boolean(response.ContentRange);
+      const rangeTotal = /\/(\d+)$/.exec(response.ContentRange || '')?.[1];
+      return {
+        stream: response.Body as Readable,
+        resumed,
+        totalBytes: rangeTotal
+          ? parseInt(rangeTotal)
+          : response.ContentLength === undefined ? null : (resumed ? offset : 0) + response.ContentLength
+      };
+    } catch (error: any) {
+      // 416: everything from the offset on is already on disk
+      if (error.$metadata?.httpStatusCode === 416) {
+        return { stream: null, resumed: true, totalBytes: null };
+      }
+      throw error;
+    }
+  }
+}
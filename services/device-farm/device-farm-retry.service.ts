@@ -0,0 +1,134 @@
+import { Device, TestType } from '@aws-sdk/client-device-farm';
+import { DeviceFarmBackend, DeviceFarmSchedule, DeviceRunFailure, DeviceRunSummary } from '../../types';
+import {
+  compareAvailability,
+  createDevicePoolForDevices,
+  getDeviceFarmBackend,
+  listAllDevices,
+  resolveDevicePoolDevices
+} from './device-farm.service';
+
+// Job messages Device Farm gives when the device or its host let the run down rather than the tests
+const INFRA_MESSAGE_PATTERNS = [
+  /device (is |was |became )?(unavailable|offline|disconnected|not available|not responding)/i,
+  /lost (connection|contact) (to|with) the device/i,
+  /failed to (install|reboot|prepare|provision|set ?up)/i,
+  /(internal|infrastructure|service) error/i,
+  /timed? ?out waiting for (the )?device/i
+];
+const SETUP_SUITE_PATTERN = /setup/i;
+
+/**
+ * Tell a job that failed because of the device or Device Farm ('infra') from
+ * one whose tests failed ('test'), from its result, its Setup suite, its
+ * message and whether the test spec ever produced output
+ */
+export async function classifyFailure(
+  deviceRun: DeviceRunSummary,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<DeviceRunFailure | null> {
+  if (!deviceRun.jobArn || (deviceRun.result !== 'FAILED' && deviceRun.result !== 'ERRORED')) {
+    return null;
+  }
+
+  const { suites } = await deviceFarm.listSuites({ arn: deviceRun.jobArn });
+  const setup = suites?.find(suite => SETUP_SUITE_PATTERN.test(suite.name || ''));
+  if (setup && (setup.result === 'ERRORED' || setup.result === 'FAILED')) {
+    return { kind: 'infra', reason: setup.message || deviceRun.message || `${setup.name} ${setup.result.toLowerCase()}` };
+  }
+
+  if (deviceRun.message && INFRA_MESSAGE_PATTERNS.some(pattern => pattern.test(deviceRun.message!))) {
+    return { kind: 'infra', reason: deviceRun.message };
+  }
+
+  // An errored job that never ran a test: if the test spec left no output either, it never got to start
+  if (deviceRun.result === 'ERRORED' && !deviceRun.counters?.total) {
+    const { artifacts } = await deviceFarm.listArtifacts({ arn: deviceRun.jobArn, type: 'FILE' });
+    if (!artifacts?.some(artifact => artifact.type === 'TESTSPEC_OUTPUT')) {
+      return { kind: 'infra', reason: deviceRun.message || 'The job errored before the test spec produced any output' };
+    }
+  }
+
+  const failed = deviceRun.counters?.failed || 0;
+  return {
+    kind: 'test',
+    reason: deviceRun.message || (failed > 0 ? `${failed} test(s) failed` : `The tests ${deviceRun.result.toLowerCase()}`)
+  };
+}
+
+function getMajorVersion(osVersion: string | undefined): string {
+  return (osVersion || '').split('.')[0];
+}
+
+/**
+ * The closest device to retry a failed job on, leaving out the devices in
+ * `excludedArns`: the run's device pool comes first, then any available device
+ * of the same platform and form factor, closest OS version first
+ */
+export async function findEquivalentDevice(
+  failed: DeviceRunSummary,
+  platform: string,
+  excludedArns: Set<string>,
+  devicePoolArn?: string,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<Device | null> {
+  const catalog = await listAllDevices([
+    { attribute: 'PLATFORM', operator: 'EQUALS', values: [platform.toUpperCase()] }
+  ], deviceFarm);
+  const failedDevice = catalog.find(device => device.arn === failed.deviceArn);
+  const osVersion = failedDevice?.os || failed.os;
+
+  let poolArns = new Set<string>();
+  if (devicePoolArn) {
+    try {
+      poolArns = new Set((await resolveDevicePoolDevices(devicePoolArn, deviceFarm)).map(device => device.arn || ''));
+    } catch (error) {
+      console.warn(`⚠️ Could not read device pool ${devicePoolArn}, retrying outside it:`, error);
+    }
+  }
+
+  // Lower is closer: being in the pool outweighs the OS version, the exact version outweighs the major one
+  const distance = (device: Device) =>
+    (poolArns.has(device.arn || '') ? 0 : 4)
+    + (device.os === osVersion ? 0 : 2)
+    + (getMajorVersion(device.os) === getMajorVersion(osVersion) ? 0 : 1);
+  const candidates = catalog
+    .filter(device =>
+      !!device.arn
+      && !excludedArns.has(device.arn)
+      && device.availability !== 'TEMPORARY_NOT_AVAILABLE'
+      && (!failedDevice?.formFactor || device.formFactor === failedDevice.formFactor)
+    )
+    .sort((a, b) => distance(a) - distance(b) || compareAvailability(a, b) || (a.name || '').localeCompare(b.name || ''));
+
+  return candidates[0] || null;
+}
+
+/**
+ * Schedule a failed job again on another device, with the same app, test
+ * package and test spec (so a shard keeps its spec files). Returns the new run's ARN.
+ */
+export async function scheduleRetry(
+  schedule: DeviceFarmSchedule,
+  failed: DeviceRunSummary,
+  device: Device,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<string> {
+  const attempt = (failed.attempt || 1) + 1;
+  const { run } = await deviceFarm.scheduleRun({
+    projectArn: schedule.projectArn,
+    appArn: schedule.appArn,
+    devicePoolArn: await createDevicePoolForDevices(schedule.projectArn, [device.arn!], deviceFarm),
+    name: `${schedule.name} (retry ${attempt - 1} on ${device.name})`,
+    test: {
+      type: schedule.testType as TestType,
+      testPackageArn: schedule.testPackageArn,
+      testSpecArn: failed.testSpecArn
+    }
+  });
+
+  if (!run?.arn) {
+    throw new Error('Failed to schedule the retry run');
+  }
+  return run.arn;
+}
@@ -0,0 +1,257 @@
+import { Job, Run } from '@aws-sdk/client-device-farm';
+import { DeviceFarmBackend, DeviceMinutes, DeviceRunSummary, HistoryEntry, RunRecord, WeightedSpec } from '../../types';
+import { getAwsConfig } from '../aws/aws.service';
+import { getDeviceFarmBackend } from './device-farm.service';
+import { classifyFailure, findEquivalentDevice, scheduleRetry } from './device-farm-retry.service';
+import { addDeviceMinutes, describeUsage, toDeviceMinutes } from './device-farm-usage.service';
+
+// Worst first: a run on several devices takes the worst of their results
+const RESULT_SEVERITY = ['ERRORED', 'FAILED', 'STOPPED', 'WARNED', 'SKIPPED', 'PASSED'];
+
+// Failed jobs being classified or retried, so overlapping refreshes don't retry the same job twice
+const globalForRetries = globalThis as unknown as {
+  deviceFarmRetriesInFlight: Set<string> | undefined;
+};
+const retriesInFlight = globalForRetries.deviceFarmRetriesInFlight ??= new Set<string>();
+
+/**
+ * Split spec files into at most `shardCount` shards of similar total weight,
+ * handing the heaviest remaining spec to the lightest shard. Empty shards are
+ * dropped, so there may be fewer shards than asked for.
+ */
+export function shardSpecs(specs: WeightedSpec[], shardCount: number): string[][] {
+  const shards = Array.from({ length: Math.max(1, shardCount) }, () => ({ specs: [] as string[], weight: 0 }));
+  const sorted = [...specs].sort((a, b) => b.weight - a.weight || a.path.localeCompare(b.path));
+
+  for (const spec of sorted) {
+    const lightest = shards.reduce((min, shard) => shard.weight < min.weight ? shard : min);
+    lightest.specs.push(spec.path);
+    lightest.weight += spec.weight;
+  }
+
+  return shards.filter(shard => shard.specs.length > 0).map(shard => shard.specs.sort());
+}
+
+/**
+ * Fold a Device Farm job's latest state into its device's summary
+ */
+export function applyJob(deviceRun: DeviceRunSummary, job: Job): DeviceRunSummary {
+  return {
+    ...deviceRun,
+    deviceName: job.device?.name || deviceRun.deviceName,
+    os: job.device?.os || deviceRun.os,
+    jobArn: job.arn || deviceRun.jobArn,
+    status: job.status || deviceRun.status,
+    result: job.result && job.result !== 'PENDING' ? job.result : deviceRun.result,
+    message: job.message || deviceRun.message,
+    counters: job.counters ? {
+      passed: job.counters.passed || 0,
+      failed: job.counters.failed || 0,
+      broken: 0,
+      skipped: job.counters.skipped || 0,
+      total: job.counters.total || 0
+    } : deviceRun.counters,
+    deviceMinutes: toDeviceMinutes(job.deviceMinutes) || deviceRun.deviceMinutes,
+    started: job.started?.toISOString() || deviceRun.started,
+    stopped: job.stopped?.toISOString() || deviceRun.stopped
+  };
+}
+
+/**
+ * One summary per job of a freshly scheduled run
+ */
+export async function listDeviceRuns(
+  runArn: string,
+  specs?: string[],
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<DeviceRunSummary[]> {
+  const { jobs } = await deviceFarm.listJobs({ arn: runArn });
+  return (jobs || []).map(job => applyJob({
+    deviceArn: job.device?.arn || '',
+    deviceName: job.device?.name || 'Unknown device',
+    runArn,
+    specs,
+    status: job.status || 'SCHEDULING'
+  }, job));
+}
+
+/**
+ * Re-read the jobs behind each device's summary, one ListJobs per Device Farm run
+ */
+export async function refreshDeviceRuns(
+  deviceRuns: DeviceRunSummary[],
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<DeviceRunSummary[]> {
+  const jobsByRun = new Map<string, Job[]>();
+  for (const runArn of new Set(deviceRuns.map(deviceRun => deviceRun.runArn))) {
+    const { jobs } = await deviceFarm.listJobs({ arn: runArn });
+    jobsByRun.set(runArn, jobs || []);
+  }
+
+  return deviceRuns.map(deviceRun => {
+    const job = jobsByRun.get(deviceRun.runArn)?.find(candidate =>
+      deviceRun.jobArn ? candidate.arn === deviceRun.jobArn : candidate.device?.arn === deviceRun.deviceArn
+    );
+    return job ? applyJob(deviceRun, job) : deviceRun;
+  });
+}
+
+/**
+ * Classify the jobs that finished failed or errored, and re-schedule those
+ * that failed for infrastructure reasons on an equivalent device, up to
+ * `maxRetries` times per job. The retry joins the entry's device runs; the
+ * failed one stays, linked to it, for the history.
+ */
+export async function retryInfraFailures(
+  entry: RunRecord,
+  deviceRuns: DeviceRunSummary[],
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend(),
+  maxRetries: number = getAwsConfig().deviceFarm.maxInfraRetries
+): Promise<DeviceRunSummary[]> {
+  const updated = [...deviceRuns];
+
+  for (const [index, deviceRun] of deviceRuns.entries()) {
+    if (deviceRun.status !== 'COMPLETED' || deviceRun.failure || deviceRun.retriedBy
+      || !deviceRun.jobArn || retriesInFlight.has(deviceRun.jobArn)) {
+      continue;
+    }
+
+    retriesInFlight.add(deviceRun.jobArn);
+    try {
+      const failure = await classifyFailure(deviceRun, deviceFarm);
+      if (!failure) {
+        continue;
+      }
+      updated[index] = { ...updated[index], failure };
+      const attempt = deviceRun.attempt || 1;
+      if (failure.kind !== 'infra' || !entry.deviceFarmSchedule || !entry.platform || attempt > maxRetries) {
+        continue;
+      }
+
+      // Every device this entry already ran on is left out, so a retry never lands on one that failed
+      const device = await findEquivalentDevice(
+        deviceRun,
+        entry.platform,
+        new Set(updated.map(run => run.deviceArn)),
+        entry.deviceFarmSchedule.devicePoolArn,
+        deviceFarm
+      );
+      if (!device) {
+        console.warn(`⚠️ No equivalent device to retry ${deviceRun.deviceName} on (${failure.reason})`);
+        continue;
+      }
+
+      console.log(`🔁 Retrying ${deviceRun.deviceName} on ${device.name} after an infrastructure failure: ${failure.reason}`);
+      const runArn = await scheduleRetry(entry.deviceFarmSchedule, deviceRun, device, deviceFarm);
+      const retries = await listDeviceRuns(runArn, deviceRun.specs, deviceFarm);
+      updated[index] = { ...updated[index], retriedBy: runArn };
+      updated.push(...retries.map(retry => ({
+        ...retry,
+        testSpecArn: deviceRun.testSpecArn,
+        attempt: attempt + 1,
+        retryOf: deviceRun.jobArn
+      })));
+    } catch (error) {
+      console.error(`Failed to retry ${deviceRun.deviceName}:`, error);
+    } finally {
+      retriesInFlight.delete(deviceRun.jobArn);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Bring a multi-device history entry up to date: refresh its jobs, retry
+ * the ones that failed for infrastructure reasons, and summarize
+ */
+export async function refreshRunEntry(
+  entry: RunRecord,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<Partial<HistoryEntry>> {
+  const deviceRuns = await refreshDeviceRuns(entry.deviceRuns || [], deviceFarm);
+  return summarizeDeviceRuns(await retryInfraFailures(entry, deviceRuns, deviceFarm));
+}
+
+/**
+ * The history entry fields a multi-device run reports: complete once every
+ * device is, with the worst result and the counters and device minutes added up.
+ * Jobs that were retried count only towards the device minutes.
+ */
+export function summarizeDeviceRuns(deviceRuns: DeviceRunSummary[]): Partial<HistoryEntry> {
+  const current = deviceRuns.filter(deviceRun => !deviceRun.retriedBy);
+  const completed = current.every(deviceRun => deviceRun.status === 'COMPLETED');
+  const started = deviceRuns.map(deviceRun => deviceRun.started).filter((time): time is string => !!time).sort();
+  const stopped = deviceRuns.map(deviceRun => deviceRun.stopped).filter((time): time is string => !!time).sort();
+
+  const summary: Partial<HistoryEntry> = {
+    status: completed
+      ? 'COMPLETED'
+      : deviceRuns.some(deviceRun => deviceRun.status === 'RUNNING' || deviceRun.status === 'COMPLETED')
+        ? 'RUNNING'
+        : current[0]?.status || 'SCHEDULING',
+    counters: current.reduce((total, { counters }) => ({
+      passed: total.passed + (counters?.passed || 0),
+      failed: total.failed + (counters?.failed || 0),
+      broken: total.broken + (counters?.broken || 0),
+      skipped: total.skipped + (counters?.skipped || 0),
+      total: total.total + (counters?.total || 0)
+    }), { passed: 0, failed: 0, broken: 0, skipped: 0, total: 0 }),
+    hasAllureReport: completed,
+    deviceRuns,
+    retries: deviceRuns.filter(deviceRun => deviceRun.retryOf).length,
+    ...describeUsage(deviceRuns.reduce<DeviceMinutes | undefined>(
+      (total, deviceRun) => addDeviceMinutes(total, deviceRun.deviceMinutes),
+      undefined
+    ))
+  };
+
+  if (completed) {
+    const results = current.map(deviceRun => deviceRun.result || 'PASSED');
+    summary.result = RESULT_SEVERITY.find(result => results.includes(result)) || results[0];
+    summary.stopped = stopped[stopped.length - 1];
+    if (started.length > 0 && summary.stopped) {
+      summary.duration = Math.round((new Date(summary.stopped).getTime() - new Date(started[0]).getTime()) / 1000);
+    }
+  }
+  return summary;
+}
+
+/**
+ * The history entry fields a single-device Device Farm run reports
+ */
+export function summarizeRun(run: Run): Partial<HistoryEntry> {
+  const completed = run.status === 'COMPLETED';
+  let duration = 0;
+  if (run.started && run.stopped) {
+    duration = Math.round((new Date(run.stopped).getTime() - new Date(run.started).getTime()) / 1000);
+  }
+
+  return {
+    status: run.status || 'UNKNOWN',
+    result: run.result && run.result !== 'PENDING' ? run.result : (completed ? 'PASSED' : undefined),
+    duration: completed ? duration : undefined,
+    ...(run.counters && {
+      counters: {
+        passed: run.counters.passed || 0,
+        failed: run.counters.failed || 0,
+        broken: 0,
+        skipped: run.counters.skipped || 0,
+        total: run.counters.total || 0
+      }
+    }),
+    // Device Farm tests generate Allure reports
+    hasAllureReport: completed,
+    stopped: run.stopped?.toISOString(),
+    ...describeUsage(toDeviceMinutes(run.deviceMinutes))
+  };
+}
+
+/**
+ * The id a run's or job's Allure report is cached under in S3. A job's id keeps
+ * its run id in front, as job ids alone (00000, 00001...) repeat across runs.
+ */
+export function getReportId(arn: string): string {
+  const [, ...ids] = (arn.split(':').pop() || '').split('/');
+  return ids.join('-') || 'unknown';
+}
@@ -0,0 +1,144 @@
+import { DeviceMinutes as SdkDeviceMinutes } from '@aws-sdk/client-device-farm';
+import os from 'os';
+import {
+  DeviceFarmBudgetConfig,
+  DeviceFarmBudgetStatus,
+  DeviceFarmUsageReport,
+  DeviceFarmUsageTotals,
+  DeviceMinutes,
+  HistoryEntry,
+  RunRecord
+} from '../../types';
+import { getAwsConfig } from '../aws/aws.service';
+import { getRunStore } from '../run-store/run-store.service';
+
+// Share of the monthly budget after which the UI starts warning
+const BUDGET_WARNING_RATIO = 0.8;
+const UNKNOWN = 'unknown';
+
+function emptyTotals(): DeviceFarmUsageTotals {
+  return { runs: 0, minutes: 0, meteredMinutes: 0, estimatedCost: 0 };
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 100) / 100;
+}
+
+/**
+ * Device minutes from a Device Farm run or job, once it has reported them
+ */
+export function toDeviceMinutes(deviceMinutes: SdkDeviceMinutes | undefined): DeviceMinutes | undefined {
+  if (!deviceMinutes) {
+    return undefined;
+  }
+  return {
+    total: deviceMinutes.total || 0,
+    metered: deviceMinutes.metered || 0,
+    unmetered: deviceMinutes.unmetered || 0
+  };
+}
+
+export function addDeviceMinutes(a: DeviceMinutes | undefined, b: DeviceMinutes | undefined): DeviceMinutes | undefined {
+  if (!a || !b) {
+    return a || b;
+  }
+  return {
+    total: a.total + b.total,
+    metered: a.metered + b.metered,
+    unmetered: a.unmetered + b.unmetered
+  };
+}
+
+/**
+ * The history entry fields recording a run's device minutes and what they
+ * cost. Only metered minutes are charged; unmetered ones are prepaid slots.
+ */
+export function describeUsage(
+  deviceMinutes: DeviceMinutes | undefined,
+  budget: DeviceFarmBudgetConfig = getAwsConfig().deviceFarm.budget
+): Pick<HistoryEntry, 'deviceMinutes' | 'estimatedCost'> {
+  if (!deviceMinutes) {
+    return {};
+  }
+  return {
+    deviceMinutes,
+    estimatedCost: roundCost(deviceMinutes.metered * budget.costPerMinute)
+  };
+}
+
+/**
+ * Who started a run: an explicit name from the caller, the user an auth proxy
+ * signed in, or else the account the runner is running under
+ */
+export function getRunRequester(request: Request, triggeredBy?: unknown): string {
+  if (typeof triggeredBy === 'string' && triggeredBy.trim()) {
+    return triggeredBy.trim();
+  }
+  const forwarded = request.headers.get('x-forwarded-user');
+  if (forwarded) {
+    return forwarded;
+  }
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || UNKNOWN;
+  }
+}
+
+// Calendar months in UTC, as "YYYY-MM"
+function getMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function addRun(totals: DeviceFarmUsageTotals, run: RunRecord) {
+  totals.runs++;
+  totals.minutes += run.deviceMinutes?.total || 0;
+  totals.meteredMinutes += run.deviceMinutes?.metered || 0;
+  totals.estimatedCost = roundCost(totals.estimatedCost + (run.estimatedCost || 0));
+}
+
+export function getBudgetStatus(spent: number, budget: DeviceFarmBudgetConfig): DeviceFarmBudgetStatus | null {
+  if (budget.monthlyLimit === null) {
+    return null;
+  }
+  const limit = budget.monthlyLimit;
+  const exceeded = spent >= limit;
+  return {
+    limit,
+    spent,
+    remaining: roundCost(Math.max(0, limit - spent)),
+    percentUsed: limit > 0 ? Math.round((spent / limit) * 100) : 100,
+    warning: exceeded || spent >= limit * BUDGET_WARNING_RATIO,
+    exceeded,
+    blocksRuns: budget.blockWhenExceeded
+  };
+}
+
+/**
+ * Minutes and estimated cost of the Device Farm runs created in a month,
+ * in total and per user and branch, against the monthly budget
+ */
+export function getMonthlyUsage(
+  month: string = getMonth(new Date()),
+  budget: DeviceFarmBudgetConfig = getAwsConfig().deviceFarm.budget
+): DeviceFarmUsageReport {
+  const runs = getRunStore().listRuns({ isDeviceFarm: true })
+    .filter(run => !!run.created && getMonth(new Date(run.created)) === month);
+
+  const totals = emptyTotals();
+  const byUser: Record<string, DeviceFarmUsageTotals> = {};
+  const byBranch: Record<string, DeviceFarmUsageTotals> = {};
+  for (const run of runs) {
+    addRun(totals, run);
+    addRun(byUser[run.triggeredBy || UNKNOWN] ??= emptyTotals(), run);
+    addRun(byBranch[run.branch || UNKNOWN] ??= emptyTotals(), run);
+  }
+
+  return {
+    month,
+    totals,
+    byUser,
+    byBranch,
+    budget: getBudgetStatus(totals.estimatedCost, budget)
+  };
+}
@@ -0,0 +1,221 @@
+import {
+  CreateDevicePoolCommand,
+  CreateDevicePoolRequest,
+  CreateUploadCommand,
+  CreateUploadRequest,
+  Device,
+  DeviceFarmClient,
+  DeviceFilter,
+  GetDevicePoolCommand,
+  GetDevicePoolRequest,
+  GetRunCommand,
+  GetRunRequest,
+  GetUploadCommand,
+  GetUploadRequest,
+  ListArtifactsCommand,
+  ListArtifactsRequest,
+  ListDevicesCommand,
+  ListDevicesRequest,
+  ListJobsCommand,
+  ListJobsRequest,
+  ListProjectsCommand,
+  ListProjectsRequest,
+  ListRunsCommand,
+  ListRunsRequest,
+  ListSuitesCommand,
+  ListSuitesRequest,
+  ListUploadsCommand,
+  ListUploadsRequest,
+  ScheduleRunCommand,
+  ScheduleRunRequest,
+  Upload
+} from '@aws-sdk/client-device-farm';
+import { DeviceFarmBackend } from '../../types';
+import { AwsConfigError, getAwsConfig, getDeviceFarmClient } from '../aws/aws.service';
+import { LocalDeviceFarm, parseRuleValue } from './local-device-farm.service';
+
+/**
+ * The real AWS Device Farm, through the shared SDK client
+ */
+export class AwsDeviceFarm implements DeviceFarmBackend {
+  readonly kind = 'aws';
+
+  constructor(private client: DeviceFarmClient = getDeviceFarmClient()) {}
+
+  listProjects(input: ListProjectsRequest) {
+    return this.client.send(new ListProjectsCommand(input));
+  }
+
+  listDevices(input: ListDevicesRequest) {
+    return this.client.send(new ListDevicesCommand(input));
+  }
+
+  createDevicePool(input: CreateDevicePoolRequest) {
+    return this.client.send(new CreateDevicePoolCommand(input));
+  }
+
+  getDevicePool(input: GetDevicePoolRequest) {
+    return this.client.send(new GetDevicePoolCommand(input));
+  }
+
+  listUploads(input: ListUploadsRequest) {
+    return this.client.send(new ListUploadsCommand(input));
+  }
+
+  createUpload(input: CreateUploadRequest) {
+    return this.client.send(new CreateUploadCommand(input));
+  }
+
+  getUpload(input: GetUploadRequest) {
+    return this.client.send(new GetUploadCommand(input));
+  }
+
+  async sendUploadContent(upload: Upload, content: Buffer): Promise<void> {
+    if (!upload.url) {
+      throw new Error(`Upload ${upload.arn} has no URL to send its file to`);
+    }
+
+    const response = await fetch(upload.url, {
+      method: 'PUT',
+      // The global fetch's body types don't include Buffer
+      body: new Uint8Array(content),
+      headers: {
+        'Content-Type': 'application/octet-stream'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload file: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  scheduleRun(input: ScheduleRunRequest) {
+    return this.client.send(new ScheduleRunCommand(input));
+  }
+
+  getRun(input: GetRunRequest) {
+    return this.client.send(new GetRunCommand(input));
+  }
+
+  listRuns(input: ListRunsRequest) {
+    return this.client.send(new ListRunsCommand(input));
+  }
+
+  listJobs(input: ListJobsRequest) {
+    return this.client.send(new ListJobsCommand(input));
+  }
+
+  listSuites(input: ListSuitesRequest) {
+    return this.client.send(new ListSuitesCommand(input));
+  }
+
+  listArtifacts(input: ListArtifactsRequest) {
+    return this.client.send(new ListArtifactsCommand(input));
+  }
+
+  async downloadArtifact(url: string): Promise<Buffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download artifact: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+// Most available first
+const AVAILABILITY_RANK = ['HIGHLY_AVAILABLE', 'AVAILABLE', 'BUSY', 'TEMPORARY_NOT_AVAILABLE'];
+
+/**
+ * Sort order putting the devices most likely to start a job soon first
+ */
+export function compareAvailability(a: Device, b: Device): number {
+  const rank = (device: Device) => {
+    const index = AVAILABILITY_RANK.indexOf(device.availability || '');
+    return index === -1 ? AVAILABILITY_RANK.length : index;
+  };
+  return rank(a) - rank(b);
+}
+
+const globalForDeviceFarm = globalThis as unknown as { deviceFarmBackend?: DeviceFarmBackend };
+
+/**
+ * The Device Farm backend picked by DEVICE_FARM_BACKEND (aws unless set to local)
+ */
+export function getDeviceFarmBackend(): DeviceFarmBackend {
+  if (!globalForDeviceFarm.deviceFarmBackend) {
+    const { backend, projectArn } = getAwsConfig().deviceFarm;
+    if (backend === 'local') {
+      if (!projectArn) {
+        throw new AwsConfigError(['DEVICE_FARM_PROJECT_ARN is required for the local Device Farm backend']);
+      }
+      globalForDeviceFarm.deviceFarmBackend = new LocalDeviceFarm({}, projectArn);
+    } else {
+      globalForDeviceFarm.deviceFarmBackend = new AwsDeviceFarm();
+    }
+    console.log(`📱 Using ${backend === 'local' ? 'local' : 'AWS'} Device Farm backend`);
+  }
+  return globalForDeviceFarm.deviceFarmBackend;
+}
+
+/**
+ * A pool of exactly these devices, for multi-device runs, shards and retries
+ */
+export async function createDevicePoolForDevices(
+  projectArn: string,
+  deviceArns: string[],
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<string> {
+  const { devicePool } = await deviceFarm.createDevicePool({
+    projectArn,
+    name: `${deviceArns.length === 1 ? 'Single' : 'Multi'}-Device-${Date.now()}`,
+    description: `Device pool for ${deviceArns.length} device(s)`,
+    rules: [
+      {
+        attribute: 'ARN',
+        operator: 'IN',
+        value: JSON.stringify(deviceArns)
+      }
+    ]
+  });
+
+  if (!devicePool?.arn) {
+    throw new Error('Failed to create device pool');
+  }
+  return devicePool.arn;
+}
+
+/**
+ * The devices a device pool's rules select today, found with ListDevices
+ */
+export async function resolveDevicePoolDevices(
+  devicePoolArn: string,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<Device[]> {
+  const { devicePool } = await deviceFarm.getDevicePool({ arn: devicePoolArn });
+  const filters: DeviceFilter[] = (devicePool?.rules || []).map(rule => ({
+    attribute: rule.attribute as DeviceFilter['attribute'],
+    operator: rule.operator as DeviceFilter['operator'],
+    values: parseRuleValue(rule.value)
+  }));
+
+  const devices = await listAllDevices(filters, deviceFarm);
+  return devicePool?.maxDevices ? devices.slice(0, devicePool.maxDevices) : devices;
+}
+
+/**
+ * Every device matching the filters, following ListDevices pagination
+ */
+export async function listAllDevices(
+  filters: DeviceFilter[],
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<Device[]> {
+  let devices: Device[] = [];
+  let nextToken: string | undefined;
+  do {
+    const response = await deviceFarm.listDevices({ filters, nextToken });
+    devices = [...devices, ...(response.devices || [])];
+    nextToken = response.nextToken;
+  } while (nextToken);
+
+  return devices;
+}
@@ -0,0 +1,558 @@
+import {
+  ArgumentException,
+  Artifact,
+  ArtifactType,
+  Counters,
+  CreateDevicePoolRequest,
+  CreateDevicePoolResult,
+  CreateUploadRequest,
+  CreateUploadResult,
+  Device,
+  DeviceAvailability,
+  DeviceFormFactor,
+  DevicePlatform,
+  DevicePool,
+  ExecutionResult,
+  ExecutionStatus,
+  GetDevicePoolRequest,
+  GetDevicePoolResult,
+  GetRunRequest,
+  GetRunResult,
+  GetUploadRequest,
+  GetUploadResult,
+  Job,
+  ListArtifactsRequest,
+  ListArtifactsResult,
+  ListDevicesRequest,
+  ListDevicesResult,
+  ListJobsRequest,
+  ListJobsResult,
+  ListProjectsResult,
+  ListRunsRequest,
+  ListRunsResult,
+  ListSuitesRequest,
+  ListSuitesResult,
+  ListUploadsRequest,
+  ListUploadsResult,
+  NotFoundException,
+  Run,
+  ScheduleRunRequest,
+  ScheduleRunResult,
+  Suite,
+  Upload,
+  UploadStatus
+} from '@aws-sdk/client-device-farm';
+import crypto from 'crypto';
+import { DeviceFarmBackend, LocalDeviceFarmConfig } from '../../types';
+
+// name, manufacturer, model, platform, os, form factor, availability, width x height
+const DEVICE_CATALOG: [string, string, string, DevicePlatform, string, DeviceFormFactor, DeviceAvailability, number, number][] = [
+  ['Google Pixel 8', 'Google', 'Pixel 8', 'ANDROID', '14', 'PHONE', 'HIGHLY_AVAILABLE', 1080, 2400],
+  ['Samsung Galaxy S23', 'Samsung', 'Galaxy S23', 'ANDROID', '13', 'PHONE', 'AVAILABLE', 1080, 2340],
+  ['Samsung Galaxy Tab S8', 'Samsung', 'Galaxy Tab S8', 'ANDROID', '12', 'TABLET', 'AVAILABLE', 1600, 2560],
+  ['OnePlus 9', 'OnePlus', 'OnePlus 9', 'ANDROID', '11', 'PHONE', 'BUSY', 1080, 2400],
+  ['Apple iPhone 15', 'Apple', 'iPhone 15', 'IOS', '17.0', 'PHONE', 'HIGHLY_AVAILABLE', 1179, 2556],
+  ['Apple iPhone 13', 'Apple', 'iPhone 13', 'IOS', '16.1', 'PHONE', 'AVAILABLE', 1170, 2532],
+  ['Apple iPhone SE (3rd generation)', 'Apple', 'iPhone SE', 'IOS', '15.4', 'PHONE', 'AVAILABLE', 750, 1334],
+  ['Apple iPad Air (5th generation)', 'Apple', 'iPad Air', 'IOS', '16.1', 'TABLET', 'TEMPORARY_NOT_AVAILABLE', 1640, 2360]
+];
+
+const LOCAL_PROJECT_ARN = 'arn:aws:devicefarm:us-west-2:000000000000:project:local';
+
+interface LocalUpload {
+  upload: Upload;
+  // When the file arrived; the upload stays INITIALIZED until then
+  receivedAt?: number;
+}
+
+interface LocalRun {
+  run: Run;
+  devices: Device[];
+  scheduledAt: number;
+}
+
+interface LocalArtifactFile {
+  artifact: Artifact;
+  contentType: string;
+  body: string;
+}
+
+function notFound(message: string): NotFoundException {
+  return new NotFoundException({ message, $metadata: {} });
+}
+
+function invalidArgument(message: string): ArgumentException {
+  return new ArgumentException({ message, $metadata: {} });
+}
+
+function getDeviceAttribute(device: Device, attribute: string): string | undefined {
+  switch (attribute) {
+    case 'ARN': return device.arn;
+    case 'PLATFORM': return device.platform;
+    case 'FORM_FACTOR': return device.formFactor;
+    case 'MANUFACTURER': return device.manufacturer;
+    case 'MODEL': return device.model;
+    case 'OS_VERSION': return device.os;
+    case 'AVAILABILITY': return device.availability;
+    case 'REMOTE_ACCESS_ENABLED': return String(device.remoteAccessEnabled ?? false);
+    default: return undefined;
+  }
+}
+
+/**
+ * Apply one ListDevices filter or device pool rule the way Device Farm does
+ */
+function matchesDevice(device: Device, attribute: string | undefined, operator: string | undefined, values: string[]): boolean {
+  const actual = attribute ? getDeviceAttribute(device, attribute) : undefined;
+  if (actual === undefined) return false;
+
+  const compare = (expected: string) => actual.localeCompare(expected, undefined, { numeric: true });
+  switch (operator) {
+    case 'EQUALS': return actual === values[0];
+    case 'IN': return values.includes(actual);
+    case 'NOT_IN': return !values.includes(actual);
+    case 'CONTAINS': return actual.includes(values[0]);
+    case 'GREATER_THAN': return compare(values[0]) > 0;
+    case 'GREATER_THAN_OR_EQUALS': return compare(values[0]) >= 0;
+    case 'LESS_THAN': return compare(values[0]) < 0;
+    case 'LESS_THAN_OR_EQUALS': return compare(values[0]) <= 0;
+    default: return false;
+  }
+}
+
+// Pool rule values are JSON, e.g. '["arn:..."]' for IN or '"ANDROID"' for EQUALS
+export function parseRuleValue(value: string | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+  } catch {
+    return [value];
+  }
+}
+
+/**
+ * In-memory stand-in for Device Farm, for working on the runner without an AWS
+ * account. Uploads and runs move through the real status sequences on a timer
+ * (statuses are worked out from elapsed time whenever they are read), and
+ * finished jobs get generated artifacts served by /api/device-farm/local/artifacts.
+ */
+export class LocalDeviceFarm implements DeviceFarmBackend {
+  readonly kind = 'local';
+  private config: LocalDeviceFarmConfig;
+  private arnPrefix: string;
+  private projectId: string;
+  private devices: Device[];
+  private devicePools = new Map<string, DevicePool>();
+  private uploads = new Map<string, LocalUpload>();
+  private runs = new Map<string, LocalRun>();
+  private artifacts = new Map<string, LocalArtifactFile>();
+
+  constructor(config: Partial<LocalDeviceFarmConfig> = {}, private projectArn: string = LOCAL_PROJECT_ARN) {
+    const runMs = parseInt(process.env.LOCAL_DEVICE_FARM_RUN_MS || '') || 60000;
+    this.config = {
+      uploadProcessingMs: parseInt(process.env.LOCAL_DEVICE_FARM_UPLOAD_MS || '') || 2000,
+      schedulingMs: Math.round(runMs * 0.1),
+      preparingMs: Math.round(runMs * 0.2),
+      runningMs: Math.round(runMs * 0.7),
+      result: (process.env.LOCAL_DEVICE_FARM_RESULT as ExecutionResult) || 'PASSED',
+      testsPerJob: parseInt(process.env.LOCAL_DEVICE_FARM_TESTS || '') || 5,
+      unreliableDevices: (process.env.LOCAL_DEVICE_FARM_FAILING_DEVICES || '').split(',').map(name => name.trim()).filter(Boolean),
+      baseUrl: process.env.LOCAL_DEVICE_FARM_URL || `http://localhost:${process.env.PORT || 3000}`,
+      now: () => Date.now(),
+      ...config
+    };
+
+    // arn:aws:devicefarm:<region>:<account>:project:<id>
+    const parts = projectArn.split(':');
+    this.arnPrefix = parts.slice(0, 5).join(':');
+    this.projectId = parts[6] || 'local';
+
+    this.devices = DEVICE_CATALOG.map(([name, manufacturer, model, platform, os, formFactor, availability, width, height]) => ({
+      arn: `arn:aws:devicefarm:${parts[3]}::device:${crypto.createHash('md5').update(name).digest('hex').toUpperCase()}`,
+      name,
+      manufacturer,
+      model,
+      modelId: model,
+      platform,
+      os,
+      formFactor,
+      availability,
+      resolution: { width, height },
+      cpu: { frequency: 'MHz', architecture: 'arm64', clock: 2400 },
+      heapSize: 0,
+      memory: 128000000000,
+      fleetType: 'PUBLIC',
+      remoteAccessEnabled: false
+    }));
+  }
+
+  private newArn(resource: string, ...path: string[]): string {
+    return `${this.arnPrefix}:${resource}:${[this.projectId, ...path].join('/')}`;
+  }
+
+  private now(): Date {
+    return new Date(this.config.now());
+  }
+
+  async listProjects(): Promise<ListProjectsResult> {
+    return {
+      projects: [{ arn: this.projectArn, name: 'Local Device Farm', created: new Date(0) }]
+    };
+  }
+
+  async listDevices(input: ListDevicesRequest): Promise<ListDevicesResult> {
+    const devices = this.devices.filter(device =>
+      (input.filters || []).every(filter => matchesDevice(device, filter.attribute, filter.operator, filter.values || []))
+    );
+    return { devices };
+  }
+
+  async createDevicePool(input: CreateDevicePoolRequest): Promise<CreateDevicePoolResult> {
+    const devicePool: DevicePool = {
+      arn: this.newArn('devicepool', crypto.randomUUID()),
+      name: input.name,
+      description: input.description,
+      type: 'PRIVATE',
+      rules: input.rules,
+      maxDevices: input.maxDevices
+    };
+    this.devicePools.set(devicePool.arn!, devicePool);
+    return { devicePool };
+  }
+
+  async getDevicePool(input: GetDevicePoolRequest): Promise<GetDevicePoolResult> {
+    const devicePool = input.arn ? this.devicePools.get(input.arn) : undefined;
+    if (!devicePool) {
+      throw notFound(`Device pool not found: ${input.arn}`);
+    }
+    return { devicePool };
+  }
+
+  // Everything lives in the one local project, whichever project ARN is asked for
+  async listUploads(input: ListUploadsRequest): Promise<ListUploadsResult> {
+    const uploads = Array.from(this.uploads.values())
+      .filter(({ upload }) => !input.type || upload.type === input.type)
+      .map(entry => this.describeUpload(entry));
+    return { uploads };
+  }
+
+  async createUpload(input: CreateUploadRequest): Promise<CreateUploadResult> {
+    const arn = this.newArn('upload', crypto.randomUUID());
+    const upload: Upload = {
+      arn,
+      name: input.name,
+      type: input.type,
+      contentType: input.contentType || 'application/octet-stream',
+      created: this.now(),
+      category: 'PRIVATE',
+      // Never fetched; sendUploadContent takes the file directly
+      url: `local-device-farm://uploads/${arn.split('/').pop()}`
+    };
+    this.uploads.set(arn, { upload });
+    return { upload: this.describeUpload({ upload }) };
+  }
+
+  async getUpload(input: GetUploadRequest): Promise<GetUploadResult> {
+    const entry = input.arn ? this.uploads.get(input.arn) : undefined;
+    if (!entry) {
+      throw notFound(`Upload not found: ${input.arn}`);
+    }
+    return { upload: this.describeUpload(entry) };
+  }
+
+  async sendUploadContent(upload: Upload, content: Buffer): Promise<void> {
+    const entry = upload.arn ? this.uploads.get(upload.arn) : undefined;
+    if (!entry) {
+      throw notFound(`Upload not found: ${upload.arn}`);
+    }
+    entry.receivedAt = this.config.now();
+    entry.upload.metadata = JSON.stringify({ size: content.length });
+  }
+
+  private describeUpload({ upload, receivedAt }: LocalUpload): Upload {
+    let status: UploadStatus = 'INITIALIZED';
+    if (receivedAt !== undefined) {
+      status = this.config.now() - receivedAt < this.config.uploadProcessingMs ? 'PROCESSING' : 'SUCCEEDED';
+    }
+    return { ...upload, status };
+  }
+
+  private requireUpload(arn: string | undefined, role: string): Upload {
+    const entry = arn ? this.uploads.get(arn) : undefined;
+    const upload = entry && this.describeUpload(entry);
+    if (upload?.status !== 'SUCCEEDED') {
+      throw invalidArgument(`The ${role} upload ${arn} is missing or has not finished processing`);
+    }
+    return upload;
+  }
+
+  /**
+   * Devices a run lands on: the pool's rules for a pool made here, otherwise
+   * (e.g. a curated pool from the real account) the first available device
+   */
+  private resolvePoolDevices(devicePoolArn: string, platform: DevicePlatform): Device[] {
+    const candidates = this.devices.filter(device => device.platform === platform);
+    const pool = this.devicePools.get(devicePoolArn);
+    if (!pool) {
+      const fallback = candidates.find(device => device.availability !== 'TEMPORARY_NOT_AVAILABLE');
+      return fallback ? [fallback] : [];
+    }
+
+    const devices = candidates.filter(device =>
+      (pool.rules || []).every(rule => matchesDevice(device, rule.attribute, rule.operator, parseRuleValue(rule.value)))
+    );
+    return pool.maxDevices ? devices.slice(0, pool.maxDevices) : devices;
+  }
+
+  async scheduleRun(input: ScheduleRunRequest): Promise<ScheduleRunResult> {
+    const app = this.requireUpload(input.appArn, 'app');
+    if (input.test?.testPackageArn) this.requireUpload(input.test.testPackageArn, 'test package');
+    if (input.test?.testSpecArn) this.requireUpload(input.test.testSpecArn, 'test spec');
+
+    const platform: DevicePlatform = app.type === 'IOS_APP' ? 'IOS' : 'ANDROID';
+    const devices = input.devicePoolArn ? this.resolvePoolDevices(input.devicePoolArn, platform) : [];
+    if (devices.length === 0) {
+      throw invalidArgument(`No ${platform} devices match device pool ${input.devicePoolArn}`);
+    }
+
+    const run: Run = {
+      arn: this.newArn('run', crypto.randomUUID()),
+      name: input.name,
+      type: input.test?.type,
+      platform,
+      billingMethod: 'METERED',
+      appUpload: input.appArn,
+      devicePoolArn: input.devicePoolArn,
+      testSpecArn: input.test?.testSpecArn,
+      jobTimeoutMinutes: input.executionConfiguration?.jobTimeoutMinutes ?? 150
+    };
+    const localRun = { run, devices, scheduledAt: this.config.now() };
+    this.runs.set(run.arn!, localRun);
+
+    console.log(`📱 Local Device Farm scheduled ${run.arn} on ${devices.map(device => device.name).join(', ')}`);
+    return { run: this.describeRun(localRun) };
+  }
+
+  private getStatus(scheduledAt: number): ExecutionStatus {
+    const { schedulingMs, preparingMs, runningMs } = this.config;
+    const elapsed = this.config.now() - scheduledAt;
+    if (elapsed < schedulingMs) return 'SCHEDULING';
+    if (elapsed < schedulingMs + preparingMs) return 'PREPARING';
+    if (elapsed < schedulingMs + preparingMs + runningMs) return 'RUNNING';
+    return 'COMPLETED';
+  }
+
+  // Jobs on these devices error out in setup before any test runs
+  private isUnreliable(device: Device): boolean {
+    return this.config.unreliableDevices.includes(device.name || '');
+  }
+
+  private getCounters(completed: boolean, infraError: boolean): Counters {
+    const total = infraError ? 0 : this.config.testsPerJob;
+    const counters = { total, passed: 0, failed: 0, warned: 0, errored: 0, stopped: 0, skipped: 0 };
+    if (!completed || infraError) return counters;
+
+    switch (this.config.result) {
+      case 'FAILED': counters.failed = 1; break;
+      case 'ERRORED': counters.errored = 1; break;
+      case 'WARNED': counters.warned = 1; break;
+      case 'STOPPED': counters.stopped = total; break;
+      case 'SKIPPED': counters.skipped = total; break;
+    }
+    counters.passed = total - counters.failed - counters.errored - counters.warned - counters.stopped - counters.skipped;
+    return counters;
+  }
+
+  private describeJobs({ run, devices, scheduledAt }: LocalRun): Job[] {
+    const status = this.getStatus(scheduledAt);
+    const completed = status === 'COMPLETED';
+    const started = new Date(scheduledAt + this.config.schedulingMs);
+    const stopped = new Date(started.getTime() + this.config.preparingMs + this.config.runningMs);
+    const minutes = Math.round(this.config.runningMs / 600) / 100;
+
+    return devices.map((device, index) => {
+      const infraError = completed && this.isUnreliable(device);
+      return {
+        arn: `${run.arn!.replace(':run:', ':job:')}/${String(index).padStart(5, '0')}`,
+        name: device.name,
+        type: run.type,
+        created: new Date(scheduledAt),
+        status,
+        result: infraError ? 'ERRORED' : completed ? this.config.result : 'PENDING',
+        message: infraError ? 'The device became unavailable during setup (emulated)' : undefined,
+        started: status === 'SCHEDULING' ? undefined : started,
+        stopped: completed ? stopped : undefined,
+        counters: this.getCounters(completed, infraError),
+        device,
+        deviceMinutes: completed ? { total: minutes, metered: minutes, unmetered: 0 } : undefined
+      };
+    });
+  }
+
+  private describeRun(localRun: LocalRun): Run {
+    const jobs = this.describeJobs(localRun);
+    const sum = (pick: (counters: Counters) => number | undefined) =>
+      jobs.reduce((total, job) => total + (pick(job.counters!) || 0), 0);
+    const [job] = jobs;
+    const completed = job.status === 'COMPLETED';
+    const minutes = jobs.reduce((total, { deviceMinutes }) => total + (deviceMinutes?.total || 0), 0);
+    const errored = jobs.find(candidate => candidate.result === 'ERRORED');
+
+    return {
+      ...localRun.run,
+      created: job.created,
+      status: job.status,
+      result: errored ? errored.result : job.result,
+      started: job.started,
+      stopped: job.stopped,
+      totalJobs: jobs.length,
+      completedJobs: completed ? jobs.length : 0,
+      counters: {
+        total: sum(counters => counters.total),
+        passed: sum(counters => counters.passed),
+        failed: sum(counters => counters.failed),
+        warned: sum(counters => counters.warned),
+        errored: sum(counters => counters.errored),
+        stopped: sum(counters => counters.stopped),
+        skipped: sum(counters => counters.skipped)
+      },
+      deviceMinutes: completed ? { total: minutes, metered: minutes, unmetered: 0 } : undefined,
+      message: errored?.message
+        || (completed && this.config.result !== 'PASSED' ? `Emulated ${this.config.result} result` : undefined)
+    };
+  }
+
+  private requireRun(arn: string | undefined): LocalRun {
+    const localRun = arn ? this.runs.get(arn) : undefined;
+    if (!localRun) {
+      throw notFound(`Run not found: ${arn}`);
+    }
+    return localRun;
+  }
+
+  async getRun(input: GetRunRequest): Promise<GetRunResult> {
+    return { run: this.describeRun(this.requireRun(input.arn)) };
+  }
+
+  async listRuns(_input: ListRunsRequest): Promise<ListRunsResult> {
+    const runs = Array.from(this.runs.values())
+      .sort((a, b) => b.scheduledAt - a.scheduledAt)
+      .map(localRun => this.describeRun(localRun));
+    return { runs };
+  }
+
+  async listJobs(input: ListJobsRequest): Promise<ListJobsResult> {
+    return { jobs: this.describeJobs(this.requireRun(input.arn)) };
+  }
+
+  /**
+   * The setup, tests and teardown suites Device Farm reports for a job
+   */
+  async listSuites(input: ListSuitesRequest): Promise<ListSuitesResult> {
+    const runArn = input.arn?.replace(':job:', ':run:').replace(/\/\d{5}$/, '');
+    const job = this.describeJobs(this.requireRun(runArn)).find(candidate => candidate.arn === input.arn);
+    if (!job) {
+      throw notFound(`Job not found: ${input.arn}`);
+    }
+
+    const infraError = job.result === 'ERRORED' && job.counters?.total === 0;
+    const suite = (index: number, name: string, result: ExecutionResult, counters?: Counters): Suite => ({
+      arn: `${job.arn!.replace(':job:', ':suite:')}/${String(index).padStart(5, '0')}`,
+      name,
+      type: job.type,
+      status: job.status,
+      result: job.status === 'COMPLETED' ? result : 'PENDING',
+      counters,
+      message: index === 0 && infraError ? job.message : undefined
+    });
+    return {
+      suites: [
+        suite(0, 'Setup Suite', infraError ? 'ERRORED' : 'PASSED'),
+        suite(1, 'Tests Suite', infraError ? 'SKIPPED' : job.result!, job.counters),
+        suite(2, 'Teardown Suite', 'PASSED')
+      ]
+    };
+  }
+
+  async listArtifacts(input: ListArtifactsRequest): Promise<ListArtifactsResult> {
+    // Accepts a run or one of its jobs, like the real API
+    const runArn = input.arn?.replace(':job:', ':run:').replace(/\/\d{5}$/, '');
+    const localRun = this.requireRun(runArn);
+    const jobs = this.describeJobs(localRun)
+      .filter(job => job.status === 'COMPLETED' && (input.arn === runArn || job.arn === input.arn));
+
+    const artifacts = jobs
+      .flatMap(job => this.getJobArtifacts(job))
+      .filter(file => this.getArtifactCategory(file.artifact.type) === input.type)
+      .map(file => file.artifact);
+    return { artifacts };
+  }
+
+  private getArtifactCategory(type: ArtifactType | undefined): string {
+    if (type === 'DEVICE_LOG') return 'LOG';
+    if (type === 'SCREENSHOT') return 'SCREENSHOT';
+    return 'FILE';
+  }
+
+  /**
+   * The files a finished job leaves behind, shaped like the ones the Device Farm
+   * testspec produces so the report routes find them
+   */
+  private getJobArtifacts(job: Job): LocalArtifactFile[] {
+    const artifactArn = (index: number) => `${job.arn!.replace(':job:', ':artifact:')}/${index}`;
+    // A job whose device failed in setup never got to run the testspec, so it only has a device log
+    const setupFailed = job.result === 'ERRORED' && job.counters?.total === 0;
+    if (this.artifacts.has(artifactArn(3))) {
+      return (setupFailed ? [3] : [0, 1, 2, 3]).map(index => this.artifacts.get(artifactArn(index))!);
+    }
+
+    const file = (index: number, name: string, type: ArtifactType, extension: string, contentType: string, body: string) => {
+      const arn = artifactArn(index);
+      const url = `${this.config.baseUrl}/api/device-farm/local/artifacts?arn=${encodeURIComponent(arn)}`;
+      const artifactFile = { artifact: { arn, name, type, extension, url }, contentType, body };
+      this.artifacts.set(arn, artifactFile);
+      return artifactFile;
+    };
+
+    const deviceLog = () => file(3, 'Device Log', 'DEVICE_LOG', 'txt', 'text/plain', `[local] No device log for emulated job ${job.arn}\n`);
+    if (setupFailed) {
+      return [deviceLog()];
+    }
+
+    const counters = job.counters!;
+    const report = file(0, 'allure-report-complete.html', 'CUSTOMER_ARTIFACT', 'html', 'text/html', [
+      '<!DOCTYPE html>',
+      `<html><head><title>Local Device Farm report</title></head><body>`,
+      `<h1>${job.name}: ${job.result}</h1>`,
+      `<p>${counters.passed} passed, ${counters.failed} failed, ${counters.errored} errored, ${counters.skipped} skipped of ${counters.total}</p>`,
+      '<p>Generated by the local Device Farm backend; no tests were executed.</p>',
+      '</body></html>'
+    ].join('\n'));
+    return [
+      report,
+      // Points at the generated report instead of S3, so no bucket is needed offline
+      file(1, 'report-info.txt', 'CUSTOMER_ARTIFACT', 'txt', 'text/plain', `S3_REPORT_URL=${report.artifact.url}\n`),
+      file(2, 'Test spec output', 'TESTSPEC_OUTPUT', 'txt', 'text/plain',
+        `[local] Emulated run on ${job.name} (${job.device?.os})\n[local] Result: ${job.result}\n`),
+      deviceLog()
+    ];
+  }
+
+  /**
+   * Body and content type of a generated artifact, or null if there is none
+   */
+  getArtifactFile(arn: string): { body: string; contentType: string } | null {
+    const file = this.artifacts.get(arn);
+    return file ? { body: file.body, contentType: file.contentType } : null;
+  }
+
+  async downloadArtifact(url: string): Promise<Buffer> {
+    const arn = new URL(url).searchParams.get('arn');
+    const file = arn ? this.getArtifactFile(arn) : null;
+    if (!file) {
+      throw new Error(`Failed to download artifact: ${url} is not a local Device Farm artifact`);
+    }
+    return Buffer.from(file.body);
+  }
+}
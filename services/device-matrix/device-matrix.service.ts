@@ -0,0 +1,176 @@
+import { Device, DeviceFilter } from '@aws-sdk/client-device-farm';
+import { DeviceFarmBackend, DeviceFarmDevice, DeviceMatrixInput, DeviceMatrixRules } from '../../types';
+import { compareAvailability, getDeviceFarmBackend, listAllDevices } from '../device-farm/device-farm.service';
+
+const PLATFORMS: DeviceMatrixRules['platform'][] = ['ios', 'android'];
+const FORM_FACTORS = ['PHONE', 'TABLET'];
+const OS_VERSION_PATTERN = /^\d+(\.\d+)*$/;
+
+/**
+ * Thrown for an invalid device matrix, listing every problem at once
+ */
+export class DeviceMatrixError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid device matrix:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'DeviceMatrixError';
+  }
+}
+
+function compareOsVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function validateRules(rules: any, problems: string[]): DeviceMatrixRules {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    problems.push('rules must be an object');
+    return { platform: 'android' };
+  }
+
+  if (!PLATFORMS.includes(rules.platform)) {
+    problems.push(`rules.platform must be one of ${PLATFORMS.join(', ')} (got "${rules.platform}")`);
+  }
+  if (rules.formFactor !== undefined && !FORM_FACTORS.includes(rules.formFactor)) {
+    problems.push(`rules.formFactor must be one of ${FORM_FACTORS.join(', ')} (got "${rules.formFactor}")`);
+  }
+  if (rules.manufacturers !== undefined && (!Array.isArray(rules.manufacturers)
+    || rules.manufacturers.some((manufacturer: unknown) => typeof manufacturer !== 'string' || !manufacturer.trim()))) {
+    problems.push('rules.manufacturers must be a list of manufacturer names');
+  }
+  if (rules.nameContains !== undefined && typeof rules.nameContains !== 'string') {
+    problems.push('rules.nameContains must be a string');
+  }
+  if (rules.availableOnly !== undefined && typeof rules.availableOnly !== 'boolean') {
+    problems.push('rules.availableOnly must be true or false');
+  }
+  if (rules.minMaxOsVersions !== undefined && typeof rules.minMaxOsVersions !== 'boolean') {
+    problems.push('rules.minMaxOsVersions must be true or false');
+  }
+
+  for (const key of ['minOsVersion', 'maxOsVersion']) {
+    if (rules[key] !== undefined && (typeof rules[key] !== 'string' || !OS_VERSION_PATTERN.test(rules[key]))) {
+      problems.push(`rules.${key} must be a version such as "14" or "16.4" (got "${rules[key]}")`);
+    }
+  }
+  if (OS_VERSION_PATTERN.test(rules.minOsVersion) && OS_VERSION_PATTERN.test(rules.maxOsVersion)
+    && compareOsVersions(rules.minOsVersion, rules.maxOsVersion) > 0) {
+    problems.push(`rules.minOsVersion (${rules.minOsVersion}) is above rules.maxOsVersion (${rules.maxOsVersion})`);
+  }
+
+  for (const key of ['latestOsVersions', 'devicesPerOsVersion', 'maxDevices']) {
+    if (rules[key] !== undefined && !isPositiveInteger(rules[key])) {
+      problems.push(`rules.${key} must be a whole number above 0 (got ${JSON.stringify(rules[key])})`);
+    }
+  }
+  if (rules.latestOsVersions !== undefined && rules.minMaxOsVersions) {
+    problems.push('rules.latestOsVersions and rules.minMaxOsVersions can\'t be combined');
+  }
+
+  // Keep only the rules we know, so the stored matrix never carries stray fields
+  const validated: DeviceMatrixRules = { platform: rules.platform };
+  if (rules.formFactor !== undefined) validated.formFactor = rules.formFactor;
+  if (rules.manufacturers !== undefined) validated.manufacturers = rules.manufacturers.map((manufacturer: string) => manufacturer.trim());
+  if (rules.nameContains) validated.nameContains = rules.nameContains.trim();
+  if (rules.availableOnly !== undefined) validated.availableOnly = rules.availableOnly;
+  if (rules.minOsVersion !== undefined) validated.minOsVersion = rules.minOsVersion;
+  if (rules.maxOsVersion !== undefined) validated.maxOsVersion = rules.maxOsVersion;
+  if (rules.latestOsVersions !== undefined) validated.latestOsVersions = rules.latestOsVersions;
+  if (rules.minMaxOsVersions !== undefined) validated.minMaxOsVersions = rules.minMaxOsVersions;
+  if (rules.devicesPerOsVersion !== undefined) validated.devicesPerOsVersion = rules.devicesPerOsVersion;
+  if (rules.maxDevices !== undefined) validated.maxDevices = rules.maxDevices;
+  return validated;
+}
+
+/**
+ * Check a device matrix sent to the API and return just its known fields
+ */
+export function validateDeviceMatrix(input: any): DeviceMatrixInput {
+  const problems: string[] = [];
+  if (!input || typeof input !== 'object') {
+    throw new DeviceMatrixError(['the request body must be a device matrix object']);
+  }
+
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    problems.push('name is required');
+  } else if (input.name.trim().length > 100) {
+    problems.push('name must be at most 100 characters');
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    problems.push('description must be a string');
+  }
+  const rules = validateRules(input.rules, problems);
+
+  if (problems.length > 0) {
+    throw new DeviceMatrixError(problems);
+  }
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() || undefined,
+    rules
+  };
+}
+
+/**
+ * The devices a matrix selects today: its catalog filters go to ListDevices,
+ * then the OS version rules pick from what comes back, newest version first
+ */
+export async function resolveDeviceMatrix(
+  rules: DeviceMatrixRules,
+  deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+): Promise<Device[]> {
+  const filters: DeviceFilter[] = [
+    { attribute: 'PLATFORM', operator: 'EQUALS', values: [rules.platform.toUpperCase()] }
+  ];
+  if (rules.formFactor) {
+    filters.push({ attribute: 'FORM_FACTOR', operator: 'EQUALS', values: [rules.formFactor] });
+  }
+  if (rules.manufacturers && rules.manufacturers.length > 0) {
+    filters.push({ attribute: 'MANUFACTURER', operator: 'IN', values: rules.manufacturers });
+  }
+
+  const nameContains = rules.nameContains?.toLowerCase();
+  const candidates = (await listAllDevices(filters, deviceFarm)).filter(device =>
+    !!device.os
+    && (!nameContains || (device.name || '').toLowerCase().includes(nameContains))
+    && (!rules.availableOnly || device.availability === 'HIGHLY_AVAILABLE' || device.availability === 'AVAILABLE')
+    && (!rules.minOsVersion || compareOsVersions(device.os, rules.minOsVersion) >= 0)
+    && (!rules.maxOsVersion || compareOsVersions(device.os, rules.maxOsVersion) <= 0)
+  );
+
+  const osVersions = [...new Set(candidates.map(device => device.os!))].sort((a, b) => compareOsVersions(b, a));
+  let selectedVersions = osVersions;
+  if (rules.latestOsVersions) {
+    selectedVersions = osVersions.slice(0, rules.latestOsVersions);
+  } else if (rules.minMaxOsVersions && osVersions.length > 2) {
+    selectedVersions = [osVersions[0], osVersions[osVersions.length - 1]];
+  }
+
+  const devices = selectedVersions.flatMap(osVersion => {
+    const onVersion = candidates
+      .filter(device => device.os === osVersion)
+      // Most available first, so a matrix that keeps a few devices per OS version picks ones that can run now
+      .sort((a, b) => compareAvailability(a, b) || (a.name || '').localeCompare(b.name || ''));
+    return rules.devicesPerOsVersion ? onVersion.slice(0, rules.devicesPerOsVersion) : onVersion;
+  });
+
+  return rules.maxDevices ? devices.slice(0, rules.maxDevices) : devices;
+}
+
+/**
+ * The device shape the UI lists
+ */
+export function toDeviceFarmDevice(device: Device): DeviceFarmDevice {
+  return {
+    id: device.arn || '',
+    name: device.name || 'Unknown Device',
+    model: device.model || '',
+    os: device.platform === 'IOS' ? 'iOS' : 'Android',
+    osVersion: device.os || '',
+    manufacturer: device.manufacturer || '',
+    formFactor: device.formFactor || '',
+    availability: device.availability || 'UNKNOWN'
+  };
+}
@@ -0,0 +1,97 @@
+import { FlakinessConfig, FlakinessFilter, FlakyTest, TestCaseHistoryEntry, TestCaseState } from '../../types';
+import { RunStore, getRunStore } from '../run-store/run-store.service';
+
+// Skipped and pending results say nothing about whether a test is stable
+const COUNTED_STATES: TestCaseState[] = ['passed', 'failed', 'broken'];
+
+/**
+ * Scores how often each test flips between passing and failing across its
+ * recent runs, separately per platform and device.
+ */
+export class FlakinessService {
+  private config: FlakinessConfig;
+  private store: RunStore;
+
+  constructor(config: Partial<FlakinessConfig> = {}, store: RunStore = getRunStore()) {
+    this.config = {
+      windowSize: 10,
+      minRuns: 3,
+      ...config
+    };
+    this.store = store;
+  }
+
+  /**
+   * Tests that flipped at least once in their last `windowSize` runs, flakiest first
+   */
+  getFlakyTests(filter: FlakinessFilter = {}): FlakyTest[] {
+    const history = this.store.getTestCaseHistory({
+      platform: filter.platform,
+      device: filter.device
+    });
+
+    // History is newest first, so each group keeps its newest runs
+    const groups = new Map<string, TestCaseHistoryEntry[]>();
+    for (const entry of history) {
+      if (!COUNTED_STATES.includes(entry.state)) {
+        continue;
+      }
+      const key = [entry.file, entry.fullTitle, entry.platform?.toLowerCase(), entry.device].join('\u0000');
+      const group = groups.get(key) || [];
+      if (group.length < this.config.windowSize) {
+        group.push(entry);
+        groups.set(key, group);
+      }
+    }
+
+    const flakyTests: FlakyTest[] = [];
+    for (const group of groups.values()) {
+      if (group.length < this.config.minRuns) {
+        continue;
+      }
+      const scored = this.scoreTest(group);
+      if (scored.flips > 0 && scored.score >= (filter.minScore ?? 0)) {
+        flakyTests.push(scored);
+      }
+    }
+
+    flakyTests.sort((a, b) => b.score - a.score || b.failures - a.failures);
+    return filter.limit ? flakyTests.slice(0, filter.limit) : flakyTests;
+  }
+
+  /**
+   * Score one test from its runs (newest first)
+   */
+  private scoreTest(entries: TestCaseHistoryEntry[]): FlakyTest {
+    const chronological = [...entries].reverse();
+    const outcomes = chronological.map(entry => entry.state === 'passed');
+
+    let flips = 0;
+    for (let i = 1; i < outcomes.length; i++) {
+      if (outcomes[i] !== outcomes[i - 1]) {
+        flips++;
+      }
+    }
+
+    const latest = entries[0];
+    const lastFailure = entries.find(entry => entry.state !== 'passed');
+
+    return {
+      file: latest.file,
+      title: latest.title,
+      fullTitle: latest.fullTitle,
+      platform: latest.platform,
+      device: latest.device,
+      runs: entries.length,
+      failures: outcomes.filter(passed => !passed).length,
+      flips,
+      score: Math.round((flips / (outcomes.length - 1)) * 100) / 100,
+      recentStates: chronological.map(entry => entry.state),
+      lastFailure: lastFailure ? {
+        runId: lastFailure.runId,
+        created: lastFailure.created,
+        errorMessage: lastFailure.errorMessage
+      } : null
+    };
+  }
+}
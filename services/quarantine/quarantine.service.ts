@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuarantineCandidate, QuarantineConfig, QuarantineEntry, QuarantineListFile } from '../../types';
+import { TAGS } from '../../test/utils/tag.utils';
+
+// Spec paths show up as "test/e2e/...", "./test/e2e/..." or "../test/e2e/..." depending on who reports them
+function normalizeSpecPath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^(\.\.?\/)+/, '');
+}
+
+/**
+ * Known-flaky tests that still run but whose failures do not fail the run.
+ * Tests are quarantined by an entry in config/quarantine.json or by carrying
+ * the @quarantined tag in their title.
+ */
+export class QuarantineList {
+  private config: QuarantineConfig;
+  private entries: QuarantineEntry[] | null = null;
+
+  constructor(config: Partial<QuarantineConfig> = {}) {
+    this.config = {
+      listPath: process.env.QUARANTINE_FILE || path.join(process.cwd(), 'config', 'quarantine.json'),
+      ...config
+    };
+  }
+
+  /**
+   * Entries that have not expired yet
+   */
+  getActiveEntries(now: Date = new Date()): QuarantineEntry[] {
+    return this.loadEntries().filter(entry => !this.isExpired(entry, now));
+  }
+
+  /**
+   * The entry quarantining a test, if any. A title tag counts as an entry that never expires.
+   */
+  find(test: QuarantineCandidate, now: Date = new Date()): QuarantineEntry | null {
+    if (test.fullTitle.includes(TAGS.QUARANTINED)) {
+      return { file: test.file || '', title: test.title, reason: `Tagged ${TAGS.QUARANTINED}` };
+    }
+    if (!test.file) {
+      return null;
+    }
+
+    const file = normalizeSpecPath(test.file);
+    const platform = test.platform?.toLowerCase();
+    return this.getActiveEntries(now).find(entry =>
+      normalizeSpecPath(entry.file) === file
+      && (entry.title === test.title || entry.title === test.fullTitle)
+      && (!entry.platform || !platform || entry.platform === platform)
+    ) || null;
+  }
+
+  isQuarantined(test: QuarantineCandidate, now: Date = new Date()): boolean {
+    return this.find(test, now) !== null;
+  }
+
+  private loadEntries(): QuarantineEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+    if (!fs.existsSync(this.config.listPath)) {
+      this.entries = [];
+      return this.entries;
+    }
+
+    try {
+      const parsed: QuarantineListFile = JSON.parse(fs.readFileSync(this.config.listPath, 'utf-8'));
+      this.entries = Array.isArray(parsed.tests) ? parsed.tests : [];
+    } catch (error) {
+      console.warn(`⚠️ Could not read quarantine list ${this.config.listPath}, nothing is quarantined:`, error);
+      this.entries = [];
+    }
+    return this.entries;
+  }
+
+  private isExpired(entry: QuarantineEntry, now: Date): boolean {
+    if (!entry.expires) {
+      return false;
+    }
+    const expires = new Date(entry.expires);
+    if (Number.isNaN(expires.getTime())) {
+      console.warn(`⚠️ Ignoring invalid expiry "${entry.expires}" for quarantined test "${entry.title}"`);
+      return false;
+    }
+    // A plain date means the entry still applies for the whole of that day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(entry.expires)) {
+      expires.setUTCDate(expires.getUTCDate() + 1);
+    }
+    return now >= expires;
+  }
+}
@@ -0,0 +1,195 @@
+import path from 'path';
+import {
+  ComparedRun,
+  DeviceFarmBackend,
+  RunComparison,
+  RunComparisonConfig,
+  RunRecord,
+  TestCaseRecord,
+  TestCaseState,
+  TestComparison
+} from '../../types';
+import { collectDeviceFarmTestCases } from '../allure/allure.service';
+import { getBuildDetails } from '../build-cache/build-cache.service';
+import { getDeviceFarmBackend } from '../device-farm/device-farm.service';
+import { RunStore, getRunStore } from '../run-store/run-store.service';
+
+const FAILING_STATES: TestCaseState[] = ['failed', 'broken'];
+// Worst first: a test that failed on any of a run's devices failed in that run
+const STATE_ORDER: TestCaseState[] = ['failed', 'broken', 'passed', 'skipped', 'pending'];
+
+interface TestOutcome {
+  title: string;
+  fullTitle: string;
+  file: string | null;
+  state: TestCaseState;
+  duration: number;
+  errorMessage: string | null;
+}
+
+function isFailing(state: TestCaseState | null): boolean {
+  return !!state && FAILING_STATES.includes(state);
+}
+
+// One outcome per test, however many devices it ran on
+function summarizeTests(testCases: TestCaseRecord[]): Map<string, TestOutcome> {
+  const outcomes = new Map<string, TestOutcome>();
+  for (const testCase of testCases) {
+    const key = testCase.fullTitle;
+    const outcome = outcomes.get(key);
+    if (!outcome) {
+      outcomes.set(key, {
+        title: testCase.title,
+        fullTitle: testCase.fullTitle,
+        file: testCase.file,
+        state: testCase.state,
+        duration: testCase.duration,
+        errorMessage: testCase.errorMessage
+      });
+      continue;
+    }
+    if (STATE_ORDER.indexOf(testCase.state) < STATE_ORDER.indexOf(outcome.state)) {
+      outcome.state = testCase.state;
+      outcome.errorMessage = testCase.errorMessage;
+    }
+    outcome.duration = Math.max(outcome.duration, testCase.duration);
+    outcome.file = outcome.file || testCase.file;
+  }
+  return outcomes;
+}
+
+function byTitle(a: TestComparison, b: TestComparison): number {
+  return (a.file || '').localeCompare(b.file || '') || a.fullTitle.localeCompare(b.fullTitle);
+}
+
+/**
+ * Diffs two runs test by test: what newly failed, what newly passed, what
+ * still fails and what got noticeably slower or faster. Local and Device
+ * Farm runs can be compared with each other.
+ */
+export class RunComparisonService {
+  private config: RunComparisonConfig;
+  private store: RunStore;
+  private deviceFarm: DeviceFarmBackend;
+
+  constructor(
+    config: Partial<RunComparisonConfig> = {},
+    store: RunStore = getRunStore(),
+    deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+  ) {
+    this.config = {
+      minDurationChangeMs: 2000,
+      minDurationChangePercent: 50,
+      buildCacheDir: path.join(process.cwd(), '.bitrise-cache'),
+      ...config
+    };
+    this.store = store;
+    this.deviceFarm = deviceFarm;
+  }
+
+  async compare(base: RunRecord, head: RunRecord): Promise<RunComparison> {
+    const [baseTests, headTests] = [
+      summarizeTests(await this.getTestCases(base)),
+      summarizeTests(await this.getTestCases(head))
+    ];
+
+    const comparison: RunComparison = {
+      base: this.describeRun(base),
+      head: this.describeRun(head),
+      sameBuild: false,
+      newlyFailed: [],
+      newlyPassed: [],
+      stillFailing: [],
+      durationChanges: [],
+      added: [...headTests.keys()].filter(key => !baseTests.has(key)).length,
+      removed: [...baseTests.keys()].filter(key => !headTests.has(key)).length,
+      compared: [...headTests.keys()].filter(key => baseTests.has(key)).length
+    };
+    comparison.sameBuild = comparison.base.buildNumber !== null
+      ? comparison.base.buildNumber === comparison.head.buildNumber && comparison.base.branch === comparison.head.branch
+      : comparison.base.build === comparison.head.build;
+
+    for (const [key, headTest] of headTests) {
+      const baseTest = baseTests.get(key) || null;
+      const durationChangeMs = baseTest ? headTest.duration - baseTest.duration : null;
+      const test: TestComparison = {
+        title: headTest.title,
+        fullTitle: headTest.fullTitle,
+        file: headTest.file || baseTest?.file || null,
+        baseState: baseTest?.state || null,
+        headState: headTest.state,
+        baseDuration: baseTest?.duration ?? null,
+        headDuration: headTest.duration,
+        durationChangeMs,
+        errorMessage: headTest.errorMessage
+      };
+
+      // A test new in the head run that fails is as much a regression as one that used to pass
+      if (isFailing(headTest.state)) {
+        (isFailing(test.baseState) ? comparison.stillFailing : comparison.newlyFailed).push(test);
+      } else if (headTest.state === 'passed' && isFailing(test.baseState)) {
+        comparison.newlyPassed.push({ ...test, errorMessage: baseTest!.errorMessage });
+      }
+
+      if (baseTest && this.isSignificantDurationChange(baseTest, headTest)) {
+        comparison.durationChanges.push(test);
+      }
+    }
+
+    comparison.newlyFailed.sort(byTitle);
+    comparison.newlyPassed.sort(byTitle);
+    comparison.stillFailing.sort(byTitle);
+    comparison.durationChanges.sort((a, b) => Math.abs(b.durationChangeMs!) - Math.abs(a.durationChangeMs!));
+    return comparison;
+  }
+
+  // Only tests that passed both times: a failing test's duration says more about where it failed
+  private isSignificantDurationChange(base: TestOutcome, head: TestOutcome): boolean {
+    if (base.state !== 'passed' || head.state !== 'passed' || base.duration <= 0) {
+      return false;
+    }
+    const change = Math.abs(head.duration - base.duration);
+    return change >= this.config.minDurationChangeMs
+      && (change / base.duration) * 100 >= this.config.minDurationChangePercent;
+  }
+
+  /**
+   * A run's test cases. Device Farm runs only have theirs once read from the
+   * jobs' raw Allure results, which is done once per finished run and kept.
+   */
+  private async getTestCases(run: RunRecord): Promise<TestCaseRecord[]> {
+    const stored = this.store.getTestCases(run.id);
+    if (stored.length > 0 || !run.isDeviceFarm || run.status !== 'COMPLETED') {
+      return stored;
+    }
+
+    const testCases = await collectDeviceFarmTestCases(run, this.deviceFarm);
+    if (testCases.length === 0) {
+      return [];
+    }
+    this.store.replaceTestCases(run.id, testCases);
+    console.log(`📋 Saved ${testCases.length} test case(s) of Device Farm run ${run.name || run.id}`);
+    return this.store.getTestCases(run.id);
+  }
+
+  // Runs from before builds were recorded get theirs from the Bitrise download metadata
+  private describeRun(run: RunRecord): ComparedRun {
+    const build = run.buildNumber === undefined && run.build
+      ? getBuildDetails(run.build, this.config.buildCacheDir)
+      : run;
+    return {
+      id: run.id,
+      name: run.name || null,
+      created: run.created || null,
+      platform: run.platform || null,
+      device: run.device || null,
+      isDeviceFarm: !!run.isDeviceFarm,
+      result: run.result || null,
+      counters: run.counters || null,
+      build: run.build || null,
+      branch: build.branch || null,
+      buildNumber: build.buildNumber ?? null,
+      commitHash: build.commitHash || null
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { EventEmitter } from 'events';
+import { RunEvent } from '../../types';
+
+// Enough to replay a full spec reporter summary to a client that connects late
+const MAX_BUFFERED_EVENTS = 2000;
+// Keep finished runs around briefly so a reconnecting client still gets run:end
+const FINISHED_RUN_RETENTION_MS = 5 * 60 * 1000;
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Turn a line of wdio launcher / spec reporter output into a structured event.
+ * Returns null for lines that are plain log output.
+ */
+export function parseWdioLine(rawLine: string): RunEvent | null {
+  const line = rawLine.replace(ANSI_PATTERN, '');
+  const timestamp = new Date().toISOString();
+
+  // e.g. "[0-0] RUNNING in Android - file:///.../test/e2e/settings/currency.e2e.ts"
+  const suiteMatch = line.match(/RUNNING in .+? - (?:file:\/\/)?(\S+)\s*$/);
+  if (suiteMatch) {
+    const specPath = suiteMatch[1];
+    const testDirIndex = specPath.lastIndexOf('/test/');
+    return {
+      type: 'suite:start',
+      suite: testDirIndex !== -1 ? specPath.substring(testDirIndex + 1) : specPath,
+      timestamp
+    };
+  }
+
+  const passMatch = line.match(/✓\s+(.+?)(?:\s+\((\d+)ms\))?\s*$/);
+  if (passMatch) {
+    return {
+      type: 'test:pass',
+      title: passMatch[1],
+      ...(passMatch[2] && { duration: parseInt(passMatch[2]) }),
+      timestamp
+    };
+  }
+
+  const failMatch = line.match(/[✖✗]\s+(.+?)\s*$/);
+  if (failMatch) {
+    return { type: 'test:fail', title: failMatch[1], timestamp };
+  }
+
+  return null;
+}
+
+/**
+ * In-process pub/sub for live run events. The run route publishes wdio output
+ * as it arrives; the SSE stream route replays the buffer and then subscribes.
+ */
+export class RunEventBus {
+  private emitter = new EventEmitter();
+  private buffers = new Map<string, RunEvent[]>();
+
+  constructor() {
+    // One listener per open browser tab per run
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(runId: string, event: RunEvent): void {
+    const buffer = this.buffers.get(runId) || [];
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) {
+      buffer.splice(0, buffer.length - MAX_BUFFERED_EVENTS);
+    }
+    this.buffers.set(runId, buffer);
+
+    this.emitter.emit(runId, event);
+
+    if (event.type === 'run:end') {
+      setTimeout(() => this.buffers.delete(runId), FINISHED_RUN_RETENTION_MS).unref?.();
+    }
+  }
+
+  /**
+   * Subscribe to new events for a run. Returns an unsubscribe function.
+   */
+  subscribe(runId: string, listener: (event: RunEvent) => void): () => void {
+    this.emitter.on(runId, listener);
+    return () => {
+      this.emitter.off(runId, listener);
+    };
+  }
+
+  getEvents(runId: string): RunEvent[] {
+    return [...(this.buffers.get(runId) || [])];
+  }
+
+  hasRun(runId: string): boolean {
+    return this.buffers.has(runId);
+  }
+}
+
+// Shared across route modules (and Next.js dev hot reloads) in the same server process
+const globalForRunEvents = globalThis as unknown as { runEventBus?: RunEventBus };
+
+export function getRunEventBus(): RunEventBus {
+  if (!globalForRunEvents.runEventBus) {
+    globalForRunEvents.runEventBus = new RunEventBus();
+  }
+  return globalForRunEvents.runEventBus;
+}
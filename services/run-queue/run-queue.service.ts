@@ -0,0 +1,177 @@
+import { LocalRunProcess, RunQueueConfig, RunQueueJob } from '../../types';
+import { RunStore, getRunStore } from '../run-store/run-store.service';
+
+/**
+ * Admits local runs one device at a time. Runs that would share a device (and
+ * with it the Appium session and app state) wait as QUEUED and start in order
+ * as soon as the device frees up.
+ */
+export class RunQueue {
+  private config: RunQueueConfig;
+  private store: RunStore;
+  private active = new Map<string, Set<string>>();
+  private waiting: RunQueueJob[] = [];
+
+  constructor(config: Partial<RunQueueConfig> = {}, store: RunStore = getRunStore()) {
+    this.config = {
+      maxRunsPerDevice: parseInt(process.env.RUN_QUEUE_MAX_RUNS_PER_DEVICE || '') || 1,
+      ...config
+    };
+    this.store = store;
+
+    this.expireOrphanedRuns();
+  }
+
+  /**
+   * Start the run now if its device has a free slot, otherwise queue it.
+   * Returns the 1-based queue position, or 0 if the run was started.
+   */
+  enqueue(job: RunQueueJob): number {
+    if (this.hasCapacity(job.deviceKey)) {
+      this.startJob(job);
+      return 0;
+    }
+
+    this.waiting.push(job);
+    const position = this.getPosition(job.runId) ?? 0;
+    this.store.updateRun(job.runId, { status: 'QUEUED', queuePosition: position });
+    console.log(`⏳ Queued ${job.runId} for ${job.deviceKey} at position ${position}`);
+    return position;
+  }
+
+  /**
+   * Free the device slot held by a finished run and start the next one waiting for it
+   */
+  release(runId: string): void {
+    for (const [deviceKey, runIds] of this.active) {
+      if (runIds.delete(runId)) {
+        if (runIds.size === 0) {
+          this.active.delete(deviceKey);
+        }
+        this.drain(deviceKey);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Drop a run that has not started yet. Returns false if it is not waiting.
+   */
+  remove(runId: string): boolean {
+    const index = this.waiting.findIndex(job => job.runId === runId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [job] = this.waiting.splice(index, 1);
+    this.syncPositions(job.deviceKey);
+    return true;
+  }
+
+  /**
+   * 1-based position among runs waiting for the same device, or null if not waiting
+   */
+  getPosition(runId: string): number | null {
+    const job = this.waiting.find(waiting => waiting.runId === runId);
+    if (!job) {
+      return null;
+    }
+    return this.waiting.filter(waiting => waiting.deviceKey === job.deviceKey).indexOf(job) + 1;
+  }
+
+  private hasCapacity(deviceKey: string): boolean {
+    return (this.active.get(deviceKey)?.size ?? 0) < this.config.maxRunsPerDevice;
+  }
+
+  private startJob(job: RunQueueJob): void {
+    const runIds = this.active.get(job.deviceKey) || new Set<string>();
+    runIds.add(job.runId);
+    this.active.set(job.deviceKey, runIds);
+
+    console.log(`▶️ Starting ${job.runId} on ${job.deviceKey}`);
+    try {
+      job.start();
+    } catch (error) {
+      console.error(`❌ Failed to start ${job.runId}:`, error);
+      this.store.updateRun(job.runId, {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error),
+        endTime: new Date().toISOString()
+      });
+      this.release(job.runId);
+    }
+  }
+
+  private drain(deviceKey: string): void {
+    while (this.hasCapacity(deviceKey)) {
+      const index = this.waiting.findIndex(job => job.deviceKey === deviceKey);
+      if (index === -1) {
+        break;
+      }
+      const [job] = this.waiting.splice(index, 1);
+      this.startJob(job);
+    }
+    this.syncPositions(deviceKey);
+  }
+
+  private syncPositions(deviceKey: string): void {
+    this.waiting
+      .filter(job => job.deviceKey === deviceKey)
+      .forEach((job, index) => {
+        this.store.updateRun(job.runId, { queuePosition: index + 1 });
+      });
+  }
+
+  /**
+   * Queued runs and the processes of running ones only live in memory, so any
+   * left in the store without them belong to a server process that is gone
+   */
+  private expireOrphanedRuns(): void {
+    const orphaned = this.store.listRuns({ status: ['QUEUED'] });
+    for (const run of orphaned) {
+      this.store.updateRun(run.id, {
+        status: 'CANCELLED',
+        queuePosition: null,
+        error: 'Server restarted before the run could start',
+        endTime: new Date().toISOString()
+      });
+    }
+    if (orphaned.length > 0) {
+      console.log(`🧹 Cancelled ${orphaned.length} queued run(s) left over from a previous server`);
+    }
+
+    const interrupted = this.store.listRuns({ status: ['RUNNING'], isDeviceFarm: false })
+      .filter(run => !getLocalRunProcesses().has(run.id));
+    for (const run of interrupted) {
+      this.store.updateRun(run.id, {
+        status: 'COMPLETED',
+        result: 'FAILED',
+        error: 'Interrupted by a server restart',
+        endTime: new Date().toISOString()
+      });
+    }
+    if (interrupted.length > 0) {
+      console.log(`🧹 Failed ${interrupted.length} running run(s) interrupted by a server restart`);
+    }
+  }
+}
+
+// Live wdio processes keyed by runId, so DELETE can reach a run started by an earlier request
+const globalForLocalRuns = globalThis as unknown as { localRunProcesses?: Map<string, LocalRunProcess> };
+
+export function getLocalRunProcesses(): Map<string, LocalRunProcess> {
+  if (!globalForLocalRuns.localRunProcesses) {
+    globalForLocalRuns.localRunProcesses = new Map();
+  }
+  return globalForLocalRuns.localRunProcesses;
+}
+
+// One queue per server process (survives Next.js dev hot reloads)
+const globalForRunQueue = globalThis as unknown as { runQueue?: RunQueue };
+
+export function getRunQueue(): RunQueue {
+  if (!globalForRunQueue.runQueue) {
+    globalForRunQueue.runQueue = new RunQueue();
+  }
+  return globalForRunQueue.runQueue;
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RunResultsFile, RunResultTest, TestCounters } from '../../types';
+
+const RESULTS_FILE = 'results.json';
+const WORKER_FILE_PATTERN = /^results-.+\.json$/;
+
+/**
+ * Path of the partial results file a single wdio worker writes
+ */
+export function getWorkerResultsPath(resultsDir: string, cid: string): string {
+  return path.join(resultsDir, `results-${cid}.json`);
+}
+
+/**
+ * Combine the per-worker files in a results directory into results.json.
+ * Called from the wdio onComplete hook; returns null if no worker wrote anything.
+ */
+export function mergeRunResults(resultsDir: string): RunResultsFile | null {
+  if (!fs.existsSync(resultsDir)) {
+    return null;
+  }
+
+  const workerFiles = fs.readdirSync(resultsDir)
+    .filter(file => WORKER_FILE_PATTERN.test(file))
+    .sort();
+  if (workerFiles.length === 0) {
+    return null;
+  }
+
+  const parts: RunResultsFile[] = [];
+  for (const file of workerFiles) {
+    try {
+      parts.push(JSON.parse(fs.readFileSync(path.join(resultsDir, file), 'utf-8')));
+    } catch (error) {
+      // A worker killed mid-write leaves a truncated file; keep what the others reported
+      console.warn(`⚠️ Skipping unreadable results file ${file}:`, error);
+    }
+  }
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const merged: RunResultsFile = {
+    startTime: parts.map(part => part.startTime).sort()[0],
+    endTime: parts.map(part => part.endTime).sort()[parts.length - 1],
+    specs: parts.flatMap(part => part.specs),
+    failures: parts.reduce((sum, part) => sum + (part.failures ?? 0), 0),
+    tests: parts.flatMap(part => part.tests)
+  };
+
+  fs.writeFileSync(path.join(resultsDir, RESULTS_FILE), JSON.stringify(merged, null, 2));
+  for (const file of workerFiles) {
+    fs.rmSync(path.join(resultsDir, file), { force: true });
+  }
+
+  return merged;
+}
+
+/**
+ * Read a run's results. Falls back to merging worker files when wdio did not
+ * get as far as onComplete (e.g. the run was cancelled).
+ */
+export function readRunResults(resultsDir: string): RunResultsFile | null {
+  const resultsPath = path.join(resultsDir, RESULTS_FILE);
+  if (fs.existsSync(resultsPath)) {
+    return JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
+  }
+  return mergeRunResults(resultsDir);
+}
+
+export function countRunResults(results: RunResultsFile): TestCounters {
+  const counters: TestCounters = { passed: 0, failed: 0, broken: 0, skipped: 0, total: 0 };
+
+  for (const test of results.tests) {
+    switch (test.state) {
+      case 'passed':
+        counters.passed++;
+        break;
+      case 'failed':
+        counters.failed++;
+        break;
+      case 'broken':
+        counters.broken++;
+        break;
+      default:
+        counters.skipped++;
+    }
+    counters.total++;
+  }
+
+  return counters;
+}
+
+/**
+ * Whether a run should count as passed: every failure wdio reported belongs to a
+ * quarantined test. wdio itself still exits non-zero for those, so callers use
+ * this instead of the exit code when results are available.
+ */
+export function isPassingRun(results: RunResultsFile): boolean {
+  const failing = results.tests.filter(test => test.state === 'failed' || test.state === 'broken');
+  const blocking = failing.filter(test => !test.quarantined);
+  const quarantined = failing.length - blocking.length;
+
+  return blocking.length === 0 && (results.failures ?? 0) <= quarantined;
+}
+
+/**
+ * Failed or broken tests that were excused by the quarantine list
+ */
+export function getQuarantinedFailures(results: RunResultsFile): RunResultTest[] {
+  return results.tests.filter(test => test.quarantined && (test.state === 'failed' || test.state === 'broken'));
+}
@@ -0,0 +1,612 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RunStoreConfig,
+  RunRecord,
+  RunFilter,
+  TestCaseRecord,
+  TestCaseState,
+  TestCaseHistoryEntry,
+  TestCaseHistoryFilter,
+  RunArtifact,
+  DeviceMatrix,
+  DeviceMatrixInput
+} from '../../types';
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database, config: RunStoreConfig) => void;
+}
+
+interface RunRow {
+  id: string;
+  name: string | null;
+  status: string | null;
+  result: string | null;
+  created: string;
+  duration: number | null;
+  device: string | null;
+  platform: string | null;
+  build: string | null;
+  is_device_farm: number;
+  run_arn: string | null;
+  artifacts_url: string | null;
+  has_allure_report: number;
+  passed: number | null;
+  failed: number | null;
+  broken: number | null;
+  skipped: number | null;
+  total: number | null;
+  data: string;
+}
+
+interface TestCaseRow {
+  run_id: string;
+  title: string;
+  full_title: string;
+  file: string | null;
+  state: string;
+  duration: number;
+  error_message: string | null;
+  error_stack: string | null;
+  retries: number;
+  tags: string;
+  quarantined: number;
+}
+
+interface TestCaseHistoryRow extends TestCaseRow {
+  created: string;
+  platform: string | null;
+  device: string | null;
+  is_device_farm: number;
+}
+
+interface ArtifactRow {
+  run_id: string;
+  name: string;
+  type: string;
+  url: string;
+  created_at: string;
+}
+
+interface DeviceMatrixRow {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields stored in their own columns; everything else goes into the data blob
+const COLUMN_FIELDS = new Set([
+  'id', 'name', 'status', 'result', 'created', 'duration', 'device', 'platform', 'build',
+  'isDeviceFarm', 'runArn', 'artifactsUrl', 'hasAllureReport', 'counters'
+]);
+
+function readLegacyFile(filePath: string): RunRecord[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed.filter(entry => entry && entry.id) : [];
+  } catch (error) {
+    console.warn(`Failed to read legacy run file ${filePath}, skipping import:`, error);
+    return [];
+  }
+}
+
+// Upsert rather than INSERT OR REPLACE, which would cascade-delete the run's test cases and artifacts
+const INSERT_RUN_SQL = `
+  INSERT INTO runs (
+    id, name, status, result, created, duration, device, platform, build,
+    is_device_farm, run_arn, artifacts_url, has_allure_report,
+    passed, failed, broken, skipped, total, data, updated_at
+  ) VALUES (
+    @id, @name, @status, @result, @created, @duration, @device, @platform, @build,
+    @is_device_farm, @run_arn, @artifacts_url, @has_allure_report,
+    @passed, @failed, @broken, @skipped, @total, @data, @updated_at
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = excluded.name, status = excluded.status, result = excluded.result,
+    created = excluded.created, duration = excluded.duration, device = excluded.device,
+    platform = excluded.platform, build = excluded.build, is_device_farm = excluded.is_device_farm,
+    run_arn = excluded.run_arn, artifacts_url = excluded.artifacts_url,
+    has_allure_report = excluded.has_allure_report, passed = excluded.passed,
+    failed = excluded.failed, broken = excluded.broken, skipped = excluded.skipped,
+    total = excluded.total, data = excluded.data, updated_at = excluded.updated_at
+`;
+
+function toRunParams(run: RunRecord) {
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(run)) {
+    if (!COLUMN_FIELDS.has(key) && value !== undefined) {
+      data[key] = value;
+    }
+  }
+
+  const counters = run.counters;
+  return {
+    id: run.id,
+    name: run.name ?? null,
+    status: run.status ?? null,
+    result: run.result ?? null,
+    created: run.created || (typeof run.startTime === 'string' ? run.startTime : new Date().toISOString()),
+    duration: typeof run.duration === 'number' ? run.duration : null,
+    device: run.device ?? null,
+    platform: run.platform ?? null,
+    build: run.build ?? null,
+    is_device_farm: run.isDeviceFarm ? 1 : 0,
+    run_arn: typeof run.runArn === 'string' ? run.runArn : null,
+    artifacts_url: run.artifactsUrl ?? null,
+    has_allure_report: run.hasAllureReport ? 1 : 0,
+    passed: counters ? counters.passed ?? 0 : null,
+    failed: counters ? counters.failed ?? 0 : null,
+    broken: counters ? counters.broken ?? 0 : null,
+    skipped: counters ? counters.skipped ?? 0 : null,
+    total: counters ? counters.total ?? 0 : null,
+    data: JSON.stringify(data),
+    updated_at: new Date().toISOString()
+  };
+}
+
+function fromRunRow(row: RunRow): RunRecord {
+  const record: RunRecord = {
+    ...JSON.parse(row.data),
+    id: row.id,
+    created: row.created,
+    isDeviceFarm: row.is_device_farm === 1,
+    hasAllureReport: row.has_allure_report === 1,
+    artifactsUrl: row.artifacts_url
+  };
+
+  if (row.name !== null) record.name = row.name;
+  if (row.status !== null) record.status = row.status;
+  if (row.result !== null) record.result = row.result;
+  if (row.duration !== null) record.duration = row.duration;
+  if (row.device !== null) record.device = row.device;
+  if (row.platform !== null) record.platform = row.platform;
+  if (row.build !== null) record.build = row.build;
+  if (row.run_arn !== null) record.runArn = row.run_arn;
+  if (row.total !== null) {
+    record.counters = {
+      passed: row.passed ?? 0,
+      failed: row.failed ?? 0,
+      broken: row.broken ?? 0,
+      skipped: row.skipped ?? 0,
+      total: row.total
+    };
+  }
+
+  return record;
+}
+
+function fromDeviceMatrixRow(row: DeviceMatrixRow): DeviceMatrix {
+  const matrix: DeviceMatrix = {
+    id: row.id,
+    name: row.name,
+    rules: JSON.parse(row.rules),
+    created: row.created_at,
+    updated: row.updated_at
+  };
+  if (row.description !== null) matrix.description = row.description;
+  return matrix;
+}
+
+function fromTestCaseRow(row: TestCaseRow): TestCaseRecord {
+  return {
+    runId: row.run_id,
+    title: row.title,
+    fullTitle: row.full_title,
+    file: row.file,
+    state: row.state as TestCaseState,
+    duration: row.duration,
+    errorMessage: row.error_message,
+    errorStack: row.error_stack,
+    retries: row.retries,
+    tags: JSON.parse(row.tags),
+    quarantined: row.quarantined === 1
+  };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create runs, test cases and artifacts',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE runs (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          status TEXT,
+          result TEXT,
+          created TEXT NOT NULL,
+          duration INTEGER,
+          device TEXT,
+          platform TEXT,
+          build TEXT,
+          is_device_farm INTEGER NOT NULL DEFAULT 0,
+          run_arn TEXT UNIQUE,
+          artifacts_url TEXT,
+          has_allure_report INTEGER NOT NULL DEFAULT 0,
+          passed INTEGER,
+          failed INTEGER,
+          broken INTEGER,
+          skipped INTEGER,
+          total INTEGER,
+          data TEXT NOT NULL DEFAULT '{}',
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_runs_created ON runs (created DESC);
+        CREATE INDEX idx_runs_status ON runs (status);
+
+        CREATE TABLE test_cases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          full_title TEXT NOT NULL,
+          file TEXT,
+          state TEXT NOT NULL,
+          duration INTEGER NOT NULL DEFAULT 0,
+          error_message TEXT,
+          error_stack TEXT,
+          retries INTEGER NOT NULL DEFAULT 0,
+          tags TEXT NOT NULL DEFAULT '[]'
+        );
+        CREATE INDEX idx_test_cases_run ON test_cases (run_id);
+        CREATE INDEX idx_test_cases_title ON test_cases (file, full_title);
+
+        CREATE TABLE artifacts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          url TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          UNIQUE (run_id, name)
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'import running-tests.json and test-history.json',
+    up: (db, config) => {
+      const history = readLegacyFile(path.join(config.legacyDir, 'test-history.json'));
+      const running = readLegacyFile(path.join(config.legacyDir, 'running-tests.json'));
+      const insert = db.prepare(INSERT_RUN_SQL);
+
+      for (const entry of [...history, ...running]) {
+        // A local run the old server never finished has no process left to finish it
+        const params = toRunParams(!entry.isDeviceFarm && entry.status === 'RUNNING'
+          ? { ...entry, status: 'COMPLETED', result: 'FAILED', error: 'Interrupted by a server restart' }
+          : entry);
+        // A run ARN may appear twice in the legacy history; keep the first (newest) entry
+        if (params.run_arn && db.prepare('SELECT 1 FROM runs WHERE run_arn = ?').get(params.run_arn)) {
+          continue;
+        }
+        insert.run(params);
+      }
+
+      if (history.length > 0 || running.length > 0) {
+        console.log(`📦 Imported ${history.length} history and ${running.length} running entries into run store`);
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'mark quarantined test cases',
+    up: (db) => {
+      db.exec('ALTER TABLE test_cases ADD COLUMN quarantined INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 4,
+    name: 'create device matrices',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE device_matrices (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          description TEXT,
+          rules TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    }
+  }
+];
+
+/**
+ * SQLite-backed store for test runs, their test cases and artifacts.
+ * Replaces running-tests.json and test-history.json, which were rewritten
+ * wholesale by every route and lost updates when runs finished concurrently.
+ */
+export class RunStore {
+  private db: Database.Database;
+  private config: RunStoreConfig;
+
+  constructor(config: Partial<RunStoreConfig> = {}) {
+    this.config = {
+      dbPath: process.env.RUN_STORE_PATH || path.join(process.cwd(), 'test-runs.db'),
+      legacyDir: process.cwd(),
+      ...config
+    };
+
+    this.db = new Database(this.config.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.pragma('foreign_keys = ON');
+
+    this.migrate();
+  }
+
+  /**
+   * Apply any migrations that have not run against this database yet
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set(
+      (this.db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[])
+        .map(row => row.version)
+    );
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+
+      this.transaction(() => {
+        migration.up(this.db, this.config);
+        this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      });
+      console.log(`🗄️ Run store migration ${migration.version} applied: ${migration.name}`);
+    }
+  }
+
+  /**
+   * Run several store operations atomically
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  getRun(id: string): RunRecord | null {
+    const row = this.db.prepare('SELECT * FROM runs WHERE id = ?').get(id) as RunRow | undefined;
+    return row ? fromRunRow(row) : null;
+  }
+
+  findRunByArn(runArn: string): RunRecord | null {
+    const row = this.db.prepare('SELECT * FROM runs WHERE run_arn = ?').get(runArn) as RunRow | undefined;
+    return row ? fromRunRow(row) : null;
+  }
+
+  /**
+   * List runs, newest first
+   */
+  listRuns(filter: RunFilter = {}): RunRecord[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.status && filter.status.length > 0) {
+      clauses.push(`status IN (${filter.status.map(() => '?').join(', ')})`);
+      params.push(...filter.status);
+    }
+    if (filter.isDeviceFarm !== undefined) {
+      clauses.push('is_device_farm = ?');
+      params.push(filter.isDeviceFarm ? 1 : 0);
+    }
+
+    let sql = 'SELECT * FROM runs';
+    if (clauses.length > 0) {
+      sql += ` WHERE ${clauses.join(' AND ')}`;
+    }
+    sql += ' ORDER BY created DESC';
+    if (filter.limit) {
+      sql += ' LIMIT ?';
+      params.push(filter.limit);
+    }
+
+    return (this.db.prepare(sql).all(...params) as RunRow[]).map(fromRunRow);
+  }
+
+  /**
+   * Insert a run, replacing any existing run with the same id
+   */
+  saveRun(run: RunRecord): RunRecord {
+    this.db.prepare(INSERT_RUN_SQL).run(toRunParams(run));
+    return this.getRun(run.id)!;
+  }
+
+  /**
+   * Read-modify-write a run inside a transaction so concurrent updates don't clobber each other.
+   * Returns null if the run does not exist.
+   */
+  updateRun(id: string, update: Partial<RunRecord> | ((current: RunRecord) => RunRecord)): RunRecord | null {
+    return this.transaction(() => {
+      const current = this.getRun(id);
+      if (!current) return null;
+
+      const next = typeof update === 'function'
+        ? update(current)
+        : { ...current, ...update };
+
+      return this.saveRun({ ...next, id });
+    });
+  }
+
+  /**
+   * Merge a run into the entry with the same run ARN (or id), inserting it if neither exists.
+   * Returns whether an existing run was updated.
+   */
+  upsertRun(run: RunRecord): { run: RunRecord; updated: boolean } {
+    return this.transaction(() => {
+      const existing = (typeof run.runArn === 'string' ? this.findRunByArn(run.runArn) : null)
+        || this.getRun(run.id);
+
+      if (existing) {
+        return { run: this.saveRun({ ...existing, ...run, id: existing.id }), updated: true };
+      }
+      return { run: this.saveRun(run), updated: false };
+    });
+  }
+
+  /**
+   * Replace all recorded test cases for a run
+   */
+  replaceTestCases(runId: string, testCases: Omit<TestCaseRecord, 'runId'>[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO test_cases (run_id, title, full_title, file, state, duration, error_message, error_stack, retries, tags, quarantined)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM test_cases WHERE run_id = ?').run(runId);
+      for (const testCase of testCases) {
+        insert.run(
+          runId,
+          testCase.title,
+          testCase.fullTitle,
+          testCase.file,
+          testCase.state,
+          Math.round(testCase.duration),
+          testCase.errorMessage,
+          testCase.errorStack,
+          testCase.retries,
+          JSON.stringify(testCase.tags),
+          testCase.quarantined ? 1 : 0
+        );
+      }
+    });
+  }
+
+  getTestCases(runId: string): TestCaseRecord[] {
+    const rows = this.db.prepare('SELECT * FROM test_cases WHERE run_id = ? ORDER BY id').all(runId) as TestCaseRow[];
+    return rows.map(fromTestCaseRow);
+  }
+
+  /**
+   * Test case results across runs, newest run first. Only finished runs are
+   * included so a run in progress never counts as a result.
+   */
+  getTestCaseHistory(filter: TestCaseHistoryFilter = {}): TestCaseHistoryEntry[] {
+    const clauses = [`runs.status IN ('COMPLETED', 'CANCELLED')`];
+    const params: unknown[] = [];
+
+    if (filter.file) {
+      clauses.push('test_cases.file = ?');
+      params.push(filter.file);
+    }
+    if (filter.fullTitle) {
+      clauses.push('test_cases.full_title = ?');
+      params.push(filter.fullTitle);
+    }
+    if (filter.platform) {
+      clauses.push('LOWER(runs.platform) = LOWER(?)');
+      params.push(filter.platform);
+    }
+    if (filter.device) {
+      clauses.push('runs.device = ?');
+      params.push(filter.device);
+    }
+    if (filter.since) {
+      clauses.push('runs.created >= ?');
+      params.push(filter.since);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT test_cases.*, runs.created, runs.platform, runs.device, runs.is_device_farm
+      FROM test_cases
+      JOIN runs ON runs.id = test_cases.run_id
+      WHERE ${clauses.join(' AND ')}
+      ORDER BY runs.created DESC, test_cases.id
+    `).all(...params) as TestCaseHistoryRow[];
+
+    return rows.map(row => ({
+      ...fromTestCaseRow(row),
+      created: row.created,
+      platform: row.platform,
+      device: row.device,
+      isDeviceFarm: row.is_device_farm === 1
+    }));
+  }
+
+  /**
+   * Record an artifact for a run, replacing an earlier artifact of the same name
+   */
+  addArtifact(artifact: Omit<RunArtifact, 'createdAt'>): void {
+    this.db.prepare(`
+      INSERT INTO artifacts (run_id, name, type, url, created_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (run_id, name) DO UPDATE SET type = excluded.type, url = excluded.url, created_at = excluded.created_at
+    `).run(artifact.runId, artifact.name, artifact.type, artifact.url, new Date().toISOString());
+  }
+
+  getArtifacts(runId: string): RunArtifact[] {
+    const rows = this.db.prepare('SELECT * FROM artifacts WHERE run_id = ? ORDER BY id').all(runId) as ArtifactRow[];
+    return rows.map(row => ({
+      runId: row.run_id,
+      name: row.name,
+      type: row.type,
+      url: row.url,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Saved device matrices, by name
+   */
+  listDeviceMatrices(): DeviceMatrix[] {
+    const rows = this.db.prepare('SELECT * FROM device_matrices ORDER BY name').all() as DeviceMatrixRow[];
+    return rows.map(fromDeviceMatrixRow);
+  }
+
+  getDeviceMatrix(id: string): DeviceMatrix | null {
+    const row = this.db.prepare('SELECT * FROM device_matrices WHERE id = ?').get(id) as DeviceMatrixRow | undefined;
+    return row ? fromDeviceMatrixRow(row) : null;
+  }
+
+  findDeviceMatrixByName(name: string): DeviceMatrix | null {
+    const row = this.db.prepare('SELECT * FROM device_matrices WHERE name = ?').get(name) as DeviceMatrixRow | undefined;
+    return row ? fromDeviceMatrixRow(row) : null;
+  }
+
+  /**
+   * Insert a device matrix, or replace the one with the same id keeping its creation time
+   */
+  saveDeviceMatrix(id: string, input: DeviceMatrixInput): DeviceMatrix {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO device_matrices (id, name, description, rules, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name, description = excluded.description, rules = excluded.rules, updated_at = excluded.updated_at
+    `).run(id, input.name, input.description ?? null, JSON.stringify(input.rules), now, now);
+    return this.getDeviceMatrix(id)!;
+  }
+
+  /**
+   * Returns whether a matrix was deleted
+   */
+  deleteDeviceMatrix(id: string): boolean {
+    return this.db.prepare('DELETE FROM device_matrices WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+// Keep a single connection per server process (survives Next.js dev hot reloads)
+const globalForRunStore = globalThis as unknown as { runStore?: RunStore };
+
+export function getRunStore(): RunStore {
+  if (!globalForRunStore.runStore) {
+    globalForRunStore.runStore = new RunStore();
+  }
+  return globalForRunStore.runStore;
+}
@@ -0,0 +1,248 @@
+import { EventEmitter } from 'events';
+import { DeviceFarmBackend, HistoryEntry, RunRecord, RunWatcherConfig, RunWatcherEvent } from '../../types';
+import { generateDeviceFarmReport } from '../allure/allure.service';
+import { getDeviceFarmBackend } from '../device-farm/device-farm.service';
+import { refreshRunEntry, summarizeRun } from '../device-farm/device-farm-runs.service';
+import { RunStore, getRunStore } from '../run-store/run-store.service';
+
+interface WatchedRun {
+  id: string;
+  intervalMs: number;
+  nextPollAt: number;
+}
+
+// What a poll has to change for the watcher to save the run and tell the browser
+function getFingerprint(run: Partial<HistoryEntry>): string {
+  return JSON.stringify([
+    run.status,
+    run.result,
+    run.counters,
+    run.deviceRuns?.map(deviceRun => [deviceRun.jobArn, deviceRun.status, deviceRun.result, deviceRun.retriedBy, deviceRun.counters])
+  ]);
+}
+
+/**
+ * Polls the Device Farm runs still in progress from the server, so AWS is
+ * asked about each run once however many browser tabs are open. A run that
+ * stays unchanged is polled less and less often; one that moves is polled
+ * again soon. Changes are saved to the run store and published to subscribers.
+ */
+export class RunWatcher {
+  private config: RunWatcherConfig;
+  private store: RunStore;
+  private deviceFarm: DeviceFarmBackend;
+  private emitter = new EventEmitter();
+  private watched = new Map<string, WatchedRun>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastRescan = 0;
+
+  constructor(
+    config: Partial<RunWatcherConfig> = {},
+    store: RunStore = getRunStore(),
+    deviceFarm: DeviceFarmBackend = getDeviceFarmBackend()
+  ) {
+    this.config = {
+      minIntervalMs: parseInt(process.env.DEVICE_FARM_WATCH_MIN_INTERVAL_MS || '') || 5000,
+      maxIntervalMs: parseInt(process.env.DEVICE_FARM_WATCH_MAX_INTERVAL_MS || '') || 60000,
+      backoffFactor: 1.5,
+      rescanIntervalMs: 10000,
+      ...config
+    };
+    this.store = store;
+    this.deviceFarm = deviceFarm;
+
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.rescan();
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Start watching a run that was just scheduled, rather than waiting for the next rescan
+   */
+  watch(id: string): void {
+    if (!this.watched.has(id)) {
+      this.watched.set(id, { id, intervalMs: this.config.minIntervalMs, nextPollAt: Date.now() + this.config.minIntervalMs });
+    }
+    if (this.timer) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Subscribe to run changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: RunWatcherEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * The Device Farm runs in progress right now, as the run store has them
+   */
+  getActiveRuns(): RunRecord[] {
+    this.rescan();
+    return [...this.watched.keys()]
+      .map(id => this.store.getRun(id))
+      .filter((run): run is RunRecord => !!run);
+  }
+
+  // Pick up runs recorded by routes that don't call watch(), e.g. Device Farm runs found by a sync
+  private rescan(): void {
+    this.lastRescan = Date.now();
+    const active = this.store.listRuns({ isDeviceFarm: true })
+      .filter(run => run.status !== 'COMPLETED' && (run.runArn || run.deviceRuns?.length));
+
+    // Runs another route finished (e.g. the status endpoint) still need to reach the browser
+    const activeIds = new Set(active.map(run => run.id));
+    for (const id of this.watched.keys()) {
+      if (!activeIds.has(id)) {
+        this.watched.delete(id);
+        const run = this.store.getRun(id);
+        if (run) {
+          this.publish(run);
+        }
+      }
+    }
+    for (const run of active) {
+      if (!this.watched.has(run.id)) {
+        this.watched.set(run.id, { id: run.id, intervalMs: this.config.minIntervalMs, nextPollAt: Date.now() });
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    const nextPollAt = Math.min(
+      this.lastRescan + this.config.rescanIntervalMs,
+      ...[...this.watched.values()].map(run => run.nextPollAt)
+    );
+    this.timer = setTimeout(() => this.tick(), Math.max(0, nextPollAt - Date.now()));
+    // Never keep the process alive just to watch runs
+    this.timer.unref?.();
+  }
+
+  private async tick(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      if (Date.now() - this.lastRescan >= this.config.rescanIntervalMs) {
+        this.rescan();
+      }
+      const due = [...this.watched.values()].filter(run => run.nextPollAt <= Date.now());
+      for (const run of due) {
+        await this.poll(run);
+      }
+    } finally {
+      this.polling = false;
+      this.schedule();
+    }
+  }
+
+  private async poll(watched: WatchedRun): Promise<void> {
+    const entry = this.store.getRun(watched.id);
+    if (!entry || entry.status === 'COMPLETED') {
+      this.watched.delete(watched.id);
+      if (entry) {
+        this.publish(entry);
+      }
+      return;
+    }
+
+    try {
+      const update = await this.fetchUpdate(entry);
+      if (getFingerprint(entry) === getFingerprint({ ...entry, ...update })) {
+        watched.intervalMs = Math.min(this.config.maxIntervalMs, watched.intervalMs * this.config.backoffFactor);
+      } else {
+        watched.intervalMs = this.config.minIntervalMs;
+        const run = this.store.updateRun(entry.id, current => ({
+          ...current,
+          ...update,
+          statusChanges: update.status && update.status !== current.status
+            ? [...(current.statusChanges || []), { status: update.status, result: update.result, at: new Date().toISOString() }]
+            : current.statusChanges
+        }));
+        if (run) {
+          if (run.status !== entry.status) {
+            console.log(`👀 ${run.name || run.id}: ${entry.status} → ${run.status}${run.result ? ` (${run.result})` : ''}`);
+          }
+          this.publish(run, entry.status);
+        }
+      }
+
+      if (update.status === 'COMPLETED') {
+        this.watched.delete(watched.id);
+        this.buildReport(entry.id);
+        return;
+      }
+    } catch (error) {
+      // Throttling and outages back off like a quiet run, just faster
+      watched.intervalMs = Math.min(this.config.maxIntervalMs, watched.intervalMs * 2);
+      console.error(`Failed to poll Device Farm run ${entry.runArn || entry.id}:`, error);
+    }
+    watched.nextPollAt = Date.now() + watched.intervalMs;
+  }
+
+  // Build the report as the run finishes, so every run lands on its branch's trend in the order it ran
+  private buildReport(id: string): void {
+    const run = this.store.getRun(id);
+    if (!run) {
+      return;
+    }
+    generateDeviceFarmReport(run, this.deviceFarm).catch(error => {
+      console.error(`Failed to build the Allure report of ${run.name || run.id}:`, error);
+    });
+  }
+
+  private publish(run: RunRecord, previousStatus?: string): void {
+    const event: RunWatcherEvent = {
+      type: 'run:update',
+      run,
+      previousStatus,
+      timestamp: new Date().toISOString()
+    };
+    this.emitter.emit('event', event);
+  }
+
+  private async fetchUpdate(entry: RunRecord): Promise<Partial<HistoryEntry>> {
+    if (entry.deviceRuns?.length) {
+      return refreshRunEntry(entry, this.deviceFarm);
+    }
+    const { run } = await this.deviceFarm.getRun({ arn: entry.runArn });
+    if (!run) {
+      throw new Error('Run not found');
+    }
+    return summarizeRun(run);
+  }
+}
+
+// One watcher per server process (survives Next.js dev hot reloads)
+const globalForRunWatcher = globalThis as unknown as { runWatcher?: RunWatcher };
+
+export function getRunWatcher(): RunWatcher {
+  if (!globalForRunWatcher.runWatcher) {
+    globalForRunWatcher.runWatcher = new RunWatcher();
+    globalForRunWatcher.runWatcher.start();
+  }
+  return globalForRunWatcher.runWatcher;
+}
@@ -0,0 +1,65 @@
+import { SseStream, SseSubscribe } from '../../types';
+
+// Comment lines keep proxies from closing a stream that is quiet for a while
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * A Server-Sent Events response sending each event as a JSON data line, with
+ * heartbeats, until the route closes it or the client goes away
+ */
+export function createSseResponse<T>(signal: AbortSignal, subscribe: SseSubscribe<T>): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+      cleanup = () => {
+        unsubscribe?.();
+        if (heartbeat) clearInterval(heartbeat);
+      };
+
+      const stream: SseStream<T> = {
+        get closed() {
+          return closed;
+        },
+        send: (event) => {
+          if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          controller.close();
+        }
+      };
+
+      heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+      signal.addEventListener('abort', stream.close);
+
+      const stop = subscribe(stream);
+      // The route may have closed the stream while subscribing, e.g. on a finished job's snapshot
+      if (closed) {
+        stop();
+      } else {
+        unsubscribe = stop;
+      }
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,51 @@
+import { CatalogTest, DiscoveredTestFile, TagCatalog, TagUsage } from '../../types';
+import { TAGS } from '../../test/utils/tag.utils';
+import { flattenTests } from '../test-discovery/test-discovery.service';
+
+const KNOWN_TAGS = new Set<string>(Object.values(TAGS));
+const PLATFORM_TAGS: string[] = [TAGS.IOS, TAGS.ANDROID];
+
+/**
+ * Every tag used by the discovered tests, counted per test (a tag on a describe
+ * counts for each test inside it), checked against TAGS.
+ */
+export function buildTagCatalog(testFiles: DiscoveredTestFile[]): TagCatalog {
+  const usage = new Map<string, TagUsage>();
+  const testsWithoutPlatform: CatalogTest[] = [];
+
+  for (const file of testFiles) {
+    for (const test of flattenTests(file.suites)) {
+      for (const tag of test.tags) {
+        let tagUsage = usage.get(tag);
+        if (!tagUsage) {
+          tagUsage = { tag, known: KNOWN_TAGS.has(tag), count: 0, files: [] };
+          usage.set(tag, tagUsage);
+        }
+        tagUsage.count++;
+
+        const fileUsage = tagUsage.files.find(entry => entry.path === file.path);
+        if (fileUsage) {
+          fileUsage.count++;
+        } else {
+          tagUsage.files.push({ path: file.path, count: 1 });
+        }
+      }
+
+      if (!test.tags.some(tag => PLATFORM_TAGS.includes(tag))) {
+        testsWithoutPlatform.push({
+          file: file.path,
+          title: test.title,
+          fullTitle: test.fullTitle,
+          line: test.line
+        });
+      }
+    }
+  }
+
+  const tags = Array.from(usage.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  return {
+    tags,
+    unknownTags: tags.filter(tag => !tag.known).map(tag => tag.tag),
+    testsWithoutPlatform
+  };
+}
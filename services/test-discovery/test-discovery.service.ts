@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import { DiscoveredTestFile, TestNode, TestNodeKind, TestNodeMode } from '../../types';
+import { extractTags } from '../../test/utils/tag.utils';
+
+const SPEC_FILE_PATTERN = /\.e2e\.(ts|js)$/;
+
+// Mocha's BDD interface, including the aliases and x-prefixed skips
+const TEST_FUNCTIONS: Record<string, { kind: TestNodeKind; mode: TestNodeMode }> = {
+  describe: { kind: 'describe', mode: 'normal' },
+  context: { kind: 'describe', mode: 'normal' },
+  xdescribe: { kind: 'describe', mode: 'skip' },
+  xcontext: { kind: 'describe', mode: 'skip' },
+  it: { kind: 'it', mode: 'normal' },
+  specify: { kind: 'it', mode: 'normal' },
+  xit: { kind: 'it', mode: 'skip' },
+  xspecify: { kind: 'it', mode: 'skip' }
+};
+
+interface ParentScope {
+  fullTitle: string;
+  skipped: boolean;
+  tags: string[];
+}
+
+/**
+ * Resolve a call like describe(...), it.only(...) or xit(...) to the block it declares
+ */
+function getTestFunction(callee: ts.Expression): { kind: TestNodeKind; mode: TestNodeMode } | null {
+  if (ts.isIdentifier(callee)) {
+    return TEST_FUNCTIONS[callee.text] || null;
+  }
+  if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)) {
+    const base = TEST_FUNCTIONS[callee.expression.text];
+    const modifier = callee.name.text;
+    if (base && base.mode === 'normal' && (modifier === 'skip' || modifier === 'only')) {
+      return { kind: base.kind, mode: modifier };
+    }
+  }
+  return null;
+}
+
+/**
+ * Title text as written. Template literals keep their ${...} placeholders, since
+ * the values are only known when mocha runs the file.
+ */
+function getTitle(node: ts.Expression, sourceFile: ts.SourceFile): string {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.head.text + node.templateSpans
+      .map(span => '${' + span.expression.getText(sourceFile) + '}' + span.literal.text)
+      .join('');
+  }
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return getTitle(node.left, sourceFile) + getTitle(node.right, sourceFile);
+  }
+  if (ts.isParenthesizedExpression(node)) {
+    return getTitle(node.expression, sourceFile);
+  }
+  return '${' + node.getText(sourceFile) + '}';
+}
+
+function isFunctionNode(node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function collectTestNodes(node: ts.Node, sourceFile: ts.SourceFile, parent: ParentScope): TestNode[] {
+  if (ts.isCallExpression(node)) {
+    const testFunction = getTestFunction(node.expression);
+    const [titleArg, callback] = node.arguments;
+
+    if (testFunction && titleArg) {
+      const title = getTitle(titleArg, sourceFile).trim();
+      const fullTitle = parent.fullTitle ? `${parent.fullTitle} ${title}` : title;
+      const skipped = parent.skipped || testFunction.mode === 'skip' || !isFunctionNode(callback);
+      const testNode: TestNode = {
+        kind: testFunction.kind,
+        title,
+        fullTitle,
+        mode: testFunction.mode,
+        skipped,
+        tags: Array.from(new Set([...parent.tags, ...extractTags(title)])),
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        children: []
+      };
+
+      // Tests can't nest, so only a describe's body is searched further
+      if (testFunction.kind === 'describe' && isFunctionNode(callback)) {
+        testNode.children = collectTestNodes(callback.body, sourceFile, {
+          fullTitle,
+          skipped,
+          tags: testNode.tags
+        });
+      }
+      return [testNode];
+    }
+  }
+
+  // Anything else (loops, helpers, forEach over data) may still declare tests
+  const found: TestNode[] = [];
+  ts.forEachChild(node, child => {
+    found.push(...collectTestNodes(child, sourceFile, parent));
+  });
+  return found;
+}
+
+/**
+ * Parse spec source into its tree of describe and it blocks
+ */
+export function parseTestFile(content: string, fileName: string): TestNode[] {
+  const scriptKind = fileName.endsWith('.js') ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind);
+  return collectTestNodes(sourceFile, sourceFile, { fullTitle: '', skipped: false, tags: [] });
+}
+
+/**
+ * Every it() in a tree, in source order
+ */
+export function flattenTests(nodes: TestNode[]): TestNode[] {
+  return nodes.flatMap(node => node.kind === 'it' ? [node] : flattenTests(node.children));
+}
+
+/**
+ * Tests mocha would actually run: skipped ones are left out, and if anything in
+ * the file is marked .only, only those blocks count.
+ */
+export function getRunnableTests(nodes: TestNode[]): TestNode[] {
+  const hasOnly = (node: TestNode): boolean => node.mode === 'only' || node.children.some(hasOnly);
+  const collect = (node: TestNode, inOnly: boolean): TestNode[] => {
+    const included = inOnly || node.mode === 'only';
+    if (node.kind === 'it') {
+      return included ? [node] : [];
+    }
+    return node.children.flatMap(child => collect(child, included));
+  };
+
+  const runnable = nodes.some(hasOnly)
+    ? nodes.flatMap(node => collect(node, false))
+    : flattenTests(nodes);
+  return runnable.filter(test => !test.skipped);
+}
+
+/**
+ * Parse one spec file on disk
+ */
+export async function readTestFile(filePath: string, projectRoot: string): Promise<DiscoveredTestFile> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const suites = parseTestFile(content, filePath);
+  return {
+    path: path.relative(projectRoot, filePath),
+    name: path.basename(filePath),
+    suites,
+    tests: flattenTests(suites).map(test => test.title)
+  };
+}
+
+/**
+ * Find and parse every spec file under a directory. Files that can't be read
+ * are logged and left out.
+ */
+export async function discoverTestFiles(dir: string, projectRoot: string): Promise<DiscoveredTestFile[]> {
+  const testFiles: DiscoveredTestFile[] = [];
+
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    console.error(`Error scanning directory ${dir}:`, error);
+    return testFiles;
+  }
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+      testFiles.push(...await discoverTestFiles(fullPath, projectRoot));
+    } else if (entry.isFile() && SPEC_FILE_PATTERN.test(entry.name)) {
+      try {
+        testFiles.push(await readTestFile(fullPath, projectRoot));
+      } catch (error) {
+        console.error(`Error reading test file ${fullPath}:`, error);
+      }
+    }
+  }
+
+  return testFiles;
+}
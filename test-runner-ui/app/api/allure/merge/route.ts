@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { RunRecord } from '../../../../../types';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { mergeAllureReports } from '../../../../../services/allure/allure.service';
+
+// POST endpoint merging several runs' Allure results into one report (e.g. local runs of the same build on different devices)
+export async function POST(request: Request) {
+  try {
+    const { runIds } = await request.json();
+
+    if (!Array.isArray(runIds) || runIds.length < 2 || runIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json({
+        error: 'runIds must list at least two run ids'
+      }, { status: 400 });
+    }
+
+    const store = getRunStore();
+    const runs: RunRecord[] = [];
+    for (const id of [...new Set<string>(runIds)]) {
+      const run = store.getRun(id);
+      if (!run) {
+        return NextResponse.json({
+          error: `Run not found: ${id}`
+        }, { status: 404 });
+      }
+      runs.push(run);
+    }
+
+    // Local runs of different builds would mix two apps' results in one report
+    const localBuilds = new Set(runs.filter(run => !run.isDeviceFarm).map(run => run.build));
+    if (localBuilds.size > 1) {
+      return NextResponse.json({
+        error: `Local runs must be of the same build to be merged (got ${[...localBuilds].join(', ')})`
+      }, { status: 400 });
+    }
+
+    // The same runs always merge into the same report
+    const reportId = `merged-${crypto.createHash('sha256').update([...runs.map(run => run.id)].sort().join(',')).digest('hex').slice(0, 12)}`;
+    const report = await mergeAllureReports(runs, reportId);
+
+    if (!report) {
+      return NextResponse.json({
+        error: 'None of these runs has Allure results to merge'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      reportId,
+      reportUrl: `/api/allure/report?runId=${reportId}`,
+      resultCount: report.resultCount,
+      sources: report.sources
+    });
+  } catch (error: any) {
+    console.error('Failed to merge Allure reports:', error);
+    return NextResponse.json({
+      error: error.message
+    }, { status: 500 });
+  }
+}
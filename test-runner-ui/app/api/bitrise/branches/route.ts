@@ -1,17 +1,22 @@
-import { NextResponse } from 'next/server';
-import { BitriseService } from '../../../../../services/bitrise/bitrise.service';
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { getBuildProvider } from '../../../../../services/build-provider/build-provider.service';
 
-export async function GET() {
+// Branches from the project's build provider (?project=, default project otherwise), whichever CI it is
+export async function GET(request: NextRequest) {
   try {
-    const bitrise = new BitriseService();
-    const branches = await bitrise.getAvailableBranches();
+    const provider = getBuildProvider({
+      project: request.nextUrl.searchParams.get('project') || undefined,
+      projectRoot: path.join(process.cwd(), '..')
+    });
+    const branches = await provider.listBranches();
     
     return NextResponse.json({ 
       success: true,
       branches 
     });
   } catch (error: any) {
-    console.error('Failed to fetch Bitrise branches:', error);
+    console.error('Failed to fetch branches:', error);
     return NextResponse.json({ 
       success: false,
       error: error.message,
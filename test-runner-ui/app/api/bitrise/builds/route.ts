@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { BitriseService } from '../../../../../services/bitrise/bitrise.service';
+import path from 'path';
+import { getArtifactRules, getBuildProvider } from '../../../../../services/build-provider/build-provider.service';
+import { selectArtifact } from '../../../../../services/build-provider/artifact-selection.service';
 
+// Recent builds of a branch; with ?explain=true&platform=, each build also says which artifact would be fetched and why
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -13,8 +16,33 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const bitrise = new BitriseService();
-    const builds = await bitrise.getBuildConfigurations(branch, 10);
+    const platform = searchParams.get('platform') || 'android';
+    if (platform !== 'android' && platform !== 'ios') {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid platform: ${platform}. Must be 'android' or 'ios'`
+      }, { status: 400 });
+    }
+
+    const options = {
+      project: searchParams.get('project') || undefined,
+      projectRoot: path.join(process.cwd(), '..')
+    };
+    const provider = getBuildProvider(options);
+    const builds = await provider.listBuilds(branch, 10);
+
+    if (searchParams.get('explain') === 'true') {
+      const rules = getArtifactRules(options)[platform];
+      const explained = await Promise.all(builds.map(async build => ({
+        ...build,
+        artifactSelection: selectArtifact(platform, await provider.listArtifacts(build), rules)
+      })));
+      return NextResponse.json({
+        success: true,
+        builds: explained,
+        branch
+      });
+    }
     
     return NextResponse.json({ 
       success: true,
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BuildFetchJobEvent } from '../../../../../../types';
+import { getBuildFetchJobs } from '../../../../../../services/build-fetch/build-fetch.service';
+import { createSseResponse } from '../../../../../../services/sse/sse.service';
+
+// GET endpoint streaming a build fetch job's progress until it finishes (Server-Sent Events)
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+  const jobs = getBuildFetchJobs();
+  const job = jobId ? jobs.getJob(jobId) : null;
+
+  if (!jobId || !job) {
+    return NextResponse.json({
+      error: jobId ? `Build fetch job not found: ${jobId}` : 'jobId parameter is required'
+    }, { status: jobId ? 404 : 400 });
+  }
+
+  return createSseResponse<BuildFetchJobEvent>(request.signal, stream => {
+    const send = (event: BuildFetchJobEvent) => {
+      stream.send(event);
+      if (event.job.status !== 'running') {
+        stream.close();
+      }
+    };
+
+    const unsubscribe = jobs.subscribe(jobId, send);
+    // Nothing is published between subscribing and the snapshot, both happen synchronously
+    send({ type: 'snapshot', job, timestamp: new Date().toISOString() });
+    return unsubscribe;
+  });
+}
@@ -1,61 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import path from 'path';
+import { getBuildFetchJobs } from '../../../../../services/build-fetch/build-fetch.service';
 
-const execAsync = promisify(exec);
-
+// POST endpoint to start fetching a build in the background; follow it with GET or /api/builds/fetch/events
 export async function POST(request: NextRequest) {
-  try {
-    const { platform = 'android', branch = 'main', buildSlug } = await request.json().catch(() => ({}));
-    
-    // Validate parameters
-    const validPlatforms = ['android', 'ios'];
-    
-    if (!validPlatforms.includes(platform)) {
-      return NextResponse.json({ 
-        success: false,
-        error: `Invalid platform. Must be one of: ${validPlatforms.join(', ')}` 
-      }, { status: 400 });
-    }
-    
-    if (!branch || typeof branch !== 'string') {
-      return NextResponse.json({ 
-        success: false,
-        error: 'Branch parameter is required and must be a string' 
-      }, { status: 400 });
-    }
-    
-    // Go up one level from test-runner-ui to main project
-    const projectRoot = path.join(process.cwd(), '..');
-    
-    // Execute npm run build:fetch with parameters
-    let command = `npm run build:fetch -- --platform=${platform} --branch=${branch}`;
-    if (buildSlug) {
-      command += ` --buildSlug=${buildSlug}`;
-    }
-    console.log(`Executing: ${command}`);
-    
-    const { stdout, stderr } = await execAsync(command, {
-      cwd: projectRoot,
-      env: { ...process.env, FORCE_COLOR: '0' }
-    });
-    
-    console.log('Build fetch output:', stdout);
-    if (stderr) console.error('Build fetch stderr:', stderr);
-    
-    return NextResponse.json({ 
-      success: true,
-      message: `Successfully fetched ${platform} build from ${branch} branch`,
-      platform,
-      branch,
-      output: stdout
-    });
-  } catch (error: any) {
-    console.error('Failed to fetch builds:', error);
-    return NextResponse.json({ 
+  const { platform = 'android', branch = 'main', buildSlug, project } = await request.json().catch(() => ({}));
+
+  // Validate parameters
+  const validPlatforms = ['android', 'ios'];
+
+  if (!validPlatforms.includes(platform)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid platform. Must be one of: ${validPlatforms.join(', ')}`
+    }, { status: 400 });
+  }
+
+  if (!branch || typeof branch !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: 'Branch parameter is required and must be a string'
+    }, { status: 400 });
+  }
+
+  if (project !== undefined && typeof project !== 'string') {
+    return NextResponse.json({
       success: false,
-      error: error.message 
-    }, { status: 500 });
+      error: 'Project must be a string'
+    }, { status: 400 });
+  }
+
+  // Go up one level from test-runner-ui to main project
+  const projectRoot = path.join(process.cwd(), '..');
+  const job = getBuildFetchJobs().start({ platform, branch, buildSlug: buildSlug || undefined, project: project || undefined }, projectRoot);
+
+  return NextResponse.json({
+    success: true,
+    jobId: job.id,
+    job
+  }, { status: 202 });
+}
+
+// GET endpoint for one build fetch job (?jobId=), or every recent one
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+  const jobs = getBuildFetchJobs();
+
+  if (!jobId) {
+    return NextResponse.json({ jobs: jobs.listJobs() });
+  }
+
+  const job = jobs.getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: `Build fetch job not found: ${jobId}` }, { status: 404 });
   }
-}
\ No newline at end of file
+  return NextResponse.json({ job });
+}
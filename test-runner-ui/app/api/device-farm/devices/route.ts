@@ -1,31 +1,6 @@
 import { NextResponse } from 'next/server';
-import { 
-  DeviceFarmClient,
-  ListDevicesCommand,
-  CreateDevicePoolCommand,
-  GetDevicePoolCommand,
-  DeviceAvailability
-} from '@aws-sdk/client-device-farm';
-
-const getDeviceFarmClient = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
+import { getAwsConfig } from '../../../../../services/aws/aws.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -38,9 +13,13 @@ export async function GET(request: Request) {
   }
   
   try {
-    const client = getDeviceFarmClient();
-    const projectArn = process.env.NEXT_PUBLIC_DEVICE_FARM_PROJECT_ARN || 
-      'arn:aws:devicefarm:us-west-2:859998284317:project:9a2e2485-4bd8-4b1a-af28-254326345350';
+    const { projectArn } = getAwsConfig().deviceFarm;
+    if (!projectArn) {
+      return NextResponse.json({ 
+        error: 'DEVICE_FARM_PROJECT_ARN not configured' 
+      }, { status: 503 });
+    }
+    const deviceFarm = getDeviceFarmBackend();
     
     console.log(`Fetching ${platform} devices from Device Farm...`);
     
@@ -50,7 +29,7 @@ export async function GET(request: Request) {
     let nextToken: string | undefined;
     
     do {
-      const command = new ListDevicesCommand({
+      const response = await deviceFarm.listDevices({
         filters: [
           {
             attribute: 'PLATFORM',
@@ -62,7 +41,6 @@ export async function GET(request: Request) {
         nextToken
       });
       
-      const response = await client.send(command);
       const devices = response.devices || [];
       allDevices = [...allDevices, ...devices];
       nextToken = response.nextToken;
@@ -127,41 +105,47 @@ export async function GET(request: Request) {
   }
 }
 
-// Create a device pool for a specific device
+// Create a device pool for a specific device, or for several (deviceArns)
 export async function POST(request: Request) {
   try {
-    const { deviceArn, platform, projectArn: customProjectArn } = await request.json();
+    const { deviceArn, deviceArns, platform, projectArn: customProjectArn } = await request.json();
+    const poolDeviceArns: string[] = Array.isArray(deviceArns) && deviceArns.length > 0
+      ? deviceArns
+      : deviceArn ? [deviceArn] : [];
     
-    if (!deviceArn || !platform) {
+    if (poolDeviceArns.length === 0 || !platform) {
       return NextResponse.json({ 
-        error: 'deviceArn and platform are required' 
+        error: 'deviceArn (or deviceArns) and platform are required' 
       }, { status: 400 });
     }
     
-    const client = getDeviceFarmClient();
-    const projectArn = customProjectArn || 
-      process.env.NEXT_PUBLIC_DEVICE_FARM_PROJECT_ARN || 
-      'arn:aws:devicefarm:us-west-2:859998284317:project:9a2e2485-4bd8-4b1a-af28-254326345350';
+    const projectArn = customProjectArn || getAwsConfig().deviceFarm.projectArn;
+    if (!projectArn) {
+      return NextResponse.json({ 
+        error: 'DEVICE_FARM_PROJECT_ARN not configured' 
+      }, { status: 503 });
+    }
+    const deviceFarm = getDeviceFarmBackend();
     
-    console.log(`Creating device pool for device: ${deviceArn}`);
+    console.log(`Creating device pool for device(s): ${poolDeviceArns.join(', ')}`);
     
-    // Create a device pool with just this device
-    const devicePoolName = `Single-Device-${Date.now()}`;
-    const command = new CreateDevicePoolCommand({
+    // Create a device pool with just these devices
+    const devicePoolName = `${poolDeviceArns.length === 1 ? 'Single' : 'Multi'}-Device-${Date.now()}`;
+    const response = await deviceFarm.createDevicePool({
       projectArn,
       name: devicePoolName,
-      description: `Device pool for single device testing`,
+      description: poolDeviceArns.length === 1 
+        ? `Device pool for single device testing` 
+        : `Device pool for ${poolDeviceArns.length} devices`,
       rules: [
         {
           attribute: 'ARN',
           operator: 'IN',
-          value: `["${deviceArn}"]`
+          value: JSON.stringify(poolDeviceArns)
         }
       ]
     });
     
-    const response = await client.send(command);
-    
     if (!response.devicePool?.arn) {
       throw new Error('Failed to create device pool');
     }
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { RunWatcherEvent } from '../../../../../types';
+import { getAwsConfig } from '../../../../../services/aws/aws.service';
+import { getRunWatcher } from '../../../../../services/run-watcher/run-watcher.service';
+import { createSseResponse } from '../../../../../services/sse/sse.service';
+
+// GET endpoint streaming Device Farm run changes seen by the server-side run watcher (Server-Sent Events)
+export async function GET(request: Request) {
+  const { projectArn } = getAwsConfig().deviceFarm;
+
+  if (!projectArn) {
+    return NextResponse.json({
+      error: 'DEVICE_FARM_PROJECT_ARN not configured'
+    }, { status: 503 });
+  }
+
+  const watcher = getRunWatcher();
+
+  return createSseResponse<RunWatcherEvent>(request.signal, stream => {
+    // Nothing is published between the snapshot and subscribing, both happen synchronously
+    stream.send({ type: 'snapshot', runs: watcher.getActiveRuns(), timestamp: new Date().toISOString() });
+    return watcher.subscribe(stream.send);
+  });
+}
@@ -1,24 +1,15 @@
 import { NextResponse } from 'next/server';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
-import fetch from 'node-fetch';
+import { PutObjectCommand } from '@aws-sdk/client-s3';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { getAwsConfig, getBucketObjectUrl, getS3Client } from '../../../../../services/aws/aws.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
+import { getReportId } from '../../../../../services/device-farm/device-farm-runs.service';
 
 const execAsync = promisify(exec);
 
-const getS3Client = () => {
-  return new S3Client({
-    region: 'eu-west-1', // Reports bucket is in eu-west-1
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
-
 export async function POST(request: Request) {
   let tempDir: string | null = null;
   
@@ -33,7 +24,7 @@ export async function POST(request: Request) {
     
     console.log('Extracting Allure report from Customer Artifacts for run:', runArn);
     
-    const s3Client = getS3Client();
+    const s3Client = getS3Client('reports');
     
     // Create temp directory
     tempDir = path.join('/tmp', `device-farm-${Date.now()}`);
@@ -43,12 +34,7 @@ export async function POST(request: Request) {
     
     // Download the zip file
     console.log('Downloading Customer Artifacts zip...');
-    const response = await fetch(zipUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download zip: ${response.statusText}`);
-    }
-    
-    const zipBuffer = await response.buffer();
+    const zipBuffer = await getDeviceFarmBackend().downloadArtifact(zipUrl);
     await fs.writeFile(zipPath, zipBuffer);
     
     // Extract zip
@@ -98,14 +84,14 @@ export async function POST(request: Request) {
     const htmlContent = await fs.readFile(htmlPath);
     
     // Generate consistent S3 key based on runId (not timestamp)
-    const runId = runArn.split('/').pop() || 'unknown';
+    const runId = getReportId(runArn);
     const s3Key = `allure/device-farm-${runId}.html`;
     
     console.log('Uploading extracted report to S3:', s3Key);
     
     // Upload to S3
     const putCommand = new PutObjectCommand({
-      Bucket: 'vault22-test-reports',
+      Bucket: getAwsConfig().buckets.reports.name,
       Key: s3Key,
       Body: htmlContent,
       ContentType: 'text/html',
@@ -118,7 +104,7 @@ export async function POST(request: Request) {
     
     await s3Client.send(putCommand);
     
-    const s3Url = `https://vault22-test-reports.s3.eu-west-1.amazonaws.com/${s3Key}`;
+    const s3Url = getBucketObjectUrl('reports', s3Key);
     
     console.log('✅ Report extracted and uploaded successfully:', s3Url);
     
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getDeviceFarmBackend } from '../../../../../../services/device-farm/device-farm.service';
+import { LocalDeviceFarm } from '../../../../../../services/device-farm/local-device-farm.service';
+
+// Serves the artifacts the local Device Farm backend generates, so report links open in the browser
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const arn = searchParams.get('arn');
+
+  if (!arn) {
+    return NextResponse.json({
+      error: 'Missing arn parameter'
+    }, { status: 400 });
+  }
+
+  const deviceFarm = getDeviceFarmBackend();
+  if (!(deviceFarm instanceof LocalDeviceFarm)) {
+    return NextResponse.json({
+      error: 'The local Device Farm backend is not enabled (set DEVICE_FARM_BACKEND=local)'
+    }, { status: 404 });
+  }
+
+  const file = deviceFarm.getArtifactFile(arn);
+  if (!file) {
+    return NextResponse.json({
+      error: 'Artifact not found'
+    }, { status: 404 });
+  }
+
+  return new NextResponse(file.body, {
+    headers: { 'Content-Type': file.contentType }
+  });
+}
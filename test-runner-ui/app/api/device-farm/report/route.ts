@@ -1,57 +1,24 @@
 import { NextResponse } from 'next/server';
-import { 
-  DeviceFarmClient,
-  ListArtifactsCommand,
-  ArtifactCategory
-} from '@aws-sdk/client-device-farm';
-import { S3Client, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { promises as fs } from 'fs';
+import path from 'path';
 import fetch from 'node-fetch';
+import { DeviceFarmBackend, RunRecord } from '../../../../../types';
+import { getAwsConfig, getBucketObjectUrl, getS3Client } from '../../../../../services/aws/aws.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
+import { getReportId } from '../../../../../services/device-farm/device-farm-runs.service';
+import { generateDeviceFarmReport, getAllureReportsDir } from '../../../../../services/allure/allure.service';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
 
-const getDeviceFarmClient = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
-
-const getS3Client = () => {
-  return new S3Client({
-    region: 'eu-west-1', // Reports bucket is in eu-west-1
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
+// Reports are cached in S3 under a key derived from the runArn rather than a timestamp;
+// one the runner built from the raw results of every device gets a key of its own
+const getReportKey = (runArn: string, merged: boolean = false): string =>
+  `allure/device-farm-${getReportId(runArn)}${merged ? '-merged' : ''}.html`;
 
-const checkIfReportExistsInS3 = async (runArn: string): Promise<string | null> => {
+const checkIfReportExistsInS3 = async (consistentKey: string): Promise<string | null> => {
   try {
-    const s3Client = getS3Client();
-    const runId = runArn.split('/').pop() || 'unknown';
-    
-    // Try to find existing report with the same runId
-    // We need to generate possible S3 keys and check if they exist
-    const bucketName = 'vault22-test-reports';
-    const keyPrefix = `allure/device-farm-`;
-    const keySuffix = `-${runId}.html`;
-    
-    // For now, we can't easily list all objects, so we'll generate a consistent key
-    // based on the runArn instead of timestamp
-    const consistentKey = `allure/device-farm-${runId}.html`;
+    const s3Client = getS3Client('reports');
+    const bucketName = getAwsConfig().buckets.reports.name;
     
     const headCommand = new HeadObjectCommand({
       Bucket: bucketName,
@@ -61,7 +28,7 @@ const checkIfReportExistsInS3 = async (runArn: string): Promise<string | null> =
     await s3Client.send(headCommand);
     
     // If no error, the object exists
-    return `https://${bucketName}.s3.eu-west-1.amazonaws.com/${consistentKey}`;
+    return getBucketObjectUrl('reports', consistentKey);
   } catch (error: any) {
     if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
       return null; // Object doesn't exist
@@ -71,6 +38,59 @@ const checkIfReportExistsInS3 = async (runArn: string): Promise<string | null> =
   }
 };
 
+// The runner's own report of a finished run: cached in S3 (or locally), otherwise built from the jobs' artifacts
+async function getMergedReport(entry: RunRecord, runArn: string, deviceFarm: DeviceFarmBackend) {
+  const key = getReportKey(runArn, true);
+  const reportId = `device-farm-${entry.id}`;
+  const localReport = {
+    hasReport: true,
+    reportUrl: `/api/allure/report?runId=${reportId}`,
+    reportName: 'Merged Allure Report',
+    message: 'Allure report merged from every device, with trend history',
+    artifactType: 'html',
+    requiresExtraction: false,
+    source: 'merged'
+  };
+  
+  if (deviceFarm.kind === 'aws') {
+    const existingS3Url = await checkIfReportExistsInS3(key);
+    if (existingS3Url) {
+      return { ...localReport, reportUrl: existingS3Url, reportName: 'Merged Allure Report (S3)', source: 's3-cached' };
+    }
+  }
+  
+  // The run watcher builds the report when the run completes; building it again would add the run to the trend twice
+  const reportPath = path.join(getAllureReportsDir(), reportId, 'index.html');
+  let message = localReport.message;
+  if (!await fs.access(reportPath).then(() => true, () => false)) {
+    const merged = await generateDeviceFarmReport(entry, deviceFarm);
+    if (!merged) {
+      return null;
+    }
+    message = `Allure report merged from ${merged.sources.filter(source => source.resultCount > 0).length} device(s), with trend history`;
+  }
+  
+  if (deviceFarm.kind === 'aws') {
+    try {
+      await getS3Client('reports').send(new PutObjectCommand({
+        Bucket: getAwsConfig().buckets.reports.name,
+        Key: key,
+        Body: await fs.readFile(reportPath),
+        ContentType: 'text/html',
+        Metadata: {
+          'run-arn': runArn,
+          'generated': new Date().toISOString(),
+          'source': 'device-farm-merge'
+        }
+      }));
+      return { ...localReport, reportUrl: getBucketObjectUrl('reports', key), reportName: 'Merged Allure Report (S3)', message, source: 's3-merged' };
+    } catch (error) {
+      console.error('Failed to upload merged report to S3, serving it from this server:', error);
+    }
+  }
+  return { ...localReport, message };
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const runArn = searchParams.get('runArn');
@@ -82,8 +102,24 @@ export async function GET(request: Request) {
   }
   
   try {
-    // First, check if report already exists in S3
-    const existingS3Url = await checkIfReportExistsInS3(runArn);
+    const deviceFarm = getDeviceFarmBackend();
+    
+    // A finished run gets one report built from each device's raw Allure results, carrying on its branch's history
+    const entry = runArn.includes(':job:') ? null : getRunStore().findRunByArn(runArn);
+    if (entry?.status === 'COMPLETED') {
+      try {
+        const mergedReport = await getMergedReport(entry, runArn, deviceFarm);
+        if (mergedReport) {
+          return NextResponse.json(mergedReport);
+        }
+        console.log('⚠️ No raw Allure results in the jobs\' artifacts, looking for a single report instead');
+      } catch (error) {
+        console.error('Failed to build the merged Allure report, looking for a single report instead:', error);
+      }
+    }
+    
+    // First, check if report already exists in S3 (local runs never reach the bucket)
+    const existingS3Url = deviceFarm.kind === 'aws' ? await checkIfReportExistsInS3(getReportKey(runArn)) : null;
     
     if (existingS3Url) {
       return NextResponse.json({
@@ -97,16 +133,12 @@ export async function GET(request: Request) {
       });
     }
     
-    const client = getDeviceFarmClient();
-    
     // List all artifacts for the run
-    const listCommand = new ListArtifactsCommand({
+    const { artifacts } = await deviceFarm.listArtifacts({
       arn: runArn,
-      type: 'FILE' as ArtifactCategory
+      type: 'FILE'
     });
     
-    const { artifacts } = await client.send(listCommand);
-    
     if (!artifacts || artifacts.length === 0) {
       return NextResponse.json({ 
         message: 'No artifacts found for this run',
@@ -128,8 +160,7 @@ export async function GET(request: Request) {
     if (reportInfoArtifact?.url) {
       try {
         // Download and parse the report info file to get S3 URL
-        const response = await fetch(reportInfoArtifact.url);
-        const reportInfo = await response.text();
+        const reportInfo = (await deviceFarm.downloadArtifact(reportInfoArtifact.url)).toString('utf8');
         const s3UrlMatch = reportInfo.match(/S3_REPORT_URL=(.+)/);
         
         if (s3UrlMatch && s3UrlMatch[1]) {
@@ -1,11 +1,5 @@
 import { NextResponse } from 'next/server';
 import { 
-  DeviceFarmClient,
-  CreateUploadCommand,
-  GetUploadCommand,
-  ScheduleRunCommand,
-  GetRunCommand,
-  ListUploadsCommand,
   UploadType,
   TestType,
   DevicePoolType
@@ -15,30 +9,16 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import fetch from 'node-fetch';
 import crypto from 'crypto';
-
-const getDeviceFarmClient = () => {
-  // Check if we should use a specific AWS profile
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    // Use AWS profile from ~/.aws/credentials
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-      // SDK will automatically load credentials from the profile
-    });
-  }
-  
-  // Fallback to explicit credentials if provided
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
+import { getAwsConfig } from '../../../../../services/aws/aws.service';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { combineTagExpressions, formatTagExpression, matchesTagExpression, TagExpressionError } from '../../../../../test/utils/tag.utils';
+import { createDevicePoolForDevices, getDeviceFarmBackend, resolveDevicePoolDevices } from '../../../../../services/device-farm/device-farm.service';
+import { listDeviceRuns, shardSpecs } from '../../../../../services/device-farm/device-farm-runs.service';
+import { getMonthlyUsage, getRunRequester } from '../../../../../services/device-farm/device-farm-usage.service';
+import { getBuildDetails } from '../../../../../services/build-cache/build-cache.service';
+import { getRunWatcher } from '../../../../../services/run-watcher/run-watcher.service';
+import { discoverTestFiles, getRunnableTests } from '../../../../../services/test-discovery/test-discovery.service';
+import { DeviceFarmBackend, DeviceRunSummary, WeightedSpec } from '../../../../../types';
 
 // Generate file hash for caching
 async function getFileHash(filePath: string): Promise<string> {
@@ -49,16 +29,14 @@ async function getFileHash(filePath: string): Promise<string> {
 }
 
 // Check if file is already uploaded
-async function findExistingUpload(client: DeviceFarmClient, projectArn: string, fileName: string, fileHash: string, uploadType: UploadType): Promise<string | null> {
+async function findExistingUpload(deviceFarm: DeviceFarmBackend, projectArn: string, fileName: string, fileHash: string, uploadType: UploadType): Promise<string | null> {
   try {
     console.log(`Checking for existing upload: ${fileName}`);
     
-    const command = new ListUploadsCommand({
+    const response = await deviceFarm.listUploads({
       arn: projectArn,
       type: uploadType
     });
-    
-    const response = await client.send(command);
     const uploads = response.uploads || [];
     
     // Look for matching upload by name and check if it's still valid (completed successfully)
@@ -96,19 +74,17 @@ async function findExistingUpload(client: DeviceFarmClient, projectArn: string,
 }
 
 // Upload without caching (force fresh upload)
-async function uploadToDeviceFarmNoCache(client: DeviceFarmClient, projectArn: string, filePath: string, uploadType: UploadType) {
+async function uploadToDeviceFarmNoCache(deviceFarm: DeviceFarmBackend, projectArn: string, filePath: string, uploadType: UploadType) {
   try {
     const fileName = path.basename(filePath);
     console.log(`🔄 Force uploading (no cache): ${fileName}`);
     
     // Create upload
-    const createUploadCommand = new CreateUploadCommand({
+    const { upload } = await deviceFarm.createUpload({
       projectArn,
       name: fileName,
       type: uploadType
     });
-    
-    const { upload } = await client.send(createUploadCommand);
     if (!upload?.url || !upload?.arn) {
       throw new Error('Failed to create upload');
     }
@@ -123,17 +99,7 @@ async function uploadToDeviceFarmNoCache(client: DeviceFarmClient, projectArn: s
     const fileBuffer = await fs.readFile(filePath);
     console.log(`File loaded, uploading...`);
     
-    const uploadResponse = await fetch(upload.url, {
-      method: 'PUT',
-      body: fileBuffer,
-      headers: {
-        'Content-Type': 'application/octet-stream'
-      }
-    });
-    
-    if (!uploadResponse.ok) {
-      throw new Error(`Failed to upload file: ${uploadResponse.status} ${uploadResponse.statusText}`);
-    }
+    await deviceFarm.sendUploadContent(upload, fileBuffer);
     
     console.log('File uploaded to S3, waiting for processing...');
     
@@ -146,8 +112,7 @@ async function uploadToDeviceFarmNoCache(client: DeviceFarmClient, projectArn: s
       await new Promise(resolve => setTimeout(resolve, 2000));
       attempts++;
       
-      const getUploadCommand = new GetUploadCommand({ arn: upload.arn });
-      const { upload: currentUpload } = await client.send(getUploadCommand);
+      const { upload: currentUpload } = await deviceFarm.getUpload({ arn: upload.arn });
       uploadStatus = currentUpload?.status || 'FAILED';
       console.log(`Upload status check ${attempts}/${maxAttempts}: ${uploadStatus}`);
     }
@@ -165,14 +130,14 @@ async function uploadToDeviceFarmNoCache(client: DeviceFarmClient, projectArn: s
   }
 }
 
-async function uploadToDeviceFarm(client: DeviceFarmClient, projectArn: string, filePath: string, uploadType: UploadType) {
+async function uploadToDeviceFarm(deviceFarm: DeviceFarmBackend, projectArn: string, filePath: string, uploadType: UploadType) {
   try {
     const fileName = path.basename(filePath);
     console.log(`Processing upload for: ${fileName}`);
     
     // Check for existing upload first
     const fileHash = await getFileHash(filePath);
-    const existingUpload = await findExistingUpload(client, projectArn, fileName, fileHash, uploadType);
+    const existingUpload = await findExistingUpload(deviceFarm, projectArn, fileName, fileHash, uploadType);
     
     if (existingUpload) {
       console.log(`🚀 Skipping upload - using existing file`);
@@ -182,13 +147,11 @@ async function uploadToDeviceFarm(client: DeviceFarmClient, projectArn: string,
     console.log(`📤 No existing upload found, creating new upload...`);
     
     // Create upload
-    const createUploadCommand = new CreateUploadCommand({
+    const { upload } = await deviceFarm.createUpload({
       projectArn,
       name: fileName,
       type: uploadType
     });
-    
-    const { upload } = await client.send(createUploadCommand);
     if (!upload?.url || !upload?.arn) {
       throw new Error('Failed to create upload');
     }
@@ -203,17 +166,7 @@ async function uploadToDeviceFarm(client: DeviceFarmClient, projectArn: string,
     const fileBuffer = await fs.readFile(filePath);
     console.log(`File loaded, uploading...`);
     
-    const uploadResponse = await fetch(upload.url, {
-      method: 'PUT',
-      body: fileBuffer,
-      headers: {
-        'Content-Type': 'application/octet-stream'
-      }
-    });
-    
-    if (!uploadResponse.ok) {
-      throw new Error(`Failed to upload file: ${uploadResponse.status} ${uploadResponse.statusText}`);
-    }
+    await deviceFarm.sendUploadContent(upload, fileBuffer);
     
     console.log('File uploaded to S3, waiting for processing...');
     
@@ -226,8 +179,7 @@ async function uploadToDeviceFarm(client: DeviceFarmClient, projectArn: string,
       await new Promise(resolve => setTimeout(resolve, 2000));
       attempts++;
       
-      const getUploadCommand = new GetUploadCommand({ arn: upload.arn });
-      const { upload: currentUpload } = await client.send(getUploadCommand);
+      const { upload: currentUpload } = await deviceFarm.getUpload({ arn: upload.arn });
       uploadStatus = currentUpload?.status || 'FAILED';
       console.log(`Upload status check ${attempts}/${maxAttempts}: ${uploadStatus}`);
     }
@@ -245,31 +197,50 @@ async function uploadToDeviceFarm(client: DeviceFarmClient, projectArn: string,
   }
 }
 
+// Spec files with tests the run would execute, weighted by how many, for sharding
+async function getShardableSpecs(projectRoot: string, tagExpression?: string): Promise<WeightedSpec[]> {
+  const expression = tagExpression ? combineTagExpressions([tagExpression]) : null;
+  const testFiles = await discoverTestFiles(path.join(projectRoot, 'test'), projectRoot);
+  
+  return testFiles
+    .map(file => ({
+      path: file.path,
+      weight: getRunnableTests(file.suites)
+        .filter(test => !expression || matchesTagExpression(expression, test.tags))
+        .length
+    }))
+    .filter(spec => spec.weight > 0);
+}
+
 // Background processing function for local Device Farm calls
 async function processDeviceFarmDirectly(jobId: string, params: any) {
   const { 
     projectArn,
     devicePoolArn,
+    deviceArns,
+    shard,
     platform,
     buildPath,
     testSpecPath,
     testType,
     testMode,
     test,
-    testCase
+    testCase,
+    tagExpression,
+    triggeredBy
   } = params;
 
   try {
     console.log(`[${jobId}] Starting Device Farm processing...`);
     
-    const client = getDeviceFarmClient();
+    const deviceFarm = getDeviceFarmBackend();
     const projectRoot = path.join(process.cwd(), '..');
     
     // Upload app
     console.log(`[${jobId}] Uploading app to Device Farm...`);
     const appPath = path.join(projectRoot, buildPath);
     const appArn = await uploadToDeviceFarm(
-      client, 
+      deviceFarm,
       projectArn, 
       appPath, 
       platform === 'android' ? 'ANDROID_APP' : 'IOS_APP'
@@ -295,7 +266,8 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
     // List files before zipping to verify Device Farm config exists
     await execAsync('ls -la config/', { cwd: projectRoot });
     
-    await execAsync('zip -r test-bundle.zip test/ config/ package.json tsconfig.json', {
+    // services/ and types/ are needed by the shared wdio config (results reporter, quarantine list)
+    await execAsync('zip -r test-bundle.zip test/ config/ services/ types/ scripts/check-results.ts package.json tsconfig.json', {
       cwd: projectRoot
     });
     
@@ -307,16 +279,19 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
     
     // Force fresh upload of test package (no caching)
     const testPackageArn = await uploadToDeviceFarmNoCache(
-      client,
+      deviceFarm,
       projectArn,
       testPackagePath,
       'APPIUM_NODE_TEST_PACKAGE'
     );
     
-    // Create dynamic test spec with test parameters
-    let testSpecArn;
-    if (testSpecPath) {
-      console.log(`[${jobId}] Creating dynamic test spec with parameters...`);
+    // Create a dynamic test spec with the test parameters (and a shard's spec files)
+    const createTestSpec = async (specs?: string[], suffix = ''): Promise<string | undefined> => {
+      if (!testSpecPath) {
+        return undefined;
+      }
+      
+      console.log(`[${jobId}] Creating dynamic test spec${suffix} with parameters...`);
       
       // Use platform-specific test spec template
       let specPath;
@@ -353,6 +328,12 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
           } else {
             testParamsCommands += `      - export TEST_MODE="full"\n`;
           }
+          if (tagExpression) {
+            testParamsCommands += `      - export WDIO_TAG="${tagExpression}"\n`;
+          }
+          if (specs) {
+            testParamsCommands += `      - export WDIO_SPECS="${specs.join(',')}"\n`;
+          }
           testParamsCommands += '      - echo "=== Injected Test Parameters (Android) ==="\n';
           testParamsCommands += '      - echo TEST_MODE=$TEST_MODE\n';
           testParamsCommands += '      - echo SELECTED_TEST=$SELECTED_TEST\n';
@@ -380,6 +361,12 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
           } else {
             exportCommands += `      - export TEST_MODE="full"\n`;
           }
+          if (tagExpression) {
+            exportCommands += `      - export WDIO_TAG="${tagExpression}"\n`;
+          }
+          if (specs) {
+            exportCommands += `      - export WDIO_SPECS="${specs.join(',')}"\n`;
+          }
           exportCommands += '      - echo "=== Injected Test Parameters ==="\n';
           exportCommands += '      - echo TEST_MODE=$TEST_MODE\n';
           exportCommands += '      - echo SELECTED_TEST=$SELECTED_TEST\n';
@@ -400,22 +387,49 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
       }
       
       // Save the dynamic test spec
-      const dynamicSpecPath = path.join(projectRoot, 'device-farm-testspec-dynamic.yml');
+      const dynamicSpecPath = path.join(projectRoot, `device-farm-testspec-dynamic${suffix}.yml`);
       await fs.writeFile(dynamicSpecPath, dynamicTestSpec);
       console.log(`[${jobId}] Dynamic test spec created with parameters`);
       
       // Upload the dynamic test spec (force fresh upload)
-      testSpecArn = await uploadToDeviceFarmNoCache(
-        client,
+      return uploadToDeviceFarmNoCache(
+        deviceFarm,
         projectArn,
         dynamicSpecPath,
         'APPIUM_NODE_TEST_SPEC'
       );
+    };
+    
+    // One run on the selected pool (every device runs everything), or with sharding
+    // one single-device run per shard so each device only gets its share of the specs
+    const shardDevices = shard && testMode !== 'single'
+      ? deviceArns?.length
+        ? deviceArns
+        : (await resolveDevicePoolDevices(devicePoolArn, deviceFarm)).map(device => device.arn!)
+      : [];
+    
+    let targets: { devicePoolArn: string; specs?: string[]; suffix: string }[];
+    if (shardDevices.length > 1) {
+      const shards = shardSpecs(await getShardableSpecs(projectRoot, tagExpression), shardDevices.length);
+      if (shards.length === 0) {
+        throw new Error('No tests match the selection, so there is nothing to shard');
+      }
+      
+      console.log(`[${jobId}] Sharding ${shards.flat().length} spec files across ${shards.length} devices`);
+      targets = [];
+      for (const [index, specs] of shards.entries()) {
+        targets.push({
+          devicePoolArn: await createDevicePoolForDevices(projectArn, [shardDevices[index]], deviceFarm),
+          specs,
+          suffix: `-shard-${index + 1}`
+        });
+      }
+    } else if (deviceArns?.length) {
+      targets = [{ devicePoolArn: await createDevicePoolForDevices(projectArn, deviceArns, deviceFarm), suffix: '' }];
+    } else {
+      targets = [{ devicePoolArn, suffix: '' }];
     }
     
-    // Schedule the run
-    console.log(`[${jobId}] Scheduling test run...`);
-    
     // Log what mode we're running in
     if (testMode === 'single' && test) {
       console.log(`[${jobId}] Running single test: ${test}${testCase ? ` - ${testCase}` : ''}`);
@@ -423,56 +437,77 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
       console.log(`[${jobId}] Running full test suite`);
     }
     
-    const scheduleRunCommand = new ScheduleRunCommand({
-      projectArn,
-      appArn,
-      devicePoolArn,
-      name: `Test Run - ${new Date().toISOString()}`,
-      test: {
-        type: testType as TestType,
-        testPackageArn,
-        testSpecArn
+    const runArns: string[] = [];
+    const deviceRuns: DeviceRunSummary[] = [];
+    for (const [index, target] of targets.entries()) {
+      const testSpecArn = await createTestSpec(target.specs, target.suffix);
+      
+      // Schedule the run
+      const shardLabel = targets.length > 1 ? ` (shard ${index + 1}/${targets.length})` : '';
+      console.log(`[${jobId}] Scheduling test run${shardLabel}...`);
+      
+      const { run } = await deviceFarm.scheduleRun({
+        projectArn,
+        appArn,
+        devicePoolArn: target.devicePoolArn,
+        name: `Test Run - ${new Date().toISOString()}${shardLabel}`,
+        test: {
+          type: testType as TestType,
+          testPackageArn,
+          testSpecArn
+        }
+      });
+      
+      if (!run?.arn) {
+        throw new Error('Failed to schedule run');
       }
-    });
-    
-    const { run } = await client.send(scheduleRunCommand);
-    
-    if (!run?.arn) {
-      throw new Error('Failed to schedule run');
+      
+      console.log(`[${jobId}] Device Farm run scheduled successfully: ${run.arn}`);
+      runArns.push(run.arn);
+      const targetDeviceRuns = await listDeviceRuns(run.arn, target.specs, deviceFarm);
+      deviceRuns.push(...targetDeviceRuns.map(deviceRun => ({ ...deviceRun, testSpecArn, attempt: 1 })));
     }
     
-    console.log(`[${jobId}] Device Farm run scheduled successfully: ${run.arn}`);
-    
-    // Save to test history
+    // Save to test history, as one entry however many devices and runs it took
     try {
       const testName = testMode === 'single' && test ? 
         test.split('/').pop()?.replace('.e2e.ts', '') || 'Device Farm Test' : 
         'Full Test Suite';
       
       const historyEntry = {
-        id: run.arn?.split('/').pop() || jobId,
+        id: runArns[0].split('/').pop() || jobId,
         name: testName,
         status: 'RUNNING',
         created: new Date().toISOString(),
-        device: 'AWS Device Farm',
+        device: deviceRuns.length === 1 
+          ? deviceRuns[0].deviceName 
+          : deviceRuns.length > 1 ? `${deviceRuns.length} devices` : 'AWS Device Farm',
         platform: platform === 'android' ? 'android' : 'ios',
         build: buildPath.split('/').pop() || 'app.apk',
-        runArn: run.arn,
+        runArn: runArns[0],
         isDeviceFarm: true,
         testMode,
         test: test || null,
-        testCase: testCase || null
+        testCase: testCase || null,
+        deviceRuns,
+        triggeredBy,
+        ...getBuildDetails(buildPath, path.join(projectRoot, '.bitrise-cache')),
+        deviceFarmSchedule: {
+          projectArn,
+          appArn,
+          testPackageArn,
+          testType,
+          devicePoolArn,
+          name: `Test Run - ${testName}`
+        }
       };
       
-      await fetch(`http://localhost:3002/api/test/history`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(historyEntry)
-      });
+      const { run: saved } = getRunStore().upsertRun(historyEntry);
+      // The watcher keeps the entry up to date from here and pushes changes to the browser
+      getRunWatcher().watch(saved.id);
     } catch (error) {
       console.error(`[${jobId}] Failed to save to history:`, error);
     }
-    
   } catch (error) {
     console.error(`[${jobId}] Device Farm processing failed:`, error);
     throw error;
@@ -481,36 +516,79 @@ async function processDeviceFarmDirectly(jobId: string, params: any) {
 
 export async function POST(request: Request) {
   try {
+    const { projectArn } = getAwsConfig().deviceFarm;
+    if (!projectArn) {
+      return NextResponse.json({ 
+        error: 'DEVICE_FARM_PROJECT_ARN not configured' 
+      }, { status: 503 });
+    }
+
     const body = await request.json();
     const { 
-      projectArn,
       devicePoolArn,
+      deviceArns,
+      shard = false,
       platform,
       buildPath,
       testSpecPath,
       testType = 'APPIUM_NODE',
       testMode,
       testSuite: test, // Rename for compatibility with original code
-      testCase
+      testCase,
+      tags,
+      triggeredBy
     } = body;
     
-    if (!projectArn || !devicePoolArn || !buildPath) {
+    // Either a device pool, or the devices to build one from (required for sharding across a picked set)
+    const hasDevices = Array.isArray(deviceArns) && deviceArns.length > 0;
+    if ((!devicePoolArn && !hasDevices) || !buildPath) {
       return NextResponse.json({ 
         error: 'Missing required parameters' 
       }, { status: 400 });
     }
+    
+    // Tags are tag expressions, and-ed together; the device runs them through WDIO_TAG
+    let tagExpression: string | undefined;
+    try {
+      const expression = combineTagExpressions(Array.isArray(tags) ? tags : tags ? [tags] : []);
+      // The canonical form only uses tags, words and parentheses, so it is safe inside the testspec's quotes
+      tagExpression = expression ? formatTagExpression(expression) : undefined;
+    } catch (error) {
+      if (error instanceof TagExpressionError) {
+        return NextResponse.json({ 
+          error: `Invalid tag expression: ${error.message}` 
+        }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Device minutes are only known once runs finish, so this month's finished runs decide
+    const { budget } = getMonthlyUsage();
+    if (budget?.exceeded && budget.blocksRuns) {
+      return NextResponse.json({ 
+        error: `Monthly Device Farm budget exceeded: $${budget.spent.toFixed(2)} of $${budget.limit.toFixed(2)} spent`,
+        budget
+      }, { status: 403 });
+    }
 
     // Check if this is running on AWS deployment (has API URL)
     const isAWSDeployment = Boolean(process.env.NEXT_PUBLIC_API_URL);
     
     if (isAWSDeployment) {
+      // The Lambda schedules a single run on a single pool
+      if (shard || hasDevices) {
+        return NextResponse.json({ 
+          error: 'Multi-device and sharded runs are scheduled by the runner itself and are not supported through the Lambda' 
+        }, { status: 400 });
+      }
+      
       // AWS deployment - proxy to Lambda which is already async
       console.log('AWS deployment detected - proxying to Lambda...');
       try {
         const lambdaResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/device-farm/run`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body)
+          body: JSON.stringify({ ...body, projectArn, tags: tagExpression ? [tagExpression] : [] })
         });
         
         const lambdaData = await lambdaResponse.json();
@@ -531,13 +609,17 @@ export async function POST(request: Request) {
     processDeviceFarmDirectly(jobId, {
       projectArn,
       devicePoolArn,
+      deviceArns: hasDevices ? deviceArns : undefined,
+      shard: Boolean(shard),
       platform,
       buildPath,
       testSpecPath,
       testType,
       testMode,
       test,
-      testCase
+      testCase,
+      tagExpression,
+      triggeredBy: getRunRequester(request, triggeredBy)
     }).catch(error => {
       console.error(`Background Device Farm processing failed for job ${jobId}:`, error);
     });
@@ -570,9 +652,7 @@ export async function GET(request: Request) {
   }
   
   try {
-    const client = getDeviceFarmClient();
-    const command = new GetRunCommand({ arn: runArn });
-    const { run } = await client.send(command);
+    const { run } = await getDeviceFarmBackend().getRun({ arn: runArn });
     
     return NextResponse.json({
       status: run?.status,
@@ -1,49 +1,26 @@
 import { NextResponse } from 'next/server';
-import { 
-  DeviceFarmClient,
-  ListRunsCommand,
-  GetRunCommand
-} from '@aws-sdk/client-device-farm';
-
-const getDeviceFarmClient = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    }
-  });
-};
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { getAwsConfig } from '../../../../../services/aws/aws.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
+import { refreshRunEntry } from '../../../../../services/device-farm/device-farm-runs.service';
 
 export async function GET() {
   try {
-    const projectArn = process.env.DEVICE_FARM_PROJECT_ARN;
+    const { projectArn } = getAwsConfig().deviceFarm;
     
     if (!projectArn) {
       return NextResponse.json({ 
         error: 'DEVICE_FARM_PROJECT_ARN not configured' 
-      }, { status: 500 });
+      }, { status: 503 });
     }
     
-    const client = getDeviceFarmClient();
+    const deviceFarm = getDeviceFarmBackend();
     
     // List all runs in the project
-    const listCommand = new ListRunsCommand({
+    const { runs } = await deviceFarm.listRuns({
       arn: projectArn
     });
     
-    const { runs } = await client.send(listCommand);
-    
     if (!runs || runs.length === 0) {
       return NextResponse.json({ 
         runningTests: [],
@@ -51,9 +28,26 @@ export async function GET() {
       });
     }
     
+    const store = getRunStore();
+    
+    // Runs of a multi-device entry are reported as that one entry, added up across its devices
+    const groupedEntries = store.listRuns({ isDeviceFarm: true }).filter(entry => entry.deviceRuns?.length);
+    const groupedRunArns = new Set(groupedEntries.flatMap(entry => entry.deviceRuns!.map(deviceRun => deviceRun.runArn)));
+    const runningGroups = [];
+    for (const entry of groupedEntries.filter(entry => entry.status !== 'COMPLETED')) {
+      try {
+        const updated = store.updateRun(entry.id, await refreshRunEntry(entry, deviceFarm));
+        if (updated && updated.status !== 'COMPLETED') {
+          runningGroups.push(updated);
+        }
+      } catch (error) {
+        console.error(`Failed to refresh multi-device run ${entry.id}:`, error);
+      }
+    }
+    
     // Filter for running tests (not completed)
-    const runningTests = runs.filter(run => 
-      run.status !== 'COMPLETED'
+    const runningRuns = runs.filter(run => 
+      run.status !== 'COMPLETED' && !(run.arn && groupedRunArns.has(run.arn))
     ).map(run => ({
       id: run.arn?.split('/').pop() || `df-${Date.now()}`,
       name: run.name || 'Device Farm Test',
@@ -68,45 +62,28 @@ export async function GET() {
       counters: run.counters ? {
         passed: run.counters.passed || 0,
         failed: run.counters.failed || 0,
+        broken: 0,
         skipped: run.counters.skipped || 0,
         total: run.counters.total || 0
       } : undefined
     }));
     
     // If we have running tests, also save them to history
-    if (runningTests.length > 0) {
+    if (runningRuns.length > 0) {
       try {
-        const historyPath = require('path').join(process.cwd(), 'test-history.json');
-        const fs = require('fs').promises;
-        
-        // Load existing history
-        let history = [];
-        try {
-          const data = await fs.readFile(historyPath, 'utf-8');
-          history = JSON.parse(data);
-        } catch {
-          // File doesn't exist yet
-        }
-        
         // Update or add running tests to history
-        for (const test of runningTests) {
-          const existingIndex = history.findIndex((h: any) => h.runArn === test.runArn);
-          if (existingIndex >= 0) {
-            // Update existing entry
-            history[existingIndex] = { ...history[existingIndex], ...test };
-          } else {
-            // Add new entry
-            history.unshift(test);
+        store.transaction(() => {
+          for (const test of runningRuns) {
+            store.upsertRun(test);
           }
-        }
-        
-        // Save updated history
-        await fs.writeFile(historyPath, JSON.stringify(history, null, 2));
+        });
       } catch (error) {
         console.error('Failed to update history:', error);
       }
     }
     
+    const runningTests = [...runningGroups, ...runningRuns];
+    
     return NextResponse.json({ 
       runningTests,
       message: `Found ${runningTests.length} running tests`
@@ -1,49 +1,7 @@
 import { NextResponse } from 'next/server';
-import { 
-  DeviceFarmClient,
-  GetRunCommand,
-  ListJobsCommand
-} from '@aws-sdk/client-device-farm';
-import { promises as fs } from 'fs';
-import path from 'path';
-
-const getDeviceFarmClient = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
-
-// Load and save history functions
-const getHistoryPath = () => {
-  return path.join(process.cwd(), 'test-history.json');
-};
-
-async function loadHistory() {
-  try {
-    const data = await fs.readFile(getHistoryPath(), 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
-  }
-}
-
-async function saveHistory(history: any[]) {
-  await fs.writeFile(getHistoryPath(), JSON.stringify(history, null, 2));
-}
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
+import { refreshRunEntry, summarizeRun } from '../../../../../services/device-farm/device-farm-runs.service';
 
 // GET endpoint to check Device Farm run status and update history
 export async function GET(request: Request) {
@@ -67,9 +25,8 @@ export async function GET(request: Request) {
   }
   
   try {
-    const client = getDeviceFarmClient();
-    const command = new GetRunCommand({ arn: runArn });
-    const { run } = await client.send(command);
+    const deviceFarm = getDeviceFarmBackend();
+    const { run } = await deviceFarm.getRun({ arn: runArn });
     
     if (!run) {
       return NextResponse.json({ 
@@ -77,39 +34,37 @@ export async function GET(request: Request) {
       }, { status: 404 });
     }
     
+    // Multi-device entries add up every device, which may span several runs when sharded
+    const store = getRunStore();
+    const groupedEntry = store.findRunByArn(runArn);
+    if (groupedEntry?.deviceRuns?.length) {
+      const summary = await refreshRunEntry(groupedEntry, deviceFarm);
+      const deviceRuns = summary.deviceRuns || [];
+      store.updateRun(groupedEntry.id, summary);
+      
+      return NextResponse.json({
+        status: summary.status,
+        result: summary.result,
+        counters: summary.counters,
+        totalJobs: deviceRuns.length,
+        completedJobs: deviceRuns.filter(deviceRun => deviceRun.status === 'COMPLETED').length,
+        deviceRuns,
+        retries: summary.retries,
+        stopped: summary.stopped,
+        deviceMinutes: summary.deviceMinutes,
+        estimatedCost: summary.estimatedCost
+      });
+    }
+    
     // Update history if run is completed
     if (run.status === 'COMPLETED') {
       try {
-        const history = await loadHistory();
         const runId = runArn.split('/').pop();
-        const entryIndex = history.findIndex((entry: any) => 
-          entry.id === runId || entry.runArn === runArn
-        );
+        const entry = store.findRunByArn(runArn) || (runId ? store.getRun(runId) : null);
         
-        if (entryIndex !== -1) {
-          // Calculate duration
-          let duration = 0;
-          if (run.started && run.stopped) {
-            duration = Math.round((new Date(run.stopped).getTime() - new Date(run.started).getTime()) / 1000);
-          }
-          
-          // Update the entry
-          history[entryIndex] = {
-            ...history[entryIndex],
-            status: 'COMPLETED',
-            result: run.result || 'PASSED',
-            duration,
-            counters: run.counters ? {
-              passed: run.counters.passed || 0,
-              failed: run.counters.failed || 0,
-              skipped: run.counters.skipped || 0,
-              total: run.counters.total || 0
-            } : undefined,
-            hasAllureReport: true, // Device Farm tests generate Allure reports
-            stopped: run.stopped
-          };
-          
-          await saveHistory(history);
+        if (entry) {
+          // Update the entry (the testspec already excuses quarantined failures, see scripts/check-results.ts)
+          store.updateRun(entry.id, summarizeRun(run));
         }
       } catch (error) {
         console.error('Failed to update history:', error);
@@ -138,9 +93,9 @@ export async function GET(request: Request) {
 // POST endpoint to poll and update all running Device Farm tests
 export async function POST() {
   try {
-    const history = await loadHistory();
-    const runningTests = history.filter((entry: any) => 
-      entry.isDeviceFarm && entry.status !== 'COMPLETED' && entry.runArn
+    const store = getRunStore();
+    const runningTests = store.listRuns({ isDeviceFarm: true }).filter(entry => 
+      entry.status !== 'COMPLETED' && entry.runArn
     );
     
     if (runningTests.length === 0) {
@@ -150,39 +105,25 @@ export async function POST() {
       });
     }
     
-    const client = getDeviceFarmClient();
+    const deviceFarm = getDeviceFarmBackend();
     let updatedCount = 0;
     
     for (const test of runningTests) {
       try {
-        const command = new GetRunCommand({ arn: test.runArn });
-        const { run } = await client.send(command);
+        if (test.deviceRuns?.length) {
+          if (store.updateRun(test.id, await refreshRunEntry(test, deviceFarm))) {
+            updatedCount++;
+          }
+          continue;
+        }
+        
+        const { run } = await deviceFarm.getRun({ arn: test.runArn });
         
         if (run) {
-          const entryIndex = history.findIndex((entry: any) => entry.id === test.id);
+          // Update the entry with the latest status
+          const updated = store.updateRun(test.id, summarizeRun(run));
           
-          if (entryIndex !== -1) {
-            let duration = 0;
-            if (run.started && run.stopped) {
-              duration = Math.round((new Date(run.stopped).getTime() - new Date(run.started).getTime()) / 1000);
-            }
-            
-            // Update the entry with the latest status
-            history[entryIndex] = {
-              ...history[entryIndex],
-              status: run.status || 'UNKNOWN',
-              result: run.result || (run.status === 'COMPLETED' ? 'PASSED' : undefined),
-              duration: run.status === 'COMPLETED' ? duration : undefined,
-              counters: run.counters ? {
-                passed: run.counters.passed || 0,
-                failed: run.counters.failed || 0,
-                skipped: run.counters.skipped || 0,
-                total: run.counters.total || 0
-              } : history[entryIndex].counters,
-              hasAllureReport: run.status === 'COMPLETED',
-              stopped: run.stopped
-            };
-            
+          if (updated) {
             updatedCount++;
           }
         }
@@ -191,10 +132,6 @@ export async function POST() {
       }
     }
     
-    if (updatedCount > 0) {
-      await saveHistory(history);
-    }
-    
     return NextResponse.json({ 
       message: `Updated ${updatedCount} Device Farm test(s)`,
       updated: updatedCount
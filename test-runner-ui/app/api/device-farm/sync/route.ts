@@ -1,51 +1,28 @@
 import { NextResponse } from 'next/server';
-import { 
-  DeviceFarmClient,
-  ListRunsCommand
-} from '@aws-sdk/client-device-farm';
-import { promises as fs } from 'fs';
-import path from 'path';
-
-const getDeviceFarmClient = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    }
-  });
-};
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { getAwsConfig } from '../../../../../services/aws/aws.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
+import { refreshRunEntry } from '../../../../../services/device-farm/device-farm-runs.service';
+import { describeUsage, toDeviceMinutes } from '../../../../../services/device-farm/device-farm-usage.service';
 
 // GET endpoint to sync all Device Farm tests with history
 export async function GET() {
   try {
-    const projectArn = process.env.DEVICE_FARM_PROJECT_ARN;
+    const { projectArn } = getAwsConfig().deviceFarm;
     
     if (!projectArn) {
       return NextResponse.json({ 
         error: 'DEVICE_FARM_PROJECT_ARN not configured' 
-      }, { status: 500 });
+      }, { status: 503 });
     }
     
-    const client = getDeviceFarmClient();
+    const deviceFarm = getDeviceFarmBackend();
     
     // List all runs in the project
-    const listCommand = new ListRunsCommand({
+    const { runs } = await deviceFarm.listRuns({
       arn: projectArn
     });
     
-    const { runs } = await client.send(listCommand);
-    
     if (!runs || runs.length === 0) {
       return NextResponse.json({ 
         message: 'No tests found in Device Farm',
@@ -53,30 +30,30 @@ export async function GET() {
       });
     }
     
-    // Load existing history
-    const historyPath = path.join(process.cwd(), 'test-history.json');
-    let history = [];
-    try {
-      const data = await fs.readFile(historyPath, 'utf-8');
-      history = JSON.parse(data);
-    } catch {
-      // File doesn't exist yet
-    }
-    
+    const store = getRunStore();
     let syncedCount = 0;
     let addedCount = 0;
     
+    // Multi-device entries own several runs (one per shard); they are refreshed as a whole
+    const groupedEntries = store.listRuns({ isDeviceFarm: true }).filter(entry => entry.deviceRuns?.length);
+    const groupedRunArns = new Set(groupedEntries.flatMap(entry => entry.deviceRuns!.map(deviceRun => deviceRun.runArn)));
+    for (const entry of groupedEntries.filter(entry => entry.status !== 'COMPLETED')) {
+      try {
+        store.updateRun(entry.id, await refreshRunEntry(entry, deviceFarm));
+        syncedCount++;
+      } catch (error) {
+        console.error(`Failed to refresh multi-device run ${entry.id}:`, error);
+      }
+    }
+    
     // Filter to only completed runs
-    const completedRuns = runs.filter(run => run.status === 'COMPLETED');
+    const completedRuns = runs.filter(run => run.status === 'COMPLETED' && !(run.arn && groupedRunArns.has(run.arn)));
     
     console.log(`Found ${runs.length} total runs, ${completedRuns.length} completed runs`);
     
     // Process each completed Device Farm run
     for (const run of completedRuns) {
       const runId = run.arn?.split('/').pop() || `df-${Date.now()}`;
-      const existingIndex = history.findIndex((h: any) => 
-        h.runArn === run.arn || h.id === runId
-      );
       
       const duration = run.started && run.stopped
         ? Math.round((new Date(run.stopped).getTime() - new Date(run.started).getTime()) / 1000)
@@ -103,40 +80,33 @@ export async function GET() {
           total: run.counters.total || 0,
           broken: 0
         } : undefined,
-        hasAllureReport: run.status === 'COMPLETED'
+        hasAllureReport: run.status === 'COMPLETED',
+        ...describeUsage(toDeviceMinutes(run.deviceMinutes))
       };
       
-      if (existingIndex >= 0) {
-        // Update existing entry
-        history[existingIndex] = {
-          ...history[existingIndex],
-          ...historyEntry,
-          // Preserve some fields from the original entry
-          name: history[existingIndex].name || historyEntry.name,
-          test: history[existingIndex].test,
-          testCase: history[existingIndex].testCase
-        };
-        syncedCount++;
-      } else {
-        // Add new entry at the beginning
-        history.unshift(historyEntry);
-        addedCount++;
-      }
-    }
-    
-    // Sort by created date (newest first)
-    history.sort((a: any, b: any) => 
-      new Date(b.created).getTime() - new Date(a.created).getTime()
-    );
-    
-    // Limit history to 100 entries
-    if (history.length > 100) {
-      history = history.slice(0, 100);
+      store.transaction(() => {
+        const existing = (run.arn && store.findRunByArn(run.arn)) || store.getRun(runId);
+        
+        if (existing) {
+          // Update existing entry
+          store.saveRun({
+            ...existing,
+            ...historyEntry,
+            id: existing.id,
+            // Preserve some fields from the original entry
+            name: existing.name || historyEntry.name,
+            test: existing.test,
+            testCase: existing.testCase
+          });
+          syncedCount++;
+        } else {
+          store.saveRun(historyEntry);
+          addedCount++;
+        }
+      });
     }
     
-    // Save updated history
-    await fs.writeFile(historyPath, JSON.stringify(history, null, 2));
-    
+
     return NextResponse.json({ 
       message: `Synced ${syncedCount} and added ${addedCount} completed Device Farm tests`,
       synced: syncedCount,
@@ -1,43 +1,12 @@
 import { NextResponse } from 'next/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { GetObjectCommand } from '@aws-sdk/client-s3';
 import { Readable } from 'stream';
 import * as yauzl from 'yauzl';
 import * as fs from 'fs';
 import * as path from 'path';
-
-const getS3Client = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new S3Client({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new S3Client({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
-
-// Extract test names from JavaScript/TypeScript content
-function extractTestsFromContent(content: string): string[] {
-  // Extract test names from it() and it.only() blocks
-  const testPattern = /it(?:\.only)?\s*\(\s*['"`]([^'"`]+)['"`]/g;
-  const tests: string[] = [];
-  let match;
-  
-  while ((match = testPattern.exec(content)) !== null) {
-    tests.push(match[1]);
-  }
-  
-  return tests;
-}
+import { TestNode } from '../../../../../types';
+import { flattenTests, parseTestFile } from '../../../../../services/test-discovery/test-discovery.service';
+import { getAwsConfig, getS3Client } from '../../../../../services/aws/aws.service';
 
 // Get suite name from file path
 function getSuiteName(filePath: string): string {
@@ -52,8 +21,8 @@ function getSuiteName(filePath: string): string {
 
 export async function GET(): Promise<NextResponse> {
   try {
-    const s3Client = getS3Client();
-    const bucketName = process.env.TESTS_BUCKET_NAME || 'vault22-tests';
+    const s3Client = getS3Client('tests');
+    const bucketName = getAwsConfig().buckets.tests.name;
     const testPackageKey = 'device-farm-test-package.zip';
     
     console.log(`Fetching test package from S3: ${bucketName}/${testPackageKey}`);
@@ -80,6 +49,7 @@ export async function GET(): Promise<NextResponse> {
     
     // Parse the ZIP file and extract test information
     const testSuites: { [key: string]: string[] } = {};
+    const suiteTrees: { [key: string]: TestNode[] } = {};
     
     return new Promise<NextResponse>((resolve, reject) => {
       yauzl.fromBuffer(zipBuffer, { lazyEntries: true }, (err, zipfile) => {
@@ -110,11 +80,13 @@ export async function GET(): Promise<NextResponse> {
               readStream.on('data', (chunk: Buffer) => chunks.push(chunk));
               readStream.on('end', () => {
                 const content = Buffer.concat(chunks).toString('utf-8');
-                const tests = extractTestsFromContent(content);
+                const suites = parseTestFile(content, entry.fileName);
+                const tests = flattenTests(suites).map(test => test.title);
                 const suiteName = getSuiteName(entry.fileName);
                 
                 if (tests.length > 0) {
                   testSuites[suiteName] = tests;
+                  suiteTrees[suiteName] = suites;
                 }
                 
                 zipfile.readEntry();
@@ -131,7 +103,7 @@ export async function GET(): Promise<NextResponse> {
         
         zipfile.on('end', () => {
           console.log('Found test suites:', Object.keys(testSuites));
-          resolve(NextResponse.json({ testSuites }));
+          resolve(NextResponse.json({ testSuites, suiteTrees }));
         });
         
         zipfile.on('error', (err: any) => {
@@ -1,42 +1,7 @@
 import { NextResponse } from 'next/server';
-import { 
-  DeviceFarmClient,
-  ListArtifactsCommand,
-  ArtifactCategory
-} from '@aws-sdk/client-device-farm';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
-import fetch from 'node-fetch';
-
-const getDeviceFarmClient = () => {
-  const awsProfile = process.env.AWS_PROFILE;
-  
-  if (awsProfile) {
-    process.env.AWS_PROFILE = awsProfile;
-    return new DeviceFarmClient({
-      region: process.env.AWS_REGION || 'us-west-2'
-    });
-  }
-  
-  return new DeviceFarmClient({
-    region: process.env.AWS_REGION || 'us-west-2',
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
-
-const getS3Client = () => {
-  return new S3Client({
-    region: 'eu-west-1', // Reports bucket is in eu-west-1
-    credentials: process.env.AWS_ACCESS_KEY_ID ? {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      sessionToken: process.env.AWS_SESSION_TOKEN
-    } : undefined
-  });
-};
+import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { getAwsConfig, getBucketObjectUrl, getS3Client } from '../../../../../services/aws/aws.service';
+import { getDeviceFarmBackend } from '../../../../../services/device-farm/device-farm.service';
 
 export async function POST(request: Request) {
   try {
@@ -50,17 +15,15 @@ export async function POST(request: Request) {
     
     console.log('Starting S3 upload for Device Farm run:', runArn);
     
-    const deviceFarmClient = getDeviceFarmClient();
-    const s3Client = getS3Client();
+    const deviceFarm = getDeviceFarmBackend();
+    const s3Client = getS3Client('reports');
     
     // List artifacts for the run
-    const listCommand = new ListArtifactsCommand({
+    const { artifacts } = await deviceFarm.listArtifacts({
       arn: runArn,
-      type: 'FILE' as ArtifactCategory
+      type: 'FILE'
     });
     
-    const { artifacts } = await deviceFarmClient.send(listCommand);
-    
     if (!artifacts || artifacts.length === 0) {
       return NextResponse.json({ 
         error: 'No artifacts found for this run'
@@ -81,12 +44,7 @@ export async function POST(request: Request) {
     console.log('Found Allure report, downloading:', allureReport.name);
     
     // Download the HTML report
-    const response = await fetch(allureReport.url);
-    if (!response.ok) {
-      throw new Error(`Failed to download report: ${response.statusText}`);
-    }
-    
-    const htmlContent = await response.buffer();
+    const htmlContent = await deviceFarm.downloadArtifact(allureReport.url);
     
     // Generate S3 key
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
@@ -97,7 +55,7 @@ export async function POST(request: Request) {
     
     // Upload to S3
     const putCommand = new PutObjectCommand({
-      Bucket: 'vault22-test-reports',
+      Bucket: getAwsConfig().buckets.reports.name,
       Key: s3Key,
       Body: htmlContent,
       ContentType: 'text/html',
@@ -110,7 +68,7 @@ export async function POST(request: Request) {
     
     await s3Client.send(putCommand);
     
-    const s3Url = `https://vault22-test-reports.s3.eu-west-1.amazonaws.com/${s3Key}`;
+    const s3Url = getBucketObjectUrl('reports', s3Key);
     
     console.log('✅ Report uploaded successfully:', s3Url);
     
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getMonthlyUsage } from '../../../../../services/device-farm/device-farm-usage.service';
+
+// Device minutes and estimated cost for a month (default: the current one), per user and branch, with the budget
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const month = searchParams.get('month') || undefined;
+
+  if (month && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    return NextResponse.json({
+      error: 'month must look like 2025-01'
+    }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(getMonthlyUsage(month));
+  } catch (error: any) {
+    console.error('Failed to read Device Farm usage:', error);
+    return NextResponse.json({
+      error: error.message
+    }, { status: 500 });
+  }
+}
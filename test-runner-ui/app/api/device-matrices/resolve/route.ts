@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { DeviceMatrixRules } from '../../../../../types';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import {
+  DeviceMatrixError,
+  resolveDeviceMatrix,
+  toDeviceFarmDevice,
+  validateDeviceMatrix
+} from '../../../../../services/device-matrix/device-matrix.service';
+
+async function resolveResponse(rules: DeviceMatrixRules) {
+  const devices = (await resolveDeviceMatrix(rules)).map(toDeviceFarmDevice);
+  return NextResponse.json({
+    deviceCount: devices.length,
+    devices
+  });
+}
+
+// The devices a saved matrix selects right now
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json({
+      error: 'Missing id parameter'
+    }, { status: 400 });
+  }
+
+  const matrix = getRunStore().getDeviceMatrix(id);
+  if (!matrix) {
+    return NextResponse.json({
+      error: 'Device matrix not found'
+    }, { status: 404 });
+  }
+
+  try {
+    return await resolveResponse(matrix.rules);
+  } catch (error: any) {
+    console.error(`Failed to resolve device matrix "${matrix.name}":`, error);
+    return NextResponse.json({
+      error: error.message
+    }, { status: 500 });
+  }
+}
+
+// Preview the devices a matrix would select before saving it
+export async function POST(request: Request) {
+  try {
+    const { rules } = await request.json();
+    const input = validateDeviceMatrix({ name: 'Preview', rules });
+    return await resolveResponse(input.rules);
+  } catch (error: any) {
+    if (error instanceof DeviceMatrixError) {
+      return NextResponse.json({
+        error: error.message,
+        problems: error.problems
+      }, { status: 400 });
+    }
+    console.error('Failed to preview device matrix:', error);
+    return NextResponse.json({
+      error: error.message
+    }, { status: 500 });
+  }
+}
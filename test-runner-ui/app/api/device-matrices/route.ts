@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { getRunStore } from '../../../../services/run-store/run-store.service';
+import { DeviceMatrixError, validateDeviceMatrix } from '../../../../services/device-matrix/device-matrix.service';
+
+function invalidMatrixResponse(error: DeviceMatrixError) {
+  return NextResponse.json({
+    error: error.message,
+    problems: error.problems
+  }, { status: 400 });
+}
+
+function nameTakenResponse(name: string) {
+  return NextResponse.json({
+    error: `A device matrix named "${name}" already exists`
+  }, { status: 409 });
+}
+
+// List saved device matrices, optionally only those for one platform
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const platform = searchParams.get('platform');
+
+  const matrices = getRunStore().listDeviceMatrices()
+    .filter(matrix => !platform || matrix.rules.platform === platform);
+
+  return NextResponse.json({ matrices });
+}
+
+// Save a new device matrix
+export async function POST(request: Request) {
+  try {
+    const input = validateDeviceMatrix(await request.json());
+    const store = getRunStore();
+
+    if (store.findDeviceMatrixByName(input.name)) {
+      return nameTakenResponse(input.name);
+    }
+
+    const matrix = store.saveDeviceMatrix(`matrix-${Date.now()}`, input);
+    console.log(`📋 Saved device matrix "${matrix.name}"`);
+    return NextResponse.json({ matrix }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DeviceMatrixError) {
+      return invalidMatrixResponse(error);
+    }
+    console.error('Failed to save device matrix:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, { status: 500 });
+  }
+}
+
+// Replace a saved device matrix's name, description and rules
+export async function PUT(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json({
+      error: 'Missing id parameter'
+    }, { status: 400 });
+  }
+
+  try {
+    const input = validateDeviceMatrix(await request.json());
+    const store = getRunStore();
+
+    if (!store.getDeviceMatrix(id)) {
+      return NextResponse.json({
+        error: 'Device matrix not found'
+      }, { status: 404 });
+    }
+    const sameName = store.findDeviceMatrixByName(input.name);
+    if (sameName && sameName.id !== id) {
+      return nameTakenResponse(input.name);
+    }
+
+    const matrix = store.saveDeviceMatrix(id, input);
+    console.log(`📋 Updated device matrix "${matrix.name}"`);
+    return NextResponse.json({ matrix });
+  } catch (error) {
+    if (error instanceof DeviceMatrixError) {
+      return invalidMatrixResponse(error);
+    }
+    console.error('Failed to update device matrix:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json({
+      error: 'Missing id parameter'
+    }, { status: 400 });
+  }
+
+  if (!getRunStore().deleteDeviceMatrix(id)) {
+    return NextResponse.json({
+      error: 'Device matrix not found'
+    }, { status: 404 });
+  }
+
+  console.log(`📋 Deleted device matrix ${id}`);
+  return NextResponse.json({ deleted: id });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import path from 'path';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { RunComparisonService } from '../../../../../services/run-compare/run-compare.service';
+
+// GET endpoint diffing two runs test by test (base is the run that was good, head the one to check)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const baseId = searchParams.get('base');
+  const headId = searchParams.get('head');
+
+  if (!baseId || !headId) {
+    return NextResponse.json({
+      error: 'Missing base or head parameter'
+    }, { status: 400 });
+  }
+  if (baseId === headId) {
+    return NextResponse.json({
+      error: 'base and head must be different runs'
+    }, { status: 400 });
+  }
+
+  try {
+    const store = getRunStore();
+    const base = store.getRun(baseId);
+    const head = store.getRun(headId);
+    if (!base || !head) {
+      return NextResponse.json({
+        error: `Run not found: ${!base ? baseId : headId}`
+      }, { status: 404 });
+    }
+
+    const minDurationChangeMs = parseInt(searchParams.get('minDurationChangeMs') || '');
+    const minDurationChangePercent = parseFloat(searchParams.get('minDurationChangePercent') || '');
+    const comparisons = new RunComparisonService({
+      // Builds are downloaded from the main project, not from test-runner-ui
+      buildCacheDir: path.join(process.cwd(), '..', '.bitrise-cache'),
+      ...(!Number.isNaN(minDurationChangeMs) && { minDurationChangeMs }),
+      ...(!Number.isNaN(minDurationChangePercent) && { minDurationChangePercent })
+    });
+
+    return NextResponse.json(await comparisons.compare(base, head));
+  } catch (error: any) {
+    console.error('Failed to compare runs:', error);
+    return NextResponse.json({
+      error: error.message
+    }, { status: 500 });
+  }
+}
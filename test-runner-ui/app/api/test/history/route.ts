@@ -1,28 +1,15 @@
 import { NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
 
-// Store history in a JSON file (in production, use a database)
-const getHistoryPath = () => {
-  return path.join(process.cwd(), 'test-history.json');
-};
+// The store keeps every run, so the list is capped the way the history file used to be
+const DEFAULT_HISTORY_LIMIT = 100;
 
-async function loadHistory() {
+export async function GET(request: Request) {
   try {
-    const data = await fs.readFile(getHistoryPath(), 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
-  }
-}
-
-async function saveHistory(history: any[]) {
-  await fs.writeFile(getHistoryPath(), JSON.stringify(history, null, 2));
-}
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '') || DEFAULT_HISTORY_LIMIT;
 
-export async function GET() {
-  try {
-    const history = await loadHistory();
+    const history = getRunStore().listRuns({ limit });
     return NextResponse.json({ history });
   } catch (error) {
     console.error('Failed to load history:', error);
@@ -33,41 +20,19 @@ export async function GET() {
 export async function POST(request: Request) {
   try {
     const testRun = await request.json();
-    const history = await loadHistory();
-    
-    // Check if this is an update to an existing Device Farm run
-    if (testRun.runArn) {
-      const existingIndex = history.findIndex((h: any) => h.runArn === testRun.runArn);
-      if (existingIndex !== -1) {
-        // Update existing entry
-        history[existingIndex] = {
-          ...history[existingIndex],
-          ...testRun
-        };
-        await saveHistory(history);
-        return NextResponse.json({ success: true, updated: true });
-      }
-    }
-    
-    // Add new test run to history (preserve id if provided, otherwise generate)
-    history.unshift({
+
+    // Updates an existing Device Farm run (matched by runArn) or adds a new entry
+    // (preserve id if provided, otherwise generate; created defaults to now)
+    const { updated } = getRunStore().upsertRun({
       ...testRun,
-      id: testRun.id || `run-${Date.now()}`,
-      created: testRun.created || new Date().toISOString()
+      id: testRun.id || `run-${Date.now()}`
     });
-    
-    // Keep only last 50 runs
-    if (history.length > 50) {
-      history.splice(50);
-    }
-    
-    await saveHistory(history);
-    
-    return NextResponse.json({ success: true });
+
+    return NextResponse.json({ success: true, ...(updated && { updated: true }) });
   } catch (error: any) {
     console.error('Failed to save history:', error);
-    return NextResponse.json({ 
-      error: error.message 
+    return NextResponse.json({
+      error: error.message
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
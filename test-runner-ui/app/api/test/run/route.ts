@@ -1,30 +1,46 @@
 import { NextResponse } from 'next/server';
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
+import { ChildProcess, spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import readline from 'readline';
 import path from 'path';
 import { promises as fs } from 'fs';
-import { TestConfig, TestCounters, TestRun, HistoryEntry, TestStorageData } from '../../../../../types';
+import { RunRecord, RunResultTest, TestConfig, TestCounters, TestNode, TestRun } from '../../../../../types';
+import { getRunStore } from '../../../../../services/run-store/run-store.service';
+import { getBuildDetails } from '../../../../../services/build-cache/build-cache.service';
+import { copyAllureResults, generateAllureReport, getAllureReportsDir, getArchivedResultsDir } from '../../../../../services/allure/allure.service';
+import { getRunEventBus, parseWdioLine } from '../../../../../services/run-events/run-events.service';
+import { getLocalRunProcesses, getRunQueue } from '../../../../../services/run-queue/run-queue.service';
+import { countRunResults, getQuarantinedFailures, isPassingRun, readRunResults } from '../../../../../services/run-results/run-results.service';
+import { discoverTestFiles, getRunnableTests, readTestFile } from '../../../../../services/test-discovery/test-discovery.service';
+import { buildGrepPattern, combineTagExpressions, matchesTagExpression, TagExpressionError } from '../../../../../test/utils/tag.utils';
 
-const execAsync = promisify(exec);
+// Give wdio a chance to end its sessions and flush allure results before forcing it down
+const CANCEL_KILL_TIMEOUT_MS = 10000;
 
-// Helper functions for persistent storage
-const getRunningTestsPath = () => {
-  return path.join(process.cwd(), 'running-tests.json');
-};
-
-async function loadRunningTests(): Promise<Map<string, TestRun>> {
+// wdio is started in its own process group, so signalling the group also reaches
+// the shell, the launcher and every worker it spawned
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals) {
+  if (!child.pid) return;
   try {
-    const data = await fs.readFile(getRunningTestsPath(), 'utf-8');
-    const tests = JSON.parse(data) as TestStorageData[];
-    return new Map(tests.map((t: TestStorageData) => [t.id, t as unknown as TestRun]));
+    process.kill(-child.pid, signal);
   } catch {
-    return new Map();
+    child.kill(signal);
   }
 }
 
-async function saveRunningTests(testsMap: Map<string, TestRun>) {
-  const tests = Array.from(testsMap.values());
-  await fs.writeFile(getRunningTestsPath(), JSON.stringify(tests, null, 2));
+// Each run writes allure results to its own directory so parallel runs never mix
+function getAllureResultsPath(projectRoot: string, runId: string): string {
+  return path.join(projectRoot, 'allure-results-temp', runId);
+}
+
+// Structured per-test results from the results reporter (config/reporters)
+function getTestResultsPath(projectRoot: string, runId: string): string {
+  return path.join(projectRoot, 'reports', 'results', runId);
+}
+
+// Runs on the same device would fight over the Appium session and app state
+function getDeviceKey(config: TestConfig): string {
+  return `${config.platform}:${config.device || 'default'}`;
 }
 
 // Get expected tests based on configuration
@@ -32,310 +48,303 @@ async function getExpectedTests(config: TestConfig): Promise<string[]> {
   try {
     const projectRoot = path.join(process.cwd(), '..');
     
+    // Skipped tests never start, so they aren't expected
+    let tests: TestNode[];
     if (config.testMode === 'single' && config.test) {
       // Single test file
-      const testFilePath = path.join(projectRoot, config.test);
-      const tests = await extractTestsFromFile(testFilePath);
+      const testFile = await readTestFile(path.join(projectRoot, config.test), projectRoot);
+      tests = getRunnableTests(testFile.suites);
       
       if (config.testCase) {
         // Specific test case
-        return tests.filter(test => test.toLowerCase().includes(config.testCase!.toLowerCase()));
-      } else if (config.tags && config.tags.length > 0) {
-        // Filter by tags
-        return tests.filter(test => 
-          config.tags!.some(tag => test.toLowerCase().includes(tag.toLowerCase()))
-        );
-      } else {
-        // All tests in the file
-        return tests;
+        return tests
+          .filter(test => test.fullTitle.toLowerCase().includes(config.testCase!.toLowerCase()))
+          .map(test => test.title);
       }
     } else {
       // Full suite
-      const testDir = path.join(projectRoot, 'test');
-      const testFiles = await findTestFiles(testDir);
-      let allTests: string[] = [];
-      
-      for (const filePath of testFiles) {
-        const testsInFile = await extractTestsFromFile(filePath);
-        allTests.push(...testsInFile);
-      }
-      
-      if (config.tags && config.tags.length > 0) {
-        // Filter by tags
-        return allTests.filter(test => 
-          config.tags!.some(tag => test.toLowerCase().includes(tag.toLowerCase()))
-        );
-      } else {
-        // All tests
-        return allTests;
-      }
+      const testFiles = await discoverTestFiles(path.join(projectRoot, 'test'), projectRoot);
+      tests = testFiles.flatMap(file => getRunnableTests(file.suites));
     }
-  } catch (error) {
-    console.error('Error getting expected tests:', error);
-    return [];
-  }
-}
-
-async function extractTestsFromFile(filePath: string): Promise<string[]> {
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const testPattern = /it(?:\.only)?\s*\(\s*['"`]([^'"`]+)['"`]/g;
-    const tests: string[] = [];
-    let match;
     
-    while ((match = testPattern.exec(content)) !== null) {
-      tests.push(match[1]);
+    const tagExpression = combineTagExpressions(config.tags || []);
+    if (tagExpression) {
+      // Filter by tags, including ones inherited from the describe
+      tests = tests.filter(test => matchesTagExpression(tagExpression, test.tags));
     }
-    
-    return tests;
+    return tests.map(test => test.title);
   } catch (error) {
-    console.error(`Error reading test file ${filePath}:`, error);
+    console.error('Error getting expected tests:', error);
     return [];
   }
 }
 
-async function findTestFiles(dir: string): Promise<string[]> {
-  const files: string[] = [];
-  
-  try {
-    const entries = await fs.readdir(dir, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      const fullPath = path.join(dir, entry.name);
-      
-      if (entry.isDirectory()) {
-        const subFiles = await findTestFiles(fullPath);
-        files.push(...subFiles);
-      } else if (entry.name.endsWith('.e2e.ts') || entry.name.endsWith('.e2e.js')) {
-        files.push(fullPath);
-      }
-    }
-  } catch (error) {
-    console.error(`Error reading directory ${dir}:`, error);
-  }
-  
-  return files;
-}
-
-// Simple parsing to update currently running test (optional)
-async function parseTestOutput(runId: string, output: string) {
-  try {
-    const runningTests = await loadRunningTests();
-    const test = runningTests.get(runId);
-    if (!test) return;
-
-    // Just extract currently completed test for status update
-    const lines = output.split('\n');
-    for (const line of lines) {
-      if (line.includes('✓')) {
-        const testMatch = line.match(/✓\s*(.*?)(?:\s*\(\d+ms\))?$/);
-        if (testMatch && testMatch[1]) {
-          const testName = testMatch[1].trim();
-          if (testName && !testName.includes('spec')) {
-            test.currentlyRunningTest = testName;
-            runningTests.set(runId, test);
-            await saveRunningTests(runningTests);
-            break;
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error parsing test output for ${runId}:`, error);
-  }
-}
-
-function parseTestResults(output: string): TestCounters {
-  const counters: TestCounters = {
-    passed: 0,
-    failed: 0,
-    broken: 0,
-    skipped: 0,
-    total: 0
-  };
-  
-  if (!output) return counters;
-  
-  console.log('[TEST PARSER] Sample output:', output.substring(output.length - 500));
-  
-  const parsedFromSummary = tryParseSummaryFormat(output, counters);
-  if (parsedFromSummary) return counters;
-  
-  const parsedFromMocha = tryParseMochaFormat(output, counters);
-  if (parsedFromMocha) return counters;
-  
-  const parsedFromMarkers = tryParseTestMarkers(output, counters);
-  if (parsedFromMarkers) return counters;
-  
-  counters.total = 1;
-  console.log('[TEST PARSER] No test counts found, using fallback');
-  return counters;
-}
-
-function tryParseSummaryFormat(output: string, counters: TestCounters): boolean {
-  const testsMatch = output.match(/Tests:\s*(\d+)\s+passed(?:,\s*(\d+)\s+failed)?(?:,\s*(\d+)\s+skipped)?(?:,\s*(\d+)\s+total)?/);
-  
-  if (testsMatch) {
-    counters.passed = parseInt(testsMatch[1]) || 0;
-    counters.failed = parseInt(testsMatch[2]) || 0;
-    counters.skipped = parseInt(testsMatch[3]) || 0;
-    counters.total = parseInt(testsMatch[4]) || 0;
-    console.log('[TEST PARSER] Found Tests summary:', counters);
-    return true;
-  }
-  return false;
-}
-
-function tryParseMochaFormat(output: string, counters: TestCounters): boolean {
-  const passingMatch = output.match(/(\d+)\s+passing/);
-  const failingMatch = output.match(/(\d+)\s+failing/);
-  const pendingMatch = output.match(/(\d+)\s+pending/);
-  const skippedMatch = output.match(/(\d+)\s+skipped/);
-  
-  if (passingMatch || failingMatch || pendingMatch || skippedMatch) {
-    if (passingMatch) counters.passed = parseInt(passingMatch[1]);
-    if (failingMatch) counters.failed = parseInt(failingMatch[1]);
-    if (pendingMatch) counters.skipped = parseInt(pendingMatch[1]);
-    if (skippedMatch) counters.skipped = parseInt(skippedMatch[1]);
-    counters.total = counters.passed + counters.failed + counters.skipped;
-    console.log('[TEST PARSER] Found mocha format:', counters);
-    return true;
-  }
-  return false;
-}
-
-function tryParseTestMarkers(output: string, counters: TestCounters): boolean {
-  const passedTests = (output.match(/✓/g) || []).length;
-  const failedTests = (output.match(/[✗✖]/g) || []).length;
-  const skippedTests = (output.match(/\s-\s/g) || []).length;
-  
-  if (passedTests > 0 || failedTests > 0 || skippedTests > 0) {
-    counters.passed = passedTests;
-    counters.failed = failedTests;
-    counters.skipped = skippedTests;
-    counters.total = passedTests + failedTests + skippedTests;
-    console.log('[TEST PARSER] Counted individual test markers:', counters);
-    return true;
-  }
-  return false;
-}
-
 // Helper function to save test to history
-async function saveToHistory(runId: string, test: TestRun, config: TestConfig) {
+async function saveToHistory(runId: string, test: RunRecord, config: TestConfig) {
   try {
     const projectRoot = path.join(process.cwd(), '..');
-    const historyPath = path.join(process.cwd(), 'test-history.json');
+    const store = getRunStore();
+    // Set by the run route itself, so not among the store's typed history fields
+    const startTime = typeof test.startTime === 'string' ? test.startTime : undefined;
+    const endTime = typeof test.endTime === 'string' ? test.endTime : undefined;
     
     // Calculate duration
-    const duration = test.endTime && test.startTime 
-      ? Math.floor((new Date(test.endTime).getTime() - new Date(test.startTime).getTime()) / 1000)
+    const duration = endTime && startTime 
+      ? Math.floor((new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000)
       : 0;
     
-    // Don't parse test results from output as it's unreliable
-    // The Allure report will have accurate counts
-    const testCounters = {
-      passed: 0,
-      failed: 0,
-      broken: 0,
-      skipped: 0,
-      total: 0
-    };
+    // Counters and test cases come from the results reporter rather than console output
+    let testCounters: TestCounters = { passed: 0, failed: 0, broken: 0, skipped: 0, total: 0 };
+    let testCases: RunResultTest[] = [];
+    let result = test.result;
+    let quarantinedFailures = 0;
+    const testResultsPath = getTestResultsPath(projectRoot, runId);
+    try {
+      const results = readRunResults(testResultsPath);
+      if (results) {
+        testCounters = countRunResults(results);
+        testCases = results.tests;
+        quarantinedFailures = getQuarantinedFailures(results).length;
+        // wdio exits non-zero when a quarantined test fails, so decide the result from what actually failed
+        if (result === 'FAILED' && isPassingRun(results)) {
+          console.log(`[TEST RUN ${runId}] Only quarantined tests failed (${quarantinedFailures}), marking run as passed`);
+          result = 'PASSED';
+        }
+      } else {
+        console.log(`[TEST RUN ${runId}] No test results recorded`);
+      }
+    } catch (error) {
+      console.error(`[TEST RUN ${runId}] Failed to read test results:`, error);
+    }
+    await fs.rm(testResultsPath, { recursive: true, force: true }).catch(() => {});
     
     // Generate and save Allure report with unique name
     let allureReportUrl = null;
-    const allureResultsPath = path.join(projectRoot, 'allure-results');
-    const allureReportsDir = path.join(process.cwd(), 'allure-reports');
-    const runResultsPath = path.join(projectRoot, 'allure-results-temp', runId);
+    const allureResultsPath = getAllureResultsPath(projectRoot, runId);
+    // Kept (labelled with the device) so this run's report can later be merged with other runs of the same build
+    const archivedResultsPath = getArchivedResultsDir(runId);
     
     try {
-      // Check if allure-results exist
+      // Check if this run produced any allure results
       await fs.access(allureResultsPath);
-      
-      // Copy current results to a temporary directory for this run
-      await fs.mkdir(path.join(projectRoot, 'allure-results-temp'), { recursive: true });
-      await execAsync(`cp -r ${allureResultsPath}/* ${runResultsPath}/`, { cwd: projectRoot }).catch(() => {
-        // If copy fails, try to create directory and copy again
-        return execAsync(`mkdir -p ${runResultsPath} && cp -r ${allureResultsPath}/* ${runResultsPath}/`, { cwd: projectRoot });
+      await copyAllureResults(allureResultsPath, archivedResultsPath, {
+        runId,
+        device: config.deviceName || config.device || 'Local device',
+        platform: config.platform
       });
       
-      // Create allure-reports directory if it doesn't exist
-      await fs.mkdir(allureReportsDir, { recursive: true });
-      
-      // Generate Allure report from the isolated results directory
-      const reportDir = path.join(allureReportsDir, runId);
-      await execAsync(`npx allure generate ${runResultsPath} --clean --single-file -o ${reportDir}`, { cwd: projectRoot });
+      // Generate Allure report from the run's own results directory
+      const reportDir = path.join(getAllureReportsDir(), runId);
+      await generateAllureReport(archivedResultsPath, reportDir, {
+        projectRoot,
+        history: { branch: store.getRun(runId)?.branch, platform: config.platform }
+      });
       
       console.log(`[TEST RUN ${runId}] Allure report generated at ${reportDir}`);
       allureReportUrl = `/api/allure/report?runId=${runId}`;
-      
-      // Clean up temporary results directory
-      await execAsync(`rm -rf ${runResultsPath}`, { cwd: projectRoot }).catch(() => {});
     } catch (error) {
       console.log(`[TEST RUN ${runId}] No Allure report generated:`, error);
-      // Try to clean up even if report generation failed
-      await execAsync(`rm -rf ${runResultsPath}`, { cwd: projectRoot }).catch(() => {});
     }
     
-    // Create history entry with parsed counters
-    const historyEntry = {
-      id: runId,
-      name: config.testMode === 'single' && config.test 
-        ? `Single: ${config.test.split('/').pop()}`
-        : 'Full Test Suite',
-      status: test.status,
-      result: test.result,
-      created: test.startTime,
-      duration,
-      device: config.device,
-      platform: config.platform,
-      build: config.build,
-      counters: {
-        passed: testCounters.passed,
-        failed: testCounters.failed,
-        broken: testCounters.broken,
-        skipped: testCounters.skipped,
-        total: testCounters.total
-      },
-      artifactsUrl: allureReportUrl,
-      hasAllureReport: true, // Local tests generate Allure reports
-      isDeviceFarm: false
-    };
-    
-    // Load existing history
-    let history = [];
-    try {
-      const data = await fs.readFile(historyPath, 'utf-8');
-      history = JSON.parse(data);
-    } catch {
-      // File doesn't exist yet
-    }
+    await fs.rm(allureResultsPath, { recursive: true, force: true }).catch(() => {});
     
-    // Add new entry and save
-    history.unshift(historyEntry);
-    if (history.length > 50) {
-      history.splice(50);
-    }
-    
-    await fs.writeFile(historyPath, JSON.stringify(history, null, 2));
+    // Turn the run into a history entry with parsed counters
+    store.transaction(() => {
+      store.updateRun(runId, {
+        name: config.testMode === 'single' && config.test 
+          ? `Single: ${config.test.split('/').pop()}`
+          : 'Full Test Suite',
+        status: test.status,
+        result,
+        created: startTime,
+        duration,
+        device: config.device,
+        platform: config.platform,
+        build: config.build,
+        counters: {
+          passed: testCounters.passed,
+          failed: testCounters.failed,
+          broken: testCounters.broken,
+          skipped: testCounters.skipped,
+          total: testCounters.total
+        },
+        quarantinedFailures,
+        artifactsUrl: allureReportUrl,
+        hasAllureReport: true, // Local tests generate Allure reports
+        isDeviceFarm: false
+      });
+      
+      store.replaceTestCases(runId, testCases);
+      
+      if (allureReportUrl) {
+        store.addArtifact({ runId, name: 'allure-report', type: 'html', url: allureReportUrl });
+      }
+    });
     console.log(`[TEST RUN ${runId}] Saved to history`);
   } catch (error) {
     console.error(`[TEST RUN ${runId}] Failed to save to history:`, error);
   }
 }
 
+// Spawn wdio for a run once the queue has given it a device
+function startRun(runId: string, config: TestConfig, command: string) {
+  // Go up one level from test-runner-ui to main project
+  const projectRoot = path.join(process.cwd(), '..');
+  
+  getRunStore().updateRun(runId, {
+    status: 'RUNNING',
+    startTime: new Date().toISOString(),
+    queuePosition: null
+  });
+  
+  console.log(`[TEST RUN ${runId}] Starting command: ${command}`);
+  console.log(`[TEST RUN ${runId}] Working directory: ${projectRoot}`);
+  
+  const child = spawn(command, {
+    cwd: projectRoot,
+    shell: true,
+    detached: true, // Own process group so a cancel can kill the whole tree
+    env: {
+      ...process.env,
+      NODE_OPTIONS: '--max-old-space-size=4096', // Increase Node memory limit
+      ALLURE_RESULTS_DIR: getAllureResultsPath(projectRoot, runId),
+      RUN_RESULTS_DIR: getTestResultsPath(projectRoot, runId),
+      // Pass selected app path to WebDriverIO config for iOS
+      ...(config.platform === 'ios' && config.build && {
+        IOS_APP_NAME: path.basename(config.build)
+      }),
+      // Device picked from a matrix: the wdio configs read these for deviceName/platformVersion
+      ...(config.deviceName && {
+        [config.platform === 'ios' ? 'IOS_DEVICE_NAME' : 'ANDROID_DEVICE_NAME']: config.deviceName
+      }),
+      ...(config.osVersion && {
+        [config.platform === 'ios' ? 'IOS_VERSION' : 'ANDROID_VERSION']: config.osVersion
+      })
+    }
+  });
+  getLocalRunProcesses().set(runId, { child, cancelled: false });
+  
+  // Stream output line by line to SSE subscribers
+  const events = getRunEventBus();
+  let stderrTail = '';
+  // The end of stdout is kept with the run, as it was before the run store; the rest is in the Allure report
+  let stdoutTail = '';
+  
+  const relayLines = (stream: 'stdout' | 'stderr', input: NodeJS.ReadableStream) => {
+    const lines = readline.createInterface({ input });
+    lines.on('line', line => {
+      events.publish(runId, { type: 'log', stream, line, timestamp: new Date().toISOString() });
+      
+      const event = parseWdioLine(line);
+      if (event) {
+        events.publish(runId, event);
+        if (event.type === 'test:pass' || event.type === 'test:fail') {
+          getRunStore().updateRun(runId, { currentlyRunningTest: event.title });
+        }
+      }
+      
+      if (stream === 'stderr') {
+        stderrTail = `${stderrTail}${line}\n`.slice(-4000);
+      } else {
+        stdoutTail = `${stdoutTail}${line}\n`.slice(-20000);
+      }
+    });
+  };
+  
+  relayLines('stdout', child.stdout);
+  relayLines('stderr', child.stderr);
+  
+  // 'close' may or may not follow an 'error', so whichever comes first finishes the run
+  let finished = false;
+  
+  child.on('error', (error) => {
+    if (finished) return;
+    finished = true;
+    getLocalRunProcesses().delete(runId);
+    getRunQueue().release(runId);
+    
+    console.error(`[TEST RUN ${runId}] Failed to start command:`, error);
+    getRunStore().updateRun(runId, {
+      status: 'COMPLETED',
+      result: 'FAILED',
+      error: `Failed to start command: ${command}\n${error.message}`,
+      output: stdoutTail,
+      endTime: new Date().toISOString()
+    });
+    
+    events.publish(runId, {
+      type: 'run:end',
+      status: 'COMPLETED',
+      result: 'FAILED',
+      exitCode: null,
+      timestamp: new Date().toISOString()
+    });
+  });
+  
+  child.on('close', async (exitCode) => {
+    if (finished) return;
+    finished = true;
+    const cancelled = getLocalRunProcesses().get(runId)?.cancelled ?? false;
+    getLocalRunProcesses().delete(runId);
+    // Hand the device to the next queued run; report generation below uses this run's own results
+    getRunQueue().release(runId);
+    
+    const passed = exitCode === 0;
+    if (cancelled) {
+      console.log(`[TEST RUN ${runId}] Test cancelled`);
+    } else if (passed) {
+      console.log(`[TEST RUN ${runId}] Test completed successfully`);
+    } else {
+      console.error(`[TEST RUN ${runId}] Test failed with exit code ${exitCode}`);
+    }
+    
+    const status = cancelled ? 'CANCELLED' : 'COMPLETED';
+    const test = getRunStore().updateRun(runId, {
+      status,
+      result: cancelled ? undefined : passed ? 'PASSED' : 'FAILED',
+      error: cancelled || passed ? stderrTail : `Command failed with exit code ${exitCode}: ${command}\n${stderrTail}`,
+      output: stdoutTail,
+      endTime: new Date().toISOString()
+    });
+    if (test) {
+      // Save to history (a cancelled run keeps whatever allure results it produced)
+      await saveToHistory(runId, test, config);
+    }
+    
+    events.publish(runId, {
+      type: 'run:end',
+      status,
+      // Quarantined failures may have turned a non-zero exit into a pass
+      result: getRunStore().getRun(runId)?.result,
+      exitCode,
+      timestamp: new Date().toISOString()
+    });
+  });
+}
+
 export async function POST(request: Request) {
   try {
     const config: TestConfig = await request.json();
-    const runId = `run-${Date.now()}`;
+    // The suffix keeps runs posted in the same millisecond (e.g. a local matrix) apart
+    const runId = `run-${Date.now()}-${randomUUID().slice(0, 8)}`;
+    // Create the queue before saving so its startup cleanup can't mistake this run for a stale one
+    const queue = getRunQueue();
     
-    // Go up one level from test-runner-ui to main project
-    const projectRoot = path.join(process.cwd(), '..');
-    
-    // Clear previous allure-results before running new test
-    const allureResultsPath = path.join(projectRoot, 'allure-results');
-    await execAsync(`rm -rf ${allureResultsPath}/*`, { cwd: projectRoot }).catch(() => {
-      console.log(`[TEST RUN ${runId}] No previous allure results to clear`);
-    });
+    // Each entry in tags is a tag expression; they are and-ed together
+    let grepPattern: string | undefined;
+    try {
+      grepPattern = buildGrepPattern({
+        testCase: config.testMode === 'single' && config.test ? config.testCase : undefined,
+        tags: config.tags
+      });
+    } catch (error) {
+      if (error instanceof TagExpressionError) {
+        return NextResponse.json({ 
+          error: `Invalid tag expression: ${error.message}` 
+        }, { status: 400 });
+      }
+      throw error;
+    }
     
     // Build the wdio command
     let command = '';
@@ -347,46 +356,30 @@ export async function POST(request: Request) {
       // Run specific test file - remove the leading ../ if present
       const testPath = config.test.startsWith('../') ? config.test.substring(3) : config.test;
       command = `npx wdio ${configFile} --spec ${testPath}`;
-      
-      if (config.testCase && config.tags && config.tags.length > 0) {
-        // Combine test case and tags
-        const tagPattern = config.tags.join('.*');
-        command += ` --mochaOpts.grep "${config.testCase}.*${tagPattern}"`;
-      } else if (config.testCase) {
-        // Run specific test case using grep
-        command += ` --mochaOpts.grep "${config.testCase}"`;
-      } else if (config.tags && config.tags.length > 0) {
-        // Only tags for specific test file
-        const tagPattern = config.tags.join('.*');
-        command += ` --mochaOpts.grep "${tagPattern}"`;
-      }
     } else {
       // Run full suite
       command = `npx wdio ${configFile}`;
-      
-      // Add tag filtering if tags are selected
-      if (config.tags && config.tags.length > 0) {
-        const tagPattern = config.tags.join('.*');
-        command += ` --mochaOpts.grep "${tagPattern}"`;
-      }
     }
     
-    // Load existing running tests
-    const runningTests = await loadRunningTests();
+    if (grepPattern) {
+      // Single quotes keep the shell away from the pattern's regex characters
+      command += ` --mochaOpts.grep '${grepPattern.replace(/'/g, `'\\''`)}'`;
+    }
     
     // Store test metadata
-    runningTests.set(runId, {
+    const testRun: TestRun = {
       id: runId,
       name: config.testMode === 'single' && config.test 
         ? `Single: ${config.test.split('/').pop()}`
         : `Full Test Suite${config.tags && config.tags.length > 0 ? ` (${config.tags.join(', ')})` : ''}`,
       config,
-      status: 'RUNNING',
+      status: 'QUEUED',
       created: new Date().toISOString(),
       startTime: new Date().toISOString(),
       device: config.device,
       platform: config.platform,
       build: config.build,
+      ...getBuildDetails(config.build, path.join(process.cwd(), '..', '.bitrise-cache')),
       command,
       // Test execution details
       tags: config.tags,
@@ -395,80 +388,24 @@ export async function POST(request: Request) {
       selectedTestCase: config.testCase,
       executingTests: await getExpectedTests(config), // Pre-populate based on selection
       currentlyRunningTest: null
-    });
+    };
     
     // Save to persistent storage
-    await saveRunningTests(runningTests);
-    
-    // Execute test asynchronously
-    console.log(`[TEST RUN ${runId}] Starting command: ${command}`);
-    console.log(`[TEST RUN ${runId}] Working directory: ${projectRoot}`);
+    getRunStore().saveRun({ ...testRun });
     
-    execAsync(command, { 
-      cwd: projectRoot,
-      maxBuffer: 1024 * 1024 * 50, // Increase buffer to 50MB to prevent EPIPE
-      env: {
-        ...process.env,
-        NODE_OPTIONS: '--max-old-space-size=4096', // Increase Node memory limit
-        // Pass selected app path to WebDriverIO config for iOS
-        ...(config.platform === 'ios' && config.build && {
-          IOS_APP_NAME: path.basename(config.build)
-        })
-      }
-    })
-      .then(async ({ stdout, stderr }) => {
-        console.log(`[TEST RUN ${runId}] Test completed successfully`);
-        // Parse final output for test names
-        await parseTestOutput(runId, stdout);
-        
-        // Load current running tests
-        const runningTests = await loadRunningTests();
-        const test = runningTests.get(runId);
-        if (test) {
-          test.status = 'COMPLETED';
-          test.result = 'PASSED';
-          test.output = stdout;
-          test.error = stderr;
-          test.endTime = new Date().toISOString();
-          
-          // Save to history
-          await saveToHistory(runId, test, config);
-          
-          // Remove from running tests
-          runningTests.delete(runId);
-          await saveRunningTests(runningTests);
-        }
-      })
-      .catch(async (error) => {
-        console.error(`[TEST RUN ${runId}] Test failed:`, error.message);
-        // Parse output even on failure for test names
-        if (error.stdout) {
-          await parseTestOutput(runId, error.stdout);
-        }
-        
-        // Load current running tests
-        const runningTests = await loadRunningTests();
-        const test = runningTests.get(runId);
-        if (test) {
-          test.status = 'COMPLETED';
-          test.result = 'FAILED';
-          test.error = error.message;
-          test.output = error.stdout || '';
-          test.endTime = new Date().toISOString();
-          
-          // Save to history
-          await saveToHistory(runId, test, config);
-          
-          // Remove from running tests
-          runningTests.delete(runId);
-          await saveRunningTests(runningTests);
-        }
-      });
+    // Start now if the device is free, otherwise wait for the runs ahead of it
+    const queuePosition = queue.enqueue({
+      runId,
+      deviceKey: getDeviceKey(config),
+      start: () => startRun(runId, config, command)
+    });
     
     return NextResponse.json({ 
       runId,
-      message: 'Test started',
-      command
+      message: queuePosition > 0 ? `Test queued at position ${queuePosition}` : 'Test started',
+      command,
+      status: queuePosition > 0 ? 'QUEUED' : 'RUNNING',
+      queuePosition
     });
   } catch (error) {
     console.error('Failed to start test:', error);
@@ -484,15 +421,15 @@ export async function GET(request: Request) {
   const runId = searchParams.get('runId');
   
   // Load running tests from persistent storage
-  const runningTests = await loadRunningTests();
+  const store = getRunStore();
   
   if (!runId) {
     return NextResponse.json({ 
-      tests: Array.from(runningTests.values()) 
+      tests: store.listRuns({ status: ['QUEUED', 'RUNNING'], isDeviceFarm: false })
     });
   }
   
-  const test = runningTests.get(runId);
+  const test = store.getRun(runId);
   if (!test) {
     return NextResponse.json({ 
       error: 'Test not found' 
@@ -515,6 +452,87 @@ export async function GET(request: Request) {
   
   return NextResponse.json({
     ...test,
-    allureReportUrl
+    allureReportUrl,
+    testCases: store.getTestCases(runId)
   });
-}
\ No newline at end of file
+}
+// DELETE endpoint to cancel a running local test
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const runId = searchParams.get('runId');
+  
+  if (!runId) {
+    return NextResponse.json({ 
+      error: 'Missing runId parameter' 
+    }, { status: 400 });
+  }
+  
+  const store = getRunStore();
+  const test = store.getRun(runId);
+  if (!test || test.isDeviceFarm) {
+    return NextResponse.json({ 
+      error: 'Test not found' 
+    }, { status: 404 });
+  }
+  
+  if (test.status === 'QUEUED' && getRunQueue().remove(runId)) {
+    // Never started, so there are no results to keep
+    store.updateRun(runId, {
+      status: 'CANCELLED',
+      queuePosition: null,
+      endTime: new Date().toISOString()
+    });
+    console.log(`[TEST RUN ${runId}] Removed from queue`);
+    
+    return NextResponse.json({ 
+      runId,
+      message: 'Test removed from queue'
+    });
+  }
+  
+  if (test.status !== 'RUNNING') {
+    return NextResponse.json({ 
+      error: `Test is not running (status: ${test.status})` 
+    }, { status: 409 });
+  }
+  
+  const running = getLocalRunProcesses().get(runId);
+  if (running) {
+    // The close handler records the cancellation once the process tree is gone
+    running.cancelled = true;
+    console.log(`[TEST RUN ${runId}] Cancelling test`);
+    killProcessTree(running.child, 'SIGTERM');
+    setTimeout(() => {
+      // Still registered means the close handler has not run, so something is holding on
+      if (getLocalRunProcesses().has(runId)) {
+        console.log(`[TEST RUN ${runId}] wdio did not exit, sending SIGKILL`);
+        killProcessTree(running.child, 'SIGKILL');
+      }
+    }, CANCEL_KILL_TIMEOUT_MS).unref();
+    
+    return NextResponse.json({ 
+      runId,
+      message: 'Cancelling test'
+    });
+  }
+  
+  // No process in this server (e.g. it restarted mid-run), so just close out the record
+  const cancelled = store.updateRun(runId, {
+    status: 'CANCELLED',
+    endTime: new Date().toISOString()
+  });
+  if (cancelled && test.config) {
+    await saveToHistory(runId, cancelled, test.config as TestConfig);
+  }
+  getRunEventBus().publish(runId, {
+    type: 'run:end',
+    status: 'CANCELLED',
+    exitCode: null,
+    timestamp: new Date().toISOString()
+  });
+  
+  return NextResponse.json({ 
+    runId,
+    message: 'Test cancelled'
+  });
+}
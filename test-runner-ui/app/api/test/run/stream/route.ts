@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { RunEvent } from '../../../../../../types';
+import { getRunEventBus } from '../../../../../../services/run-events/run-events.service';
+import { getRunStore } from '../../../../../../services/run-store/run-store.service';
+import { createSseResponse } from '../../../../../../services/sse/sse.service';
+
+// GET endpoint streaming live output and test events for a local run (Server-Sent Events)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const runId = searchParams.get('runId');
+
+  if (!runId) {
+    return NextResponse.json({
+      error: 'Missing runId parameter'
+    }, { status: 400 });
+  }
+
+  const events = getRunEventBus();
+  const run = getRunStore().getRun(runId);
+
+  if (!run && !events.hasRun(runId)) {
+    return NextResponse.json({
+      error: 'Test not found'
+    }, { status: 404 });
+  }
+
+  return createSseResponse<RunEvent>(request.signal, stream => {
+    const send = (event: RunEvent) => {
+      stream.send(event);
+      if (event.type === 'run:end') {
+        stream.close();
+      }
+    };
+
+    // Subscribe before replaying so nothing published in between is lost
+    const pending: RunEvent[] = [];
+    let replaying = true;
+    const unsubscribe = events.subscribe(runId, event => {
+      if (replaying) {
+        pending.push(event);
+      } else {
+        send(event);
+      }
+    });
+
+    const buffered = events.getEvents(runId);
+    buffered.forEach(send);
+    replaying = false;
+    pending.forEach(send);
+
+    // Run finished before this server process saw it (e.g. after a restart)
+    if (!stream.closed && buffered.length === 0 && run && run.status !== 'QUEUED' && run.status !== 'RUNNING') {
+      send({
+        type: 'run:end',
+        status: run.status || 'COMPLETED',
+        result: run.result,
+        exitCode: null,
+        timestamp: new Date().toISOString()
+      });
+    }
+    return unsubscribe;
+  });
+}
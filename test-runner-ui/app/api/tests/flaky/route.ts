@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { FlakinessService } from '../../../../../services/flakiness/flakiness.service';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const windowSize = parseInt(searchParams.get('window') || '') || undefined;
+    const minScore = parseFloat(searchParams.get('minScore') || '');
+
+    const flakiness = new FlakinessService({ ...(windowSize && { windowSize }) });
+    const flakyTests = flakiness.getFlakyTests({
+      platform: searchParams.get('platform') || undefined,
+      device: searchParams.get('device') || undefined,
+      minScore: Number.isNaN(minScore) ? undefined : minScore,
+      limit: parseInt(searchParams.get('limit') || '') || undefined
+    });
+
+    return NextResponse.json({ flakyTests });
+  } catch (error: any) {
+    console.error('Failed to compute flaky tests:', error);
+    return NextResponse.json({
+      error: error.message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import path from 'path';
+import { discoverTestFiles } from '../../../../../services/test-discovery/test-discovery.service';
+import { buildTagCatalog } from '../../../../../services/tag-catalog/tag-catalog.service';
+
+// GET endpoint listing the tags used in the test source, with unknown tags and untagged platforms flagged
+export async function GET() {
+  try {
+    // Go up one level from test-runner-ui to main project
+    const projectRoot = path.join(process.cwd(), '..');
+    const testFiles = await discoverTestFiles(path.join(projectRoot, 'test', 'e2e'), projectRoot);
+
+    return NextResponse.json(buildTagCatalog(testFiles));
+  } catch (error) {
+    console.error('Error building tag catalog:', error);
+    return NextResponse.json({ error: 'Failed to build tag catalog' }, { status: 500 });
+  }
+}
@@ -4,14 +4,16 @@ import { useState, useEffect } from 'react';
 import TestConfiguration from '@/components/TestConfiguration';
 import TestHistory from '@/components/TestHistory';
 import RunningTests from '@/components/RunningTests';
-import { Zap, History, Loader2, Home as HomeIcon } from 'lucide-react';
+import FlakyTests from '@/components/FlakyTests';
+import CompareRuns from '@/components/CompareRuns';
+import { Zap, History, Loader2, AlertTriangle, GitCompare, Home as HomeIcon } from 'lucide-react';
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<'run' | 'running' | 'history'>(() => {
+  const [activeTab, setActiveTab] = useState<'run' | 'running' | 'history' | 'flaky' | 'compare'>(() => {
     // Initialize from localStorage immediately to prevent flash
     if (typeof window !== 'undefined') {
       const savedTab = localStorage.getItem('activeTab');
-      if (savedTab === 'run' || savedTab === 'running' || savedTab === 'history') {
+      if (savedTab === 'run' || savedTab === 'running' || savedTab === 'history' || savedTab === 'flaky' || savedTab === 'compare') {
         return savedTab;
       }
     }
@@ -25,7 +27,7 @@ export default function Home() {
   }, []);
 
   // Save tab selection
-  const handleTabChange = (tab: 'run' | 'running' | 'history') => {
+  const handleTabChange = (tab: 'run' | 'running' | 'history' | 'flaky' | 'compare') => {
     setActiveTab(tab);
     localStorage.setItem('activeTab', tab);
   };
@@ -96,6 +98,28 @@ export default function Home() {
               <History className="w-3.5 h-3.5 inline mr-1.5" />
               History
             </button>
+            <button
+              onClick={() => handleTabChange('flaky')}
+              className={`px-4 py-2 text-sm font-medium transition-all border-b-2 ${
+                activeTab === 'flaky'
+                  ? 'text-blue-600 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-900 border-transparent hover:border-gray-300'
+              }`}
+            >
+              <AlertTriangle className="w-3.5 h-3.5 inline mr-1.5" />
+              Flaky Tests
+            </button>
+            <button
+              onClick={() => handleTabChange('compare')}
+              className={`px-4 py-2 text-sm font-medium transition-all border-b-2 ${
+                activeTab === 'compare'
+                  ? 'text-blue-600 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-900 border-transparent hover:border-gray-300'
+              }`}
+            >
+              <GitCompare className="w-3.5 h-3.5 inline mr-1.5" />
+              Compare
+            </button>
           </div>
         </div>
       </header>
@@ -113,6 +137,10 @@ export default function Home() {
         {activeTab === 'running' && <RunningTests />}
 
         {activeTab === 'history' && <TestHistory />}
+
+        {activeTab === 'flaky' && <FlakyTests />}
+
+        {activeTab === 'compare' && <CompareRuns />}
       </main>
     </div>
   );
@@ -1,14 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Download, Loader2, Smartphone, GitBranch, CheckCircle, Package } from 'lucide-react';
+import { X, Download, Loader2, Smartphone, GitBranch, CheckCircle, Package, XCircle, Circle } from 'lucide-react';
+import { BuildFetchJob, BuildFetchPhase } from '../../types';
 
 interface BuildFetchModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: (message: string) => void;
   onError: (message: string) => void;
-  onDownloadStart?: (message: string) => void;
+  // The fetch in progress (or last finished), kept by the parent so it survives closing the modal
+  job: BuildFetchJob | null;
+  onJobStarted: (job: BuildFetchJob) => void;
 }
 
 interface BuildConfig {
@@ -22,7 +24,28 @@ interface BuildConfig {
 type Platform = 'android' | 'ios';
 type Step = 'platform' | 'branch' | 'build' | 'confirm' | 'downloading';
 
-export default function BuildFetchModal({ isOpen, onClose, onSuccess, onError, onDownloadStart }: BuildFetchModalProps) {
+const PHASES: { phase: BuildFetchPhase; label: string; iosOnly?: boolean }[] = [
+  { phase: 'resolving', label: 'Resolving build' },
+  { phase: 'listing', label: 'Listing artifacts' },
+  { phase: 'downloading', label: 'Downloading' },
+  { phase: 'verifying', label: 'Verifying' },
+  { phase: 'extracting', label: 'Extracting app', iosOnly: true }
+];
+
+export function getPhaseLabel(phase: BuildFetchPhase): string {
+  return PHASES.find(item => item.phase === phase)?.label || phase;
+}
+
+export function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s left`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+}
+
+export default function BuildFetchModal({ isOpen, onClose, onError, job, onJobStarted }: BuildFetchModalProps) {
   const [step, setStep] = useState<Step>('platform');
   const [selectedPlatform, setSelectedPlatform] = useState<Platform>('android');
   const [selectedBranch, setSelectedBranch] = useState<string>('');
@@ -33,10 +56,10 @@ export default function BuildFetchModal({ isOpen, onClose, onSuccess, onError, o
   const [loadingBuilds, setLoadingBuilds] = useState(false);
   const [downloading, setDownloading] = useState(false);
 
-  // Reset state when modal opens
+  // Reset state when modal opens, unless a fetch is still running: then show how it's doing
   useEffect(() => {
     if (isOpen) {
-      setStep('platform');
+      setStep(job?.status === 'running' ? 'downloading' : 'platform');
       setSelectedPlatform('android');
       setSelectedBranch('');
       setAvailableBranches([]);
@@ -110,17 +133,9 @@ export default function BuildFetchModal({ isOpen, onClose, onSuccess, onError, o
   };
 
   const handleDownload = async () => {
-    // Close modal immediately and start background download
-    onClose();
-    
-    // Show initial progress notification and start progress indicator
-    const buildName = `${selectedBuild?.workflow} #${selectedBuild?.buildNumber}`;
-    const downloadMessage = `Downloading ${selectedPlatform} ${buildName}...`;
-    onDownloadStart?.(downloadMessage);
-    
+    setDownloading(true);
     try {
-      // Start background download (don't await)
-      fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/builds/fetch`, {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/builds/fetch`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -128,32 +143,22 @@ export default function BuildFetchModal({ isOpen, onClose, onSuccess, onError, o
         body: JSON.stringify({
           platform: selectedPlatform,
           branch: selectedBranch,
-          buildSlug: selectedBuild?.buildSlug,
-          background: true
+          buildSlug: selectedBuild?.buildSlug
         })
-      }).then(async (response) => {
-        const data = await response.json();
-        
-        if (data.success) {
-          // Show success notification
-          setTimeout(() => {
-            onSuccess(`✅ Successfully downloaded ${selectedPlatform} ${buildName} and updated config!`);
-          }, 1000); // Small delay to let initial notification show
-        } else {
-          setTimeout(() => {
-            onError(`❌ Failed to download ${buildName}: ${data.error || 'Unknown error'}`);
-          }, 1000);
-        }
-      }).catch((error) => {
-        console.error('Background download failed:', error);
-        setTimeout(() => {
-          onError(`❌ Failed to download ${buildName}: Network error`);
-        }, 1000);
       });
-      
+      const data = await response.json();
+      if (response.ok && data.job) {
+        // The download carries on in the background; the modal can be closed and reopened
+        onJobStarted(data.job);
+        setStep('downloading');
+      } else {
+        onError(`❌ Failed to start downloading build #${selectedBuild?.buildNumber}: ${data.error || 'Unknown error'}`);
+      }
     } catch (error) {
-      console.error('Failed to start download:', error);
-      onError('Failed to start build download');
+      console.error('Failed to start build download:', error);
+      onError(`❌ Failed to start downloading build #${selectedBuild?.buildNumber}: Network error`);
+    } finally {
+      setDownloading(false);
     }
   };
 
@@ -216,8 +221,7 @@ export default function BuildFetchModal({ isOpen, onClose, onSuccess, onError, o
           </div>
           <button
             onClick={onClose}
-            disabled={downloading}
-            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            className="text-gray-400 hover:text-gray-600"
           >
             <X className="w-5 h-5" />
           </button>
@@ -368,15 +372,76 @@ export default function BuildFetchModal({ isOpen, onClose, onSuccess, onError, o
           )}
 
           {/* Downloading */}
-          {step === 'downloading' && (
-            <div className="flex flex-col items-center justify-center py-8">
-              <Loader2 className="w-12 h-12 text-blue-500 animate-spin mb-4" />
-              <h3 className="font-medium text-gray-900 mb-2">Downloading Build</h3>
-              <p className="text-gray-600 text-sm text-center">
-                Fetching latest {selectedPlatform} build from {selectedBranch}...
-                <br />
-                This may take a few minutes.
-              </p>
+          {step === 'downloading' && job && (
+            <div className="space-y-5">
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Smartphone className="w-4 h-4" />
+                <span className="capitalize">{job.platform}</span>
+                <GitBranch className="w-4 h-4 ml-2" />
+                <span className="font-mono">{job.branch}</span>
+              </div>
+
+              <ol className="space-y-2">
+                {PHASES.filter(({ iosOnly }) => !iosOnly || job.platform === 'ios').map(({ phase, label }, index, phases) => {
+                  const currentIndex = phases.findIndex(item => item.phase === job.phase);
+                  const done = job.status === 'completed' || index < currentIndex;
+                  const current = job.status !== 'completed' && index === currentIndex;
+                  return (
+                    <li key={phase} className="flex items-center gap-2 text-sm">
+                      {done ? (
+                        <CheckCircle className="w-4 h-4 text-green-500" />
+                      ) : current && job.status === 'failed' ? (
+                        <XCircle className="w-4 h-4 text-red-500" />
+                      ) : current ? (
+                        <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+                      ) : (
+                        <Circle className="w-4 h-4 text-gray-300" />
+                      )}
+                      <span className={current || done ? 'text-gray-900' : 'text-gray-400'}>{label}</span>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              <div>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all duration-300 ${
+                      job.status === 'failed' ? 'bg-red-500' : job.status === 'completed' ? 'bg-green-500' : 'bg-blue-500'
+                    } ${job.status === 'running' && job.percent === null ? 'animate-pulse' : ''}`}
+                    style={{ width: `${job.status === 'completed' ? 100 : job.percent ?? (job.status === 'running' ? 100 : 0)}%` }}
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-2">
+                  <span>
+                    {job.bytesDownloaded > 0
+                      ? `${formatBytes(job.bytesDownloaded)}${job.totalBytes ? ` / ${formatBytes(job.totalBytes)}` : ''}`
+                      : ''}
+                  </span>
+                  <span>
+                    {job.status === 'running' && job.etaSeconds !== null ? formatEta(job.etaSeconds) : job.percent !== null ? `${job.percent}%` : ''}
+                  </span>
+                </div>
+              </div>
+
+              {job.status === 'completed' && job.filePath && (
+                <p className="text-sm text-green-700 break-all">Saved to {job.filePath}</p>
+              )}
+              {job.status === 'failed' && (
+                <p className="text-sm text-red-600 break-all">{job.error}</p>
+              )}
+              {job.status === 'running' && (
+                <p className="text-xs text-gray-500">You can close this window, the download carries on in the background.</p>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  {job.status === 'running' ? 'Hide' : 'Close'}
+                </button>
+              </div>
             </div>
           )}
         </div>
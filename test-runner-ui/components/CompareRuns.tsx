@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  Loader2,
+  GitCompare,
+  GitCommit,
+  XCircle,
+  CheckCircle,
+  AlertTriangle,
+  Timer,
+  Cloud,
+  Monitor,
+  FileText
+} from 'lucide-react';
+import { ComparedRun, RunComparison, TestComparison } from '../../types';
+
+interface HistoryRun {
+  id: string;
+  name: string;
+  status: string;
+  result?: string;
+  created: string;
+  device: string;
+  platform: string;
+  isDeviceFarm?: boolean;
+  buildNumber?: number;
+}
+
+const SECTIONS: {
+  key: 'newlyFailed' | 'newlyPassed' | 'stillFailing' | 'durationChanges';
+  title: string;
+  empty: string;
+  icon: typeof XCircle;
+  color: string;
+}[] = [
+  { key: 'newlyFailed', title: 'Newly failed', empty: 'Nothing that passed in the base run fails now', icon: XCircle, color: 'text-red-500' },
+  { key: 'newlyPassed', title: 'Newly passed', empty: 'No failing test was fixed', icon: CheckCircle, color: 'text-green-500' },
+  { key: 'stillFailing', title: 'Still failing', empty: 'No test failed in both runs', icon: AlertTriangle, color: 'text-orange-500' },
+  { key: 'durationChanges', title: 'Duration changes', empty: 'No test got noticeably slower or faster', icon: Timer, color: 'text-blue-500' }
+];
+
+export default function CompareRuns() {
+  const [runs, setRuns] = useState<HistoryRun[]>([]);
+  const [baseId, setBaseId] = useState('');
+  const [headId, setHeadId] = useState('');
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/history`);
+      if (response.ok) {
+        const data = await response.json();
+        const completed: HistoryRun[] = (data.history || []).filter((run: HistoryRun) => run.status === 'COMPLETED');
+        setRuns(completed);
+        // Newest run against the one before it on the same platform
+        if (completed.length > 1) {
+          const head = completed[0];
+          const base = completed.slice(1).find(run => run.platform === head.platform) || completed[1];
+          setHeadId(head.id);
+          setBaseId(base.id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch runs:', error);
+    }
+  };
+
+  const compareRuns = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ base: baseId, head: headId });
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/compare?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        setComparison(data);
+      } else {
+        setComparison(null);
+        setError(data.error || 'Could not compare these runs');
+      }
+    } catch (error) {
+      console.error('Failed to compare runs:', error);
+      setError('Could not compare these runs. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatMs = (ms: number | null) => {
+    if (ms === null) return '-';
+    return Math.abs(ms) >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+  };
+
+  const formatRunOption = (run: HistoryRun) =>
+    `${format(new Date(run.created), 'MMM d, HH:mm')} · ${run.name} · ${run.device}${run.buildNumber ? ` · #${run.buildNumber}` : ''}`;
+
+  const renderRun = (label: string, run: ComparedRun) => (
+    <div className="flex-1 p-4 rounded-xl bg-white/70 border border-gray-200">
+      <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">{label}</p>
+      <h3 className="font-medium text-gray-900">{run.name || run.id}</h3>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mt-1">
+        <span className="flex items-center gap-1">
+          {run.isDeviceFarm ? <Cloud className="w-3 h-3" /> : <Monitor className="w-3 h-3" />}
+          {run.device || 'unknown'} ({run.platform || 'unknown'})
+        </span>
+        {run.created && <span>{format(new Date(run.created), 'MMM d, HH:mm')}</span>}
+        {run.result && <span>{run.result}</span>}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-2">
+        <span className="flex items-center gap-1">
+          <FileText className="w-3 h-3" />
+          {run.buildNumber !== null ? `Build #${run.buildNumber}` : run.build || 'Unknown build'}
+          {run.branch && ` (${run.branch})`}
+        </span>
+        {run.commitHash && (
+          <span className="flex items-center gap-1 font-mono">
+            <GitCommit className="w-3 h-3" />
+            {run.commitHash.slice(0, 8)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderTest = (test: TestComparison, section: typeof SECTIONS[number]) => (
+    <div key={test.fullTitle} className="py-3 flex items-start justify-between gap-6">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900">{test.title}</p>
+        <p className="text-xs text-gray-500 truncate">{test.file ? `${test.file} › ` : ''}{test.fullTitle}</p>
+        {section.key !== 'durationChanges' && test.errorMessage && (
+          <p className="text-xs text-red-600 mt-1 truncate">{test.errorMessage}</p>
+        )}
+      </div>
+      <div className="text-xs text-gray-500 text-right flex-shrink-0">
+        {section.key === 'durationChanges' ? (
+          <>
+            <span className={`font-semibold ${test.durationChangeMs! > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {test.durationChangeMs! > 0 ? '+' : '-'}{formatMs(Math.abs(test.durationChangeMs!))}
+            </span>
+            <p>{formatMs(test.baseDuration)} → {formatMs(test.headDuration)}</p>
+          </>
+        ) : (
+          <p>{test.baseState || 'not run'} → {test.headState || 'not run'}</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="glass rounded-2xl shadow-xl overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gradient-to-r from-indigo-50 to-blue-50">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Compare Runs</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              What changed test by test between a good run (base) and the one to check (head)
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="w-64 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+              <option value="">Base run...</option>
+              {runs.map(run => <option key={run.id} value={run.id}>{formatRunOption(run)}</option>)}
+            </select>
+            <select
+              value={headId}
+              onChange={(e) => setHeadId(e.target.value)}
+              className="w-64 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+              <option value="">Head run...</option>
+              {runs.map(run => <option key={run.id} value={run.id}>{formatRunOption(run)}</option>)}
+            </select>
+            <button
+              onClick={compareRuns}
+              disabled={loading || !baseId || !headId || baseId === headId}
+              className={`flex items-center gap-2 px-4 py-2 text-sm text-white rounded-lg shadow-md hover:shadow-lg transition-all ${
+                loading || !baseId || !headId || baseId === headId
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-indigo-500 to-blue-500 hover:from-indigo-600 hover:to-blue-600'
+              }`}
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+              Compare
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex flex-col items-center justify-center py-16">
+          <Loader2 className="w-10 h-10 text-indigo-500 animate-spin" />
+          <p className="text-gray-600 mt-4">Comparing runs...</p>
+          <p className="text-gray-400 text-sm mt-2">Device Farm runs are read from their Allure results the first time</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-16">
+          <XCircle className="w-16 h-16 text-red-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">{error}</p>
+        </div>
+      ) : !comparison ? (
+        <div className="text-center py-16">
+          <GitCompare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">Pick two completed runs to compare</p>
+        </div>
+      ) : (
+        <div className="p-6 space-y-6">
+          <div className="flex items-stretch gap-4">
+            {renderRun('Base', comparison.base)}
+            {renderRun('Head', comparison.head)}
+          </div>
+          <p className="text-xs text-gray-500">
+            {comparison.sameBuild ? 'Same build' : 'Different builds'} · {comparison.compared} tests in both runs
+            {comparison.added > 0 && ` · ${comparison.added} only in head`}
+            {comparison.removed > 0 && ` · ${comparison.removed} only in base`}
+          </p>
+
+          {SECTIONS.map(section => {
+            const tests = comparison[section.key];
+            const Icon = section.icon;
+            return (
+              <div key={section.key}>
+                <h3 className="flex items-center gap-2 font-medium text-gray-800 mb-2">
+                  <Icon className={`w-4 h-4 ${section.color}`} />
+                  {section.title}
+                  <span className="text-xs text-gray-500">({tests.length})</span>
+                </h3>
+                {tests.length === 0 ? (
+                  <p className="text-sm text-gray-400">{section.empty}</p>
+                ) : (
+                  <div className="divide-y border-t border-b">
+                    {tests.map(test => renderTest(test, section))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  Loader2,
+  Smartphone,
+  FileText,
+  RefreshCw,
+  ShieldCheck,
+  AlertTriangle
+} from 'lucide-react';
+
+interface FlakyTest {
+  file: string | null;
+  title: string;
+  fullTitle: string;
+  platform: string | null;
+  device: string | null;
+  runs: number;
+  failures: number;
+  flips: number;
+  score: number;
+  recentStates: ('passed' | 'failed' | 'broken' | 'skipped' | 'pending')[];
+  lastFailure: {
+    runId: string;
+    created: string;
+    errorMessage: string | null;
+  } | null;
+}
+
+export default function FlakyTests() {
+  const [flakyTests, setFlakyTests] = useState<FlakyTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [platform, setPlatform] = useState<'' | 'ios' | 'android'>('');
+  const [windowSize, setWindowSize] = useState(10);
+
+  useEffect(() => {
+    fetchFlakyTests();
+  }, [platform, windowSize]);
+
+  const fetchFlakyTests = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ window: String(windowSize) });
+      if (platform) {
+        params.set('platform', platform);
+      }
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/tests/flaky?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setFlakyTests(data.flakyTests || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch flaky tests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 0.5) return 'from-red-500 to-pink-500';
+    if (score >= 0.25) return 'from-orange-500 to-yellow-500';
+    return 'from-yellow-400 to-yellow-500';
+  };
+
+  const getStateColor = (state: FlakyTest['recentStates'][number]) => {
+    switch (state) {
+      case 'passed':
+        return 'bg-green-500';
+      case 'failed':
+        return 'bg-red-500';
+      case 'broken':
+        return 'bg-orange-500';
+      default:
+        return 'bg-gray-300';
+    }
+  };
+
+  return (
+    <div className="glass rounded-2xl shadow-xl overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gradient-to-r from-orange-50 to-yellow-50">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Flaky Tests</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Tests whose result flipped between pass and fail in their last {windowSize} runs
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={platform}
+              onChange={(e) => setPlatform(e.target.value as '' | 'ios' | 'android')}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500"
+            >
+              <option value="">All platforms</option>
+              <option value="android">Android</option>
+              <option value="ios">iOS</option>
+            </select>
+            <select
+              value={windowSize}
+              onChange={(e) => setWindowSize(parseInt(e.target.value))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500"
+            >
+              <option value={5}>Last 5 runs</option>
+              <option value={10}>Last 10 runs</option>
+              <option value={20}>Last 20 runs</option>
+            </select>
+            <button
+              onClick={fetchFlakyTests}
+              disabled={loading}
+              className={`flex items-center gap-2 px-4 py-2 text-sm text-white rounded-lg shadow-md hover:shadow-lg transition-all ${
+                loading
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-orange-500 to-yellow-500 hover:from-orange-600 hover:to-yellow-600'
+              }`}
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex flex-col items-center justify-center py-16">
+          <Loader2 className="w-10 h-10 text-orange-500 animate-spin" />
+          <p className="text-gray-600 mt-4">Scoring test history...</p>
+        </div>
+      ) : flakyTests.length === 0 ? (
+        <div className="text-center py-16">
+          <ShieldCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">No flaky tests found</p>
+          <p className="text-gray-400 text-sm mt-2">Every test with enough history has been stable</p>
+        </div>
+      ) : (
+        <div className="divide-y">
+          {flakyTests.map(test => (
+            <div
+              key={`${test.file}:${test.fullTitle}:${test.platform}:${test.device}`}
+              className="p-6 hover:bg-gradient-to-r hover:from-orange-50/30 hover:to-yellow-50/30 transition-all"
+            >
+              <div className="flex items-start justify-between gap-6">
+                <div className="flex items-start gap-4 min-w-0">
+                  <AlertTriangle className="w-5 h-5 text-orange-500 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <h3 className="font-medium text-gray-900">{test.title}</h3>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 mt-1">
+                      {test.file && (
+                        <span className="flex items-center gap-1">
+                          <FileText className="w-3 h-3" />
+                          {test.file}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Smartphone className="w-3 h-3" />
+                        {test.platform || 'unknown'}{test.device ? ` / ${test.device}` : ''}
+                      </span>
+                    </div>
+
+                    {/* Oldest to newest */}
+                    <div className="flex items-center gap-1 mt-3">
+                      {test.recentStates.map((state, index) => (
+                        <span
+                          key={index}
+                          title={state}
+                          className={`w-3 h-3 rounded-sm ${getStateColor(state)}`}
+                        />
+                      ))}
+                    </div>
+
+                    {test.lastFailure && (
+                      <p className="text-xs text-gray-500 mt-2 truncate">
+                        Last failed {format(new Date(test.lastFailure.created), 'MMM d, HH:mm')}
+                        {test.lastFailure.errorMessage && `: ${test.lastFailure.errorMessage}`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                  <span className={`text-sm font-bold text-white px-3 py-1 rounded-full bg-gradient-to-r ${getScoreColor(test.score)}`}>
+                    {Math.round(test.score * 100)}% flaky
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {test.flips} flips, {test.failures}/{test.runs} failed
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { 
   Loader2, 
   Clock, 
@@ -10,13 +10,20 @@ import {
   Monitor,
   AlertCircle,
   CheckCircle,
-  XCircle
+  XCircle,
+  Terminal,
+  Square
 } from 'lucide-react';
+import { useToast } from './ToastContainer';
+import { RunEvent, RunWatcherEvent } from '../../types';
+
+// Keep the tail short; the full output ends up in the Allure report
+const MAX_LOG_LINES = 50;
 
 interface RunningTest {
   id: string;
   name: string;
-  status: 'RUNNING' | 'PENDING' | 'SCHEDULING';
+  status: 'QUEUED' | 'RUNNING' | 'PENDING' | 'SCHEDULING';
   created: string;
   device: string;
   platform: 'ios' | 'android';
@@ -32,72 +39,169 @@ interface RunningTest {
   selectedTestCase?: string;
   executingTests?: string[];
   currentlyRunningTest?: string;
+  queuePosition?: number | null;
+}
+
+function LiveRunLog({ runId, onEnd }: { runId: string; onEnd: () => void }) {
+  const [logLines, setLogLines] = useState<string[]>([]);
+  const [currentSuite, setCurrentSuite] = useState<string | null>(null);
+  const [passed, setPassed] = useState(0);
+  const [failed, setFailed] = useState(0);
+  const logRef = useRef<HTMLDivElement>(null);
+  const onEndRef = useRef(onEnd);
+  onEndRef.current = onEnd;
+
+  useEffect(() => {
+    const source = new EventSource(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/run/stream?runId=${encodeURIComponent(runId)}`);
+
+    // The server replays buffered events on every (re)connect, so start from scratch
+    source.onopen = () => {
+      setLogLines([]);
+      setCurrentSuite(null);
+      setPassed(0);
+      setFailed(0);
+    };
+
+    source.onmessage = (message) => {
+      const event: RunEvent = JSON.parse(message.data);
+      switch (event.type) {
+        case 'log':
+          setLogLines(lines => [...lines, event.line].slice(-MAX_LOG_LINES));
+          break;
+        case 'suite:start':
+          setCurrentSuite(event.suite);
+          break;
+        case 'test:pass':
+          setPassed(count => count + 1);
+          break;
+        case 'test:fail':
+          setFailed(count => count + 1);
+          break;
+        case 'run:end':
+          source.close();
+          onEndRef.current();
+          break;
+      }
+    };
+
+    // EventSource reconnects on its own unless the server rejected the stream
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        source.close();
+      }
+    };
+
+    return () => source.close();
+  }, [runId]);
+
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [logLines]);
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 bg-gray-50 border-b border-gray-200 text-xs">
+        <span className="flex items-center gap-1 font-medium text-gray-700">
+          <Terminal className="w-3 h-3" />
+          {currentSuite || 'Waiting for first spec...'}
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1 text-green-700">
+            <CheckCircle className="w-3 h-3" />
+            {passed}
+          </span>
+          <span className="flex items-center gap-1 text-red-700">
+            <XCircle className="w-3 h-3" />
+            {failed}
+          </span>
+        </span>
+      </div>
+      <div ref={logRef} className="max-h-48 overflow-y-auto bg-gray-900 p-2 font-mono text-[11px] leading-4 text-gray-100">
+        {logLines.length === 0 ? (
+          <p className="text-gray-500">Waiting for output...</p>
+        ) : (
+          logLines.map((line, index) => (
+            <div key={index} className="whitespace-pre-wrap break-all">{line}</div>
+          ))
+        )}
+      </div>
+    </div>
+  );
 }
 
 export default function RunningTests() {
-  const [runningTests, setRunningTests] = useState<RunningTest[]>([]);
+  const { showToast } = useToast();
+  const [localTests, setLocalTests] = useState<RunningTest[]>([]);
+  const [deviceFarmTests, setDeviceFarmTests] = useState<RunningTest[]>([]);
+  const [now, setNow] = useState(() => Date.now());
   const [loading, setLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchRunningTests();
-    // Refresh every 3 seconds for more real-time updates
+    fetchLocalTests();
+    // Local runs are read from this server every 3 seconds; Device Farm runs are pushed (see below)
     const interval = setInterval(() => {
-      fetchRunningTests();
+      fetchLocalTests();
     }, 3000);
     return () => clearInterval(interval);
   }, []);
 
-  const fetchRunningTests = async () => {
+  // Device Farm runs come from the server's run watcher, which polls AWS once per run however many tabs are open
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let closed = false;
+
+    const connect = () => {
+      if (closed) return;
+      source = new EventSource(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/events`);
+
+      source.onmessage = (message) => {
+        const event: RunWatcherEvent = JSON.parse(message.data);
+        if (event.type === 'snapshot') {
+          setDeviceFarmTests(event.runs as RunningTest[]);
+          return;
+        }
+        setDeviceFarmTests(tests => {
+          const others = tests.filter(test => test.id !== event.run.id);
+          return event.run.status === 'COMPLETED' ? others : [...others, event.run as RunningTest];
+        });
+      };
+
+      // EventSource reconnects on its own (and gets a fresh snapshot) unless the server rejected the stream
+      source.onerror = () => {
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+        }
+      };
+    };
+
+    // Runs started outside this runner (e.g. from the AWS console) are looked up once, then watched like the rest
+    fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/running`)
+      .catch(error => console.warn('Failed to look up running Device Farm tests:', error))
+      .finally(connect);
+
+    return () => {
+      closed = true;
+      source?.close();
+    };
+  }, []);
+
+  const fetchLocalTests = async () => {
     try {
-      // Fetch local tests, Device Farm running tests, and history
-      const [localResponse, deviceFarmResponse, historyResponse] = await Promise.all([
-        fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/run`), // Gets all running local tests
-        fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/running`), // Gets current running Device Farm tests
-        fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/history`) // Gets history including running Device Farm tests
-      ]);
-
-      // Check if responses are OK and content type is JSON
-      const localData = localResponse.ok && localResponse.headers.get('content-type')?.includes('application/json') 
-        ? await localResponse.json() 
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/run`); // Gets all running local tests
+
+      // Check if the response is OK and content type is JSON
+      const localData = response.ok && response.headers.get('content-type')?.includes('application/json')
+        ? await response.json()
         : { tests: [] };
-      
-      const deviceFarmData = deviceFarmResponse.ok && deviceFarmResponse.headers.get('content-type')?.includes('application/json')
-        ? await deviceFarmResponse.json()
-        : { runningTests: [] };
-      
-      const historyData = historyResponse.ok && historyResponse.headers.get('content-type')?.includes('application/json')
-        ? await historyResponse.json()
-        : { history: [] };
 
       // Filter for running tests only
-      const runningLocal = localData.tests?.filter((t: any) => 
-        t.status === 'RUNNING' || t.status === 'PENDING'
-      ) || [];
-
-      // Get Device Farm running tests (prioritize direct API call over history)
-      const runningDeviceFarm = deviceFarmData.runningTests || 
-        historyData.history?.filter((h: any) => 
-          (h.status === 'RUNNING' || h.status === 'PENDING' || h.status === 'SCHEDULING') && h.isDeviceFarm
-        ) || [];
-
-      // Calculate elapsed time for each test
-      const now = Date.now();
-      const testsWithElapsedTime = [...runningLocal, ...runningDeviceFarm].map(test => ({
-        ...test,
-        elapsedTime: test.created ? 
-          Math.floor((now - new Date(test.created).getTime()) / 1000) : 0
-      }));
-
-      setRunningTests(testsWithElapsedTime);
-      
-      // Debug logging
-      if (process.env.NODE_ENV === 'development') {
-        console.log('Running tests update:', {
-          local: runningLocal.length,
-          deviceFarm: runningDeviceFarm.length,
-          total: testsWithElapsedTime.length
-        });
-      }
+      setLocalTests(localData.tests?.filter((t: any) =>
+        t.status === 'QUEUED' || t.status === 'RUNNING' || t.status === 'PENDING'
+      ) || []);
+      setNow(Date.now());
     } catch (error) {
       console.error('Failed to fetch running tests:', error);
     } finally {
@@ -105,6 +209,44 @@ export default function RunningTests() {
     }
   };
 
+  // Calculate elapsed time for each test
+  const runningTests = [...localTests, ...deviceFarmTests].map(test => ({
+    ...test,
+    elapsedTime: test.created ?
+      Math.floor((now - new Date(test.created).getTime()) / 1000) : 0
+  }));
+
+  const cancelTest = async (test: RunningTest) => {
+    const prompt = test.status === 'QUEUED'
+      ? `Remove "${test.name}" from the queue?`
+      : `Cancel "${test.name}"? Results recorded so far will be kept.`;
+    if (!window.confirm(prompt)) {
+      return;
+    }
+
+    setCancellingId(test.id);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/run?runId=${encodeURIComponent(test.id)}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+
+      if (response.ok && test.status === 'QUEUED') {
+        showToast('info', 'Removed from Queue', `${test.name} will not run`);
+      } else if (response.ok) {
+        showToast('info', 'Cancelling Test', 'Stopping wdio and saving partial results...');
+      } else {
+        showToast('error', 'Cancel Failed', data.error || 'Could not cancel the test run');
+      }
+      await fetchLocalTests();
+    } catch (error) {
+      console.error('Failed to cancel test:', error);
+      showToast('error', 'Cancel Failed', 'Could not cancel the test run');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const formatElapsedTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -115,6 +257,7 @@ export default function RunningTests() {
     switch (status) {
       case 'RUNNING':
         return <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />;
+      case 'QUEUED':
       case 'PENDING':
       case 'SCHEDULING':
         return <Clock className="w-5 h-5 text-yellow-500 animate-pulse" />;
@@ -212,6 +355,29 @@ export default function RunningTests() {
                   <span className="text-xs px-2 py-1 bg-gray-100 rounded-full">
                     {test.status}
                   </span>
+                  {test.status === 'QUEUED' && test.queuePosition && (
+                    <span className="text-xs px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full">
+                      #{test.queuePosition} in queue for {test.device || 'default device'}
+                    </span>
+                  )}
+                  {!test.isDeviceFarm && (test.status === 'RUNNING' || test.status === 'QUEUED') && (
+                    <button
+                      onClick={() => cancelTest(test)}
+                      disabled={cancellingId === test.id}
+                      className={`ml-auto flex items-center gap-1 px-3 py-1 text-xs rounded-lg transition-all ${
+                        cancellingId === test.id
+                          ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                          : 'bg-red-50 text-red-700 border border-red-200 hover:bg-red-100'
+                      }`}
+                    >
+                      {cancellingId === test.id ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <Square className="w-3 h-3" />
+                      )}
+                      Cancel
+                    </button>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-4 text-sm text-gray-600 mb-3">
@@ -230,9 +396,11 @@ export default function RunningTests() {
                 </div>
 
                 {/* Progress Bar */}
-                <div className="mb-2">
-                  {getProgressBar(test)}
-                </div>
+                {test.status !== 'QUEUED' && (
+                  <div className="mb-2">
+                    {getProgressBar(test)}
+                  </div>
+                )}
 
                 {/* Current Step */}
                 {test.currentStep && (
@@ -295,6 +463,11 @@ export default function RunningTests() {
                   )}
                 </div>
 
+                {/* Live output for local runs */}
+                {!test.isDeviceFarm && test.status === 'RUNNING' && (
+                  <LiveRunLog runId={test.id} onEnd={fetchLocalTests} />
+                )}
+
                 {/* Test ID */}
                 <p className="text-xs text-gray-400 mt-2">
                   ID: {test.id}
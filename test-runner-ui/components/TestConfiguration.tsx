@@ -1,9 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Play, Smartphone, Package, FileCode, RefreshCw, Download } from 'lucide-react';
 import { useToast } from './ToastContainer';
-import BuildFetchModal from './BuildFetchModal';
+import BuildFetchModal, { formatEta, getPhaseLabel } from './BuildFetchModal';
+import TestSuiteTree from './TestSuiteTree';
+import { BuildFetchJob, BuildFetchJobEvent, DeviceFarmBudgetStatus, DeviceMatrix, TagCatalog, TestNode } from '../../types';
 
 interface Build {
   id: string;
@@ -18,6 +20,7 @@ interface Build {
 interface TestFile {
   path: string;
   name: string;
+  suites: TestNode[];
   tests: string[];
 }
 
@@ -41,6 +44,8 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
   const [platform, setPlatform] = useState<'ios' | 'android'>('android');
   const [selectedBuild, setSelectedBuild] = useState<string>('');
   const [selectedDevice, setSelectedDevice] = useState<string>('');
+  const [selectedDeviceFarmDevices, setSelectedDeviceFarmDevices] = useState<string[]>([]);
+  const [shardAcrossDevices, setShardAcrossDevices] = useState(false);
   const [testMode, setTestMode] = useState<'full' | 'single'>('full');
   const [selectedTest, setSelectedTest] = useState<string>('');
   const [selectedTestCase, setSelectedTestCase] = useState<string>('');
@@ -52,7 +57,13 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
   const [builds, setBuilds] = useState<Build[]>([]);
   const [testFiles, setTestFiles] = useState<TestFile[]>([]);
   const [deviceFarmTestSuites, setDeviceFarmTestSuites] = useState<{ [key: string]: string[] }>({});
+  const [deviceFarmSuiteTrees, setDeviceFarmSuiteTrees] = useState<{ [key: string]: TestNode[] }>({});
   const [deviceFarmDevices, setDeviceFarmDevices] = useState<DeviceFarmDevice[]>([]);
+  const [deviceMatrices, setDeviceMatrices] = useState<DeviceMatrix[]>([]);
+  const [selectedMatrixId, setSelectedMatrixId] = useState<string>('');
+  const [matrixDevices, setMatrixDevices] = useState<DeviceFarmDevice[]>([]);
+  const [resolvingMatrix, setResolvingMatrix] = useState(false);
+  const [deviceFarmBudget, setDeviceFarmBudget] = useState<DeviceFarmBudgetStatus | null>(null);
   const [loadingBuilds, setLoadingBuilds] = useState(false);
   const [loadingTests, setLoadingTests] = useState(false);
   const [loadingDevices, setLoadingDevices] = useState(false);
@@ -61,15 +72,19 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
   
   // Build fetch modal
   const [showBuildFetchModal, setShowBuildFetchModal] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState<{ isActive: boolean; message: string; }>({ isActive: false, message: '' });
+  // The build fetch in progress, or the last one to finish, followed over SSE
+  const [buildFetchJob, setBuildFetchJob] = useState<BuildFetchJob | null>(null);
   
   
   // Tag selection state
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const availableTags = ['@smoke', '@regression', '@critical', '@auth', '@banking', '@portfolio', '@settings'];
+  const [tagCatalog, setTagCatalog] = useState<TagCatalog | null>(null);
+  // Platform tags follow the platform selection rather than the picker
+  const availableTags = (tagCatalog?.tags || []).filter(usage => usage.tag !== '@ios' && usage.tag !== '@android');
 
   useEffect(() => {
     fetchTestFiles();
+    fetchTagCatalog();
     // Auto-select Device Farm when deployed on AWS
     if (isAWSDeployment) {
       setRunLocation('device-farm');
@@ -79,11 +94,13 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
   useEffect(() => {
     if (runLocation === 'device-farm') {
       fetchDeviceFarmTestSuites();
+      fetchDeviceFarmBudget();
     }
   }, [runLocation]);
 
   useEffect(() => {
     fetchBuilds();
+    fetchDeviceMatrices();
     if (runLocation === 'device-farm') {
       fetchDeviceFarmDevices();
     }
@@ -115,6 +132,17 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
   };
 
 
+  const fetchTagCatalog = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/tests/tags`);
+      if (response.ok) {
+        setTagCatalog(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch tag catalog:', error);
+    }
+  };
+
   const fetchBuilds = async () => {
     setLoadingBuilds(true);
     try {
@@ -132,21 +160,71 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
 
   const handleBuildFetchSuccess = async (message: string) => {
     showToast('success', 'Build Fetched', message);
-    // Clear download progress and refresh the builds list
-    setDownloadProgress({ isActive: false, message: '' });
+    // Refresh the builds list
     await fetchBuilds();
   };
 
-  const handleDownloadStart = (message: string) => {
-    setDownloadProgress({ isActive: true, message });
-  };
-
   const handleBuildFetchError = (message: string) => {
     showToast('error', 'Fetch Failed', message);
-    // Clear download progress on error
-    setDownloadProgress({ isActive: false, message: '' });
   };
 
+  const handleBuildFetchDone = (job: BuildFetchJob) => {
+    if (job.status === 'completed') {
+      handleBuildFetchSuccess(`✅ Successfully downloaded the ${job.platform} build from ${job.branch} to ${job.filePath?.split('/').pop()}`);
+    } else {
+      handleBuildFetchError(`❌ Failed to download the ${job.platform} build from ${job.branch}: ${job.error || 'Unknown error'}`);
+    }
+  };
+  const onBuildFetchDoneRef = useRef(handleBuildFetchDone);
+  onBuildFetchDoneRef.current = handleBuildFetchDone;
+
+  // Pick up a build fetch that is still running, e.g. after a page reload
+  const fetchRunningBuildFetch = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/builds/fetch`);
+      if (response.ok) {
+        const data = await response.json();
+        const running = (data.jobs || []).find((job: BuildFetchJob) => job.status === 'running');
+        if (running) {
+          setBuildFetchJob(running);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch build fetch jobs:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRunningBuildFetch();
+  }, []);
+
+  // Follow the running build fetch until it finishes
+  useEffect(() => {
+    if (!buildFetchJob || buildFetchJob.status !== 'running') {
+      return;
+    }
+    const source = new EventSource(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/builds/fetch/events?jobId=${encodeURIComponent(buildFetchJob.id)}`);
+
+    source.onmessage = (message) => {
+      const { job }: BuildFetchJobEvent = JSON.parse(message.data);
+      setBuildFetchJob(job);
+      if (job.status !== 'running') {
+        source.close();
+        onBuildFetchDoneRef.current(job);
+      }
+    };
+
+    // EventSource reconnects on its own unless the server rejected the stream, e.g. after a restart lost the job
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setBuildFetchJob(null);
+        handleBuildFetchError('❌ Lost track of the build download. Check the builds list once it has had time to finish.');
+      }
+    };
+
+    return () => source.close();
+  }, [buildFetchJob?.id]);
+
   const fetchDeviceFarmTestSuites = async () => {
     setLoadingTestSuites(true);
     try {
@@ -158,6 +236,7 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
         data = await response.json();
         console.log('Device Farm test suites (from S3):', data.testSuites);
         setDeviceFarmTestSuites(data.testSuites || {});
+        setDeviceFarmSuiteTrees(data.suiteTrees || {});
       } else {
         // Local development - read from local file system
         response = await fetch('/api/tests');
@@ -166,10 +245,13 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
         
         // Convert testFiles format to testSuites format
         const testSuites: { [key: string]: string[] } = {};
-        data.testFiles?.forEach((file: any) => {
+        const suiteTrees: { [key: string]: TestNode[] } = {};
+        data.testFiles?.forEach((file: TestFile) => {
           testSuites[file.path] = file.tests;  // Use full path instead of just filename
+          suiteTrees[file.path] = file.suites;
         });
         setDeviceFarmTestSuites(testSuites);
+        setDeviceFarmSuiteTrees(suiteTrees);
       }
     } catch (error) {
       console.error('Failed to fetch test suites:', error);
@@ -196,6 +278,7 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
       console.log('First few devices:', data.devices?.slice(0, 5));
       setDeviceFarmDevices(data.devices || []);
       setSelectedDevice(''); // Reset device selection when devices change
+      setSelectedDeviceFarmDevices([]);
     } catch (error) {
       console.error('Failed to fetch Device Farm devices:', error);
     } finally {
@@ -203,6 +286,87 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
     }
   };
 
+  const toggleDeviceFarmDevice = (deviceArn: string) => {
+    const next = selectedDeviceFarmDevices.includes(deviceArn)
+      ? selectedDeviceFarmDevices.filter(arn => arn !== deviceArn)
+      : [...selectedDeviceFarmDevices, deviceArn];
+    setSelectedDeviceFarmDevices(next);
+    // The first device stands in for the selection in the checks shared with local runs
+    setSelectedDevice(next[0] || '');
+    // Picking by hand leaves the matrix behind
+    setSelectedMatrixId('');
+  };
+
+  const fetchDeviceFarmBudget = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/usage`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeviceFarmBudget(data.budget || null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch Device Farm usage:', error);
+    }
+  };
+
+  // Over budget with blocking on, the run route would refuse the run anyway
+  const deviceFarmBlocked = runLocation === 'device-farm' && !!deviceFarmBudget?.exceeded && deviceFarmBudget.blocksRuns;
+
+  const fetchDeviceMatrices = async () => {
+    setSelectedMatrixId('');
+    setMatrixDevices([]);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-matrices?platform=${platform}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeviceMatrices(data.matrices || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch device matrices:', error);
+    }
+  };
+
+  // Resolve a saved matrix to today's devices and select them
+  const selectDeviceMatrix = async (matrixId: string) => {
+    setSelectedMatrixId(matrixId);
+    setMatrixDevices([]);
+    if (!matrixId) {
+      setSelectedDevice('');
+      setSelectedDeviceFarmDevices([]);
+      return;
+    }
+
+    setResolvingMatrix(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-matrices/resolve?id=${encodeURIComponent(matrixId)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resolve device matrix');
+      }
+
+      const devices: DeviceFarmDevice[] = data.devices || [];
+      if (devices.length === 0) {
+        showToast('warning', 'No Matching Devices', 'No devices currently match this matrix');
+      }
+      setMatrixDevices(devices);
+      if (runLocation === 'device-farm') {
+        setSelectedDeviceFarmDevices(devices.map(device => device.id));
+        setSelectedDevice(devices[0]?.id || '');
+      } else {
+        setSelectedDevice(devices[0]?.name || '');
+      }
+    } catch (error: any) {
+      console.error('Failed to resolve device matrix:', error);
+      showToast('error', 'Failed to resolve device matrix', error.message || 'Unknown error');
+      setSelectedMatrixId('');
+    } finally {
+      setResolvingMatrix(false);
+    }
+  };
+
+  // Sharding splits the spec files of a full-suite run between the picked devices
+  const shardingEnabled = shardAcrossDevices && testMode === 'full' && selectedDeviceFarmDevices.length > 1;
+
   const handleRunTest = async () => {
     const config = {
       platform,
@@ -273,16 +437,18 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
             return;
           }
           
-          // Create device pool for selected device if using Device Farm
+          // Create device pool for selected devices if using Device Farm (a sharded run makes one per shard itself)
           let devicePoolArn = '';
-          if (runLocation === 'device-farm') {
+          if (shardingEnabled) {
+            console.log(`Sharding across ${selectedDeviceFarmDevices.length} devices`);
+          } else if (runLocation === 'device-farm') {
             try {
-              console.log('Creating device pool for selected device...');
+              console.log('Creating device pool for selected devices...');
               const devicePoolResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/devices`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                  deviceArn: selectedDevice,
+                  deviceArns: selectedDeviceFarmDevices,
                   platform
                 })
               });
@@ -302,20 +468,22 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
             }
           } else {
             // Use default device pool for backward compatibility
-            devicePoolArn = platform === 'android' 
-              ? 'arn:aws:devicefarm:us-west-2:859998284317:devicepool:9a2e2485-4bd8-4b1a-af28-254326345350/a2abb9be-9849-48fa-9cc2-0d56897b8772'
-              : process.env.NEXT_PUBLIC_DEVICE_FARM_IOS_POOL_ARN || '';
+            devicePoolArn = (platform === 'android'
+              ? process.env.NEXT_PUBLIC_DEVICE_FARM_ANDROID_POOL_ARN
+              : process.env.NEXT_PUBLIC_DEVICE_FARM_IOS_POOL_ARN) || '';
           }
           
           const deviceFarmConfig = {
-            projectArn: process.env.NEXT_PUBLIC_DEVICE_FARM_PROJECT_ARN || 'arn:aws:devicefarm:us-west-2:859998284317:project:9a2e2485-4bd8-4b1a-af28-254326345350',
-            devicePoolArn,
+            devicePoolArn: devicePoolArn || undefined,
+            deviceArns: shardingEnabled ? selectedDeviceFarmDevices : undefined,
+            shard: shardingEnabled,
             platform,
             buildPath: selectedBuildInfo.path,
             testSpecPath: platform === 'Android' ? 'device-farm-testspec-android.yml' : 'device-farm-testspec-ios.yml',
             testMode,
             testSuite: testMode === 'single' ? selectedTest : undefined,
-            testCase: testMode === 'single' ? selectedTestCase : undefined
+            testCase: testMode === 'single' ? selectedTestCase : undefined,
+            tags: selectedTags
           };
           
           // Call the Device Farm Lambda API (asynchronous)
@@ -339,8 +507,13 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
             }
           } else {
             const error = await response.json();
-            showToast('error', 'Failed to start Device Farm test', 
-              `${error.error} - Make sure your AWS credentials are configured in .env.local`);
+            if (error.budget) {
+              setDeviceFarmBudget(error.budget);
+              showToast('error', 'Device Farm Budget Exceeded', error.error);
+            } else {
+              showToast('error', 'Failed to start Device Farm test',
+                `${error.error} - Make sure your AWS credentials are configured in .env.local`);
+            }
           }
         }
         
@@ -348,6 +521,37 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
         return;
       }
       
+      // A matrix on a local machine starts one run per device; the queue runs them as devices free up
+      if (selectedMatrixId && matrixDevices.length > 0) {
+        const runIds: string[] = [];
+        for (const device of matrixDevices) {
+          const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/run`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...config,
+              device: device.name,
+              deviceName: device.name,
+              osVersion: device.osVersion
+            })
+          });
+          if (response.ok) {
+            const { runId } = await response.json();
+            runIds.push(runId);
+          } else {
+            console.error(`Failed to start test on ${device.name}`);
+          }
+        }
+
+        if (runIds.length === 0) {
+          showToast('error', 'Failed to start test', 'Check console for details');
+          return;
+        }
+        showToast('info', 'Matrix Runs Started', `Started ${runIds.length} of ${matrixDevices.length} device runs`);
+        onTestStart(runIds[0]);
+        return;
+      }
+      
       // Local test execution
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/run`, {
         method: 'POST',
@@ -356,7 +560,10 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
       });
       
       if (response.ok) {
-        const { runId } = await response.json();
+        const { runId, queuePosition } = await response.json();
+        if (queuePosition > 0) {
+          showToast('info', 'Test Queued', `Another run is using this device. Position in queue: ${queuePosition}`);
+        }
         onTestStart(runId);
       } else {
         console.error('Failed to start test');
@@ -524,27 +731,30 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
               Build
             </label>
             <div className="flex items-center gap-2">
-              <button
-                onClick={() => setShowBuildFetchModal(true)}
-                disabled={downloadProgress.isActive}
-                className={`text-xs flex items-center gap-1 transition-colors ${
-                  downloadProgress.isActive 
-                    ? 'text-gray-400 cursor-not-allowed' 
-                    : 'text-blue-600 hover:text-blue-700'
-                }`}
-              >
-                <Download className="w-3 h-3" />
-                Fetch Build
-              </button>
-              {downloadProgress.isActive && (
-                <div className="flex items-center gap-2 ml-2">
-                  <div className="flex items-center gap-1">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
-                    <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" style={{ animationDelay: '0.2s' }}></div>
-                    <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" style={{ animationDelay: '0.4s' }}></div>
+              {buildFetchJob?.status === 'running' ? (
+                // Reopens the modal on the download's progress
+                <button
+                  onClick={() => setShowBuildFetchModal(true)}
+                  className="flex items-center gap-2 text-xs text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <div className="w-16 h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full bg-blue-500 rounded-full transition-all duration-300 ${buildFetchJob.percent === null ? 'w-full animate-pulse' : ''}`}
+                      style={buildFetchJob.percent !== null ? { width: `${buildFetchJob.percent}%` } : undefined}
+                    />
                   </div>
-                  <span className="text-xs text-blue-600 font-medium">{downloadProgress.message}</span>
-                </div>
+                  {getPhaseLabel(buildFetchJob.phase)}
+                  {buildFetchJob.phase === 'downloading' && buildFetchJob.percent !== null && ` ${buildFetchJob.percent}%`}
+                  {buildFetchJob.phase === 'downloading' && buildFetchJob.etaSeconds !== null && ` · ${formatEta(buildFetchJob.etaSeconds)}`}
+                </button>
+              ) : (
+                <button
+                  onClick={() => setShowBuildFetchModal(true)}
+                  className="text-xs flex items-center gap-1 transition-colors text-blue-600 hover:text-blue-700"
+                >
+                  <Download className="w-3 h-3" />
+                  Fetch Build
+                </button>
               )}
             </div>
           </div>
@@ -569,49 +779,96 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
         <div>
           <label className="block text-xs font-medium text-gray-700 mb-2">
             <Smartphone className="w-3.5 h-3.5 inline mr-1" />
-            Device {runLocation === 'device-farm' && '(AWS Device Farm)'}
+            {runLocation === 'device-farm' ? 'Devices (AWS Device Farm)' : 'Device'}
           </label>
-          <select
-            value={selectedDevice}
-            onChange={(e) => setSelectedDevice(e.target.value)}
-            disabled={loadingDevices}
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
-          >
-            <option value="">
-              {loadingDevices ? 'Loading devices...' : 'Select device...'}
-            </option>
-            {runLocation === 'device-farm' ? (
-              // Device Farm devices
-              deviceFarmDevices.map(device => (
-                <option key={device.id} value={device.id}>
-                  {device.manufacturer} {device.name} - {device.os} {device.osVersion}
+          {deviceMatrices.length > 0 && (
+            <select
+              value={selectedMatrixId}
+              onChange={(e) => selectDeviceMatrix(e.target.value)}
+              disabled={resolvingMatrix}
+              className="w-full mb-2 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="">{resolvingMatrix ? 'Resolving matrix...' : 'No device matrix (pick devices)'}</option>
+              {deviceMatrices.map(matrix => (
+                <option key={matrix.id} value={matrix.id} title={matrix.description}>
+                  Matrix: {matrix.name}
                 </option>
-              ))
-            ) : (
-              // Local devices (fallback to hardcoded list)
-              <>
-                {platform === 'android' && (
-                  <>
-                    <option value="samsung_s21">Samsung Galaxy S21 - Android 13</option>
-                    <option value="pixel_7">Google Pixel 7 - Android 13</option>
-                    <option value="pixel_6">Google Pixel 6 - Android 12</option>
-                  </>
-                )}
-                {platform === 'ios' && (
-                  <>
-                    <option value="iphone_14">iPhone 14 - iOS 16</option>
-                    <option value="iphone_13">iPhone 13 - iOS 15</option>
-                    <option value="iphone_12">iPhone 12 - iOS 14</option>
-                  </>
-                )}
-              </>
-            )}
-          </select>
+              ))}
+            </select>
+          )}
+          {runLocation === 'device-farm' ? (
+            // Device Farm devices: pick one or more
+            <div className="max-h-48 overflow-y-auto border border-gray-300 rounded-md divide-y divide-gray-100">
+              {loadingDevices ? (
+                <div className="px-3 py-2 text-sm text-gray-500">Loading devices...</div>
+              ) : deviceFarmDevices.map(device => (
+                <label key={device.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedDeviceFarmDevices.includes(device.id)}
+                    onChange={() => toggleDeviceFarmDevice(device.id)}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{device.manufacturer} {device.name} - {device.os} {device.osVersion}</span>
+                </label>
+              ))}
+            </div>
+          ) : selectedMatrixId ? (
+            // Local devices from the matrix: one run per simulator/emulator
+            <div className="border border-gray-300 rounded-md divide-y divide-gray-100">
+              {matrixDevices.map(device => (
+                <div key={device.id} className="px-3 py-1.5 text-sm">
+                  {device.name} - {device.os} {device.osVersion}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <select
+              value={selectedDevice}
+              onChange={(e) => setSelectedDevice(e.target.value)}
+              disabled={loadingDevices}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="">
+                {loadingDevices ? 'Loading devices...' : 'Select device...'}
+              </option>
+              {/* Local devices (fallback to hardcoded list) */}
+              {platform === 'android' && (
+                <>
+                  <option value="samsung_s21">Samsung Galaxy S21 - Android 13</option>
+                  <option value="pixel_7">Google Pixel 7 - Android 13</option>
+                  <option value="pixel_6">Google Pixel 6 - Android 12</option>
+                </>
+              )}
+              {platform === 'ios' && (
+                <>
+                  <option value="iphone_14">iPhone 14 - iOS 16</option>
+                  <option value="iphone_13">iPhone 13 - iOS 15</option>
+                  <option value="iphone_12">iPhone 12 - iOS 14</option>
+                </>
+              )}
+            </select>
+          )}
           {runLocation === 'device-farm' && (
             <div className="text-xs text-gray-500 mt-1">
-              {loadingDevices ? 'Loading available devices...' : `${deviceFarmDevices.length} devices available`}
+              {loadingDevices 
+                ? 'Loading available devices...' 
+                : `${selectedDeviceFarmDevices.length} of ${deviceFarmDevices.length} devices selected`}
             </div>
           )}
+          {runLocation === 'device-farm' && selectedDeviceFarmDevices.length > 1 && (
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={shardAcrossDevices}
+                onChange={(e) => setShardAcrossDevices(e.target.checked)}
+                disabled={testMode !== 'full'}
+                className="rounded border-gray-300"
+              />
+              Shard spec files across devices
+              {testMode !== 'full' && <span className="text-gray-400">(full suite only)</span>}
+            </label>
+          )}
         </div>
 
         {/* Test Mode Selection */}
@@ -655,9 +912,10 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
             )}
             
             {/* Other available tags */}
-            {availableTags.map(tag => (
+            {availableTags.map(({ tag, count, known }) => (
               <button
                 key={tag}
+                title={known ? `${count} test(s)` : `${count} test(s) - not listed in TAGS (test/utils/tag.utils.ts)`}
                 onClick={() => {
                   if (selectedTags.includes(tag)) {
                     setSelectedTags(prev => prev.filter(t => t !== tag));
@@ -668,13 +926,32 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
                 className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors ${
                   selectedTags.includes(tag)
                     ? 'bg-green-100 text-green-800 border border-green-200'
-                    : 'bg-gray-100 text-gray-700 border border-gray-200 hover:bg-gray-200'
+                    : known
+                      ? 'bg-gray-100 text-gray-700 border border-gray-200 hover:bg-gray-200'
+                      : 'bg-amber-50 text-amber-800 border border-amber-300 hover:bg-amber-100'
                 }`}
               >
                 {tag}
+                <span className="ml-1 text-gray-500">{count}</span>
               </button>
             ))}
+            {tagCatalog && availableTags.length === 0 && (
+              <span className="text-xs text-gray-400">No tags used in tests</span>
+            )}
           </div>
+          {tagCatalog && tagCatalog.unknownTags.length > 0 && (
+            <div className="text-xs text-amber-700 mt-1">
+              Unknown tags (not in TAGS): {tagCatalog.unknownTags.join(', ')}
+            </div>
+          )}
+          {tagCatalog && tagCatalog.testsWithoutPlatform.length > 0 && (
+            <div
+              className="text-xs text-gray-500 mt-1"
+              title={tagCatalog.testsWithoutPlatform.map(test => `${test.file}:${test.line} ${test.fullTitle}`).join('\n')}
+            >
+              {tagCatalog.testsWithoutPlatform.length} test(s) have no platform tag
+            </div>
+          )}
           <div className="text-xs text-gray-500 mt-1">
             {selectedTags.length > 0 ? (
               <>Selected: {selectedTags.join(', ')}</>
@@ -715,7 +992,17 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
                   </select>
                 </div>
 
-                {selectedTest && (
+                {selectedTest && deviceFarmSuiteTrees[selectedTest] ? (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-2">Test Case</label>
+                    <TestSuiteTree
+                      suites={deviceFarmSuiteTrees[selectedTest]}
+                      selectedTestCase={selectedTestCase}
+                      onSelect={setSelectedTestCase}
+                      allLabel="All tests in suite"
+                    />
+                  </div>
+                ) : selectedTest && (
                   <div>
                     <label className="block text-xs font-medium text-gray-700 mb-2">Test Case</label>
                     <select
@@ -764,18 +1051,11 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
                 {selectedTest && selectedTestFile && (
                   <div>
                     <label className="block text-xs font-medium text-gray-700 mb-2">Test Case</label>
-                    <select
-                      value={selectedTestCase}
-                      onChange={(e) => setSelectedTestCase(e.target.value)}
-                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
-                    >
-                      <option value="">All tests in file</option>
-                      {selectedTestFile.tests.map(test => (
-                        <option key={test} value={test}>
-                          {test}
-                        </option>
-                      ))}
-                    </select>
+                    <TestSuiteTree
+                      suites={selectedTestFile.suites}
+                      selectedTestCase={selectedTestCase}
+                      onSelect={setSelectedTestCase}
+                    />
                   </div>
                 )}
               </>
@@ -783,6 +1063,17 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
           </>
         )}
 
+        {/* Monthly Device Farm budget */}
+        {runLocation === 'device-farm' && deviceFarmBudget?.warning && (
+          <div className={`p-3 rounded-md border text-xs ${
+            deviceFarmBudget.exceeded ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}>
+            {deviceFarmBudget.exceeded ? 'Monthly Device Farm budget exceeded' : 'Monthly Device Farm budget nearly used'}
+            {`: $${deviceFarmBudget.spent.toFixed(2)} of $${deviceFarmBudget.limit.toFixed(2)} (${deviceFarmBudget.percentUsed}%)`}
+            {deviceFarmBlocked && '. New Device Farm runs are blocked until next month.'}
+          </div>
+        )}
+
         {/* Configuration Summary */}
         {selectedBuild && selectedDevice && (
           <div className="p-3 bg-blue-50 rounded-md border border-blue-200">
@@ -792,13 +1083,20 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
               <p>• Build: <span className="font-medium">{selectedBuildInfo?.filename}</span></p>
               <p>• Location: <span className="font-medium">{runLocation === 'device-farm' ? 'AWS Device Farm' : 'Local Device'}</span></p>
               <p>• Device: <span className="font-medium">
-                {runLocation === 'device-farm' && selectedDeviceInfo 
+                {runLocation === 'device-farm' && selectedDeviceFarmDevices.length > 1
+                  ? `${selectedDeviceFarmDevices.length} devices${shardingEnabled ? ', spec files sharded between them' : ', each running every test'}`
+                  : runLocation === 'device-farm' && selectedDeviceInfo 
                   ? `${selectedDeviceInfo.manufacturer} ${selectedDeviceInfo.name} (${selectedDeviceInfo.os} ${selectedDeviceInfo.osVersion})`
+                  : runLocation === 'local' && selectedMatrixId
+                    ? `${matrixDevices.length} devices, one run each`
                   : runLocation === 'local' 
                     ? selectedDevice 
                     : 'Unknown'
                 }
               </span></p>
+              {selectedMatrixId && (
+                <p>• Matrix: <span className="font-medium">{deviceMatrices.find(matrix => matrix.id === selectedMatrixId)?.name}</span></p>
+              )}
               <p>• Mode: <span className="font-medium">{testMode === 'full' ? 'Full Suite' : 'Single Test'}</span></p>
               {testMode === 'single' && selectedTest && (
                 <>
@@ -813,9 +1111,9 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
         {/* Run Button */}
         <button
           onClick={handleRunTest}
-          disabled={!selectedBuild || !selectedDevice || (testMode === 'single' && !selectedTest) || (runLocation === 'device-farm' && submittingDeviceFarm)}
+          disabled={!selectedBuild || !selectedDevice || (testMode === 'single' && !selectedTest) || (runLocation === 'device-farm' && submittingDeviceFarm) || deviceFarmBlocked}
           className={`w-full py-2.5 px-4 rounded-md font-medium text-sm flex items-center justify-center gap-2 transition-all ${
-            selectedBuild && selectedDevice && (testMode === 'full' || selectedTest) && !(runLocation === 'device-farm' && submittingDeviceFarm)
+            selectedBuild && selectedDevice && (testMode === 'full' || selectedTest) && !(runLocation === 'device-farm' && submittingDeviceFarm) && !deviceFarmBlocked
               ? 'bg-blue-500 text-white hover:bg-blue-600'
               : 'bg-gray-100 text-gray-400 cursor-not-allowed'
           }`}
@@ -838,9 +1136,9 @@ export default function TestConfiguration({ onTestStart }: TestConfigurationProp
       <BuildFetchModal
         isOpen={showBuildFetchModal}
         onClose={() => setShowBuildFetchModal(false)}
-        onSuccess={handleBuildFetchSuccess}
         onError={handleBuildFetchError}
-        onDownloadStart={handleDownloadStart}
+        job={buildFetchJob}
+        onJobStarted={setBuildFetchJob}
       />
     </div>
   );
@@ -17,13 +17,17 @@ import {
   FileText,
   Loader2,
   BarChart2,
-  RefreshCw
+  RefreshCw,
+  RotateCcw,
+  Ban,
+  Layers
 } from 'lucide-react';
+import { DeviceMinutes, DeviceRunSummary, RunWatcherEvent } from '../../types';
 
 interface TestRun {
   id: string;
   name: string;
-  status: 'COMPLETED' | 'RUNNING' | 'PENDING';
+  status: 'COMPLETED' | 'CANCELLED' | 'RUNNING' | 'PENDING';
   result?: 'PASSED' | 'FAILED' | 'ERRORED';
   created: string;
   duration?: number;
@@ -34,6 +38,13 @@ interface TestRun {
   runArn?: string;
   isDeviceFarm?: boolean;
   hasAllureReport?: boolean;
+  quarantinedFailures?: number;
+  deviceRuns?: DeviceRunSummary[];
+  deviceMinutes?: DeviceMinutes;
+  estimatedCost?: number;
+  triggeredBy?: string;
+  branch?: string;
+  retries?: number;
 }
 
 // Removed mock data - now using real API data
@@ -44,10 +55,11 @@ export default function TestHistory() {
   const [loading, setLoading] = useState(true);
   const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
   const [syncing, setSyncing] = useState(false);
+  const [selectedRunIds, setSelectedRunIds] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
 
   useEffect(() => {
-    // Initial load with sync
-    fetchHistoryWithSync();
+    fetchHistoryOnly();
     
     // Refresh every 5 seconds - only fetch history, not Device Farm
     const interval = setInterval(() => {
@@ -56,25 +68,35 @@ export default function TestHistory() {
     return () => clearInterval(interval);
   }, []);
 
-  const fetchHistoryWithSync = async () => {
-    try {
-      // First sync Device Farm data, then fetch history
-      await syncDeviceFarmData();
-      await fetchHistoryOnly();
-    } catch (error) {
-      console.error('Failed to fetch history with sync:', error);
-      setLoading(false);
-    }
-  };
+  // The server's run watcher keeps Device Farm runs in the history up to date; reload as soon as one finishes
+  useEffect(() => {
+    const source = new EventSource(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/events`);
+
+    source.onmessage = (message) => {
+      const event: RunWatcherEvent = JSON.parse(message.data);
+      if (event.type === 'run:update' && event.run.status === 'COMPLETED') {
+        fetchHistoryOnly();
+      }
+    };
+
+    // EventSource reconnects on its own unless the server rejected the stream
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        source.close();
+      }
+    };
+
+    return () => source.close();
+  }, []);
 
   const fetchHistoryOnly = async () => {
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/test/history`);
       if (response.ok) {
         const data = await response.json();
-        // Filter to only show completed tests in history
+        // Filter to only show finished tests in history
         const completedTests = (data.history || []).filter((test: TestRun) => 
-          test.status === 'COMPLETED'
+          test.status === 'COMPLETED' || test.status === 'CANCELLED'
         );
         setHistory(completedTests);
       }
@@ -113,9 +135,66 @@ export default function TestHistory() {
     }
   };
   
+  // Reports live on the run, or on each job when a run covered several devices
+  const openDeviceFarmReport = async (loadingId: string, arn: string) => {
+    setLoadingReportId(loadingId);
+    showToast('info', 'Fetching Report', 'Checking AWS Device Farm for test report...');
+    
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/report?runArn=${encodeURIComponent(arn)}`);
+      const data = await response.json();
+      
+      if (data.hasReport && data.reportUrl) {
+        // Open report directly (S3 URL or Device Farm URL)
+        showToast('success', 'Opening Report', 'Your test report is opening in a new tab');
+        window.open(data.reportUrl, '_blank');
+      } else {
+        showToast('warning', 'No Report Available', 'The Allure report has not been generated yet for this test run');
+      }
+    } catch (error) {
+      console.error('Failed to fetch report:', error);
+      showToast('error', 'Failed to Fetch Report', 'Could not retrieve the test report. Please try again.');
+    } finally {
+      setLoadingReportId(null);
+    }
+  };
+
+  const toggleRunSelection = (runId: string) => {
+    setSelectedRunIds(prev => prev.includes(runId) ? prev.filter(id => id !== runId) : [...prev, runId]);
+  };
+
+  // Several local runs of the same build become one report, one set of results per device
+  const mergeSelectedReports = async () => {
+    setMerging(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/allure/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runIds: selectedRunIds })
+      });
+      const data = await response.json();
+      
+      if (response.ok && data.reportUrl) {
+        showToast('success', 'Reports Merged', `${data.resultCount} results from ${selectedRunIds.length} runs`);
+        window.open(data.reportUrl, '_blank');
+        setSelectedRunIds([]);
+      } else {
+        showToast('error', 'Merge Failed', data.error || 'Could not merge the selected reports');
+      }
+    } catch (error) {
+      console.error('Failed to merge reports:', error);
+      showToast('error', 'Merge Failed', 'Could not merge the selected reports. Please try again.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
   // Device Farm syncing should only happen when explicitly needed, not on every interval
 
-  const getResultIcon = (result?: string) => {
+  const getResultIcon = (result?: string, status?: string) => {
+    if (status === 'CANCELLED') {
+      return <Ban className="w-5 h-5 text-gray-500" />;
+    }
     switch (result) {
       case 'PASSED':
         return <CheckCircle className="w-5 h-5 text-green-500" />;
@@ -212,6 +291,20 @@ export default function TestHistory() {
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-bold text-gray-800">Completed Test Runs</h2>
             <div className="flex items-center gap-3">
+              {selectedRunIds.length > 1 && (
+                <button
+                  onClick={mergeSelectedReports}
+                  disabled={merging}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm text-white rounded-lg shadow-md hover:shadow-lg transition-all ${
+                    merging 
+                      ? 'bg-gray-400 cursor-not-allowed' 
+                      : 'bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600'
+                  }`}
+                >
+                  {merging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
+                  {merging ? 'Merging...' : `Merge Reports (${selectedRunIds.length})`}
+                </button>
+              )}
               <button
                 onClick={handleManualSync}
                 disabled={syncing}
@@ -242,7 +335,7 @@ export default function TestHistory() {
             <div key={run.id} className="p-6 hover:bg-gradient-to-r hover:from-purple-50/50 hover:to-pink-50/50 transition-all">
               <div className="flex items-start justify-between">
                 <div className="flex items-start gap-4">
-                  {getResultIcon(run.result)}
+                  {getResultIcon(run.result, run.status)}
                   <div>
                     <div className="flex items-center gap-2 mb-1">
                       <h3 className="font-medium">{run.name}</h3>
@@ -258,6 +351,19 @@ export default function TestHistory() {
                           Local
                         </span>
                       )}
+                      {run.status === 'CANCELLED' && (
+                        <span className="text-xs px-2 py-1 bg-gray-200 text-gray-700 rounded-full">
+                          Cancelled
+                        </span>
+                      )}
+                      {!!run.quarantinedFailures && (
+                        <span
+                          className="text-xs px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full"
+                          title="Failures of quarantined tests don't fail the run"
+                        >
+                          {run.quarantinedFailures} quarantined
+                        </span>
+                      )}
                       <span className="text-xs px-2 py-1 bg-gradient-to-r from-gray-100 to-gray-200 rounded-full">
                         {run.id}
                       </span>
@@ -271,6 +377,21 @@ export default function TestHistory() {
                       {run.duration && (
                         <span>{formatDuration(run.duration)}</span>
                       )}
+                      {run.deviceMinutes && (
+                        <span title={`${run.deviceMinutes.metered} metered, ${run.deviceMinutes.unmetered} unmetered`}>
+                          {run.deviceMinutes.total} device min
+                          {run.estimatedCost !== undefined && ` · ~$${run.estimatedCost.toFixed(2)}`}
+                        </span>
+                      )}
+                      {run.triggeredBy && (
+                        <span>by {run.triggeredBy}{run.branch && ` on ${run.branch}`}</span>
+                      )}
+                      {run.retries ? (
+                        <span className="flex items-center gap-1 text-amber-600">
+                          <RotateCcw className="w-3 h-3" />
+                          {run.retries} infra {run.retries === 1 ? 'retry' : 'retries'}
+                        </span>
+                      ) : null}
                     </div>
                     
                     <div className="flex items-center gap-4 text-sm">
@@ -283,38 +404,86 @@ export default function TestHistory() {
                         {run.build}
                       </span>
                     </div>
+
+                    {run.deviceRuns && run.deviceRuns.length > 1 && (
+                      <div className="mt-3 space-y-1">
+                        {run.deviceRuns.map(deviceRun => {
+                          const reportArn = deviceRun.jobArn || deviceRun.runArn;
+                          const retry = deviceRun.retriedBy
+                            ? run.deviceRuns!.find(candidate => candidate.runArn === deviceRun.retriedBy)
+                            : undefined;
+                          return (
+                            <div
+                              key={reportArn}
+                              className={`flex items-center gap-3 text-xs ${deviceRun.retriedBy ? 'text-gray-400' : 'text-gray-600'}`}
+                            >
+                              {deviceRun.status !== 'COMPLETED' ? (
+                                <Loader2 className="w-3 h-3 animate-spin text-blue-500" />
+                              ) : deviceRun.result === 'PASSED' ? (
+                                <CheckCircle className="w-3 h-3 text-green-500" />
+                              ) : (
+                                <XCircle className="w-3 h-3 text-red-500" />
+                              )}
+                              <span className="font-medium">{deviceRun.deviceName}</span>
+                              {deviceRun.os && <span className="text-gray-400">{deviceRun.os}</span>}
+                              {deviceRun.attempt && deviceRun.attempt > 1 && (
+                                <span className="flex items-center gap-1 text-amber-600">
+                                  <RotateCcw className="w-3 h-3" />
+                                  retry {deviceRun.attempt - 1}
+                                </span>
+                              )}
+                              {deviceRun.counters && (
+                                <span>
+                                  {deviceRun.counters.passed}/{deviceRun.counters.total} passed
+                                  {deviceRun.counters.failed > 0 && `, ${deviceRun.counters.failed} failed`}
+                                </span>
+                              )}
+                              {deviceRun.specs && (
+                                <span className="text-gray-400">
+                                  {deviceRun.specs.length} spec {deviceRun.specs.length === 1 ? 'file' : 'files'}
+                                </span>
+                              )}
+                              {deviceRun.failure && (
+                                <span
+                                  title={deviceRun.failure.reason}
+                                  className={`max-w-xs truncate ${deviceRun.failure.kind === 'infra' ? 'text-amber-600' : 'text-red-500'}`}
+                                >
+                                  {deviceRun.failure.kind === 'infra' ? 'Infrastructure' : 'Test'} failure: {deviceRun.failure.reason}
+                                </span>
+                              )}
+                              {deviceRun.retriedBy && (
+                                <span>retried on {retry?.deviceName || 'another device'}</span>
+                              )}
+                              {deviceRun.status === 'COMPLETED' && (
+                                <button
+                                  onClick={() => openDeviceFarmReport(reportArn, reportArn)}
+                                  disabled={loadingReportId === reportArn}
+                                  className="flex items-center gap-1 text-purple-600 hover:text-purple-800 disabled:text-gray-400"
+                                >
+                                  {loadingReportId === reportArn ? (
+                                    <Loader2 className="w-3 h-3 animate-spin" />
+                                  ) : (
+                                    <ExternalLink className="w-3 h-3" />
+                                  )}
+                                  Report
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                     
                   </div>
                 </div>
                 
                 {/* Show appropriate report button based on test type */}
-                {run.status === 'COMPLETED' && (
+                {(run.status === 'COMPLETED' || run.status === 'CANCELLED') && (
                   <>
                     {run.isDeviceFarm && run.runArn ? (
                       <div className="flex flex-col items-end gap-2">
                         <button
-                          onClick={async () => {
-                            setLoadingReportId(run.id);
-                            showToast('info', 'Fetching Report', 'Checking AWS Device Farm for test report...');
-                            
-                            try {
-                              const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/device-farm/report?runArn=${encodeURIComponent(run.runArn!)}`);
-                              const data = await response.json();
-                              
-                              if (data.hasReport && data.reportUrl) {
-                                // Open report directly (S3 URL or Device Farm URL)
-                                showToast('success', 'Opening Report', 'Your test report is opening in a new tab');
-                                window.open(data.reportUrl, '_blank');
-                              } else {
-                                showToast('warning', 'No Report Available', 'The Allure report has not been generated yet for this test run');
-                              }
-                            } catch (error) {
-                              console.error('Failed to fetch report:', error);
-                              showToast('error', 'Failed to Fetch Report', 'Could not retrieve the test report. Please try again.');
-                            } finally {
-                              setLoadingReportId(null);
-                            }
-                          }}
+                          onClick={() => openDeviceFarmReport(run.id, run.runArn!)}
                           disabled={loadingReportId === run.id}
                           className={`flex items-center gap-2 px-4 py-2 text-sm text-white rounded-lg shadow-md transition-all ${
                             loadingReportId === run.id 
@@ -354,6 +523,17 @@ export default function TestHistory() {
                           <Monitor className="w-3 h-3" />
                           Local Test Report
                         </span>
+                        {run.hasAllureReport && (
+                          <label className="text-xs text-gray-500 flex items-center gap-1 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={selectedRunIds.includes(run.id)}
+                              onChange={() => toggleRunSelection(run.id)}
+                              className="rounded border-gray-300"
+                            />
+                            Merge with other runs
+                          </label>
+                        )}
                       </div>
                     ) : null}
                   </>
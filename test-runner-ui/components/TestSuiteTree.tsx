@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, FolderTree, CircleDot } from 'lucide-react';
+import { TestNode } from '../../types';
+
+interface TestSuiteTreeProps {
+  suites: TestNode[];
+  selectedTestCase: string;
+  onSelect: (testCase: string) => void;
+  allLabel?: string;
+}
+
+function NodeBadges({ node }: { node: TestNode }) {
+  return (
+    <>
+      {node.mode === 'only' && (
+        <span className="text-[10px] px-1.5 py-0.5 bg-purple-100 text-purple-700 rounded">only</span>
+      )}
+      {node.skipped && (
+        <span className="text-[10px] px-1.5 py-0.5 bg-gray-200 text-gray-600 rounded">skipped</span>
+      )}
+      <span className="text-[10px] text-gray-400 ml-auto flex-shrink-0">L{node.line}</span>
+    </>
+  );
+}
+
+function TreeNode({ node, depth, selectedTestCase, onSelect }: {
+  node: TestNode;
+  depth: number;
+  selectedTestCase: string;
+  onSelect: (testCase: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(true);
+  const indent = { paddingLeft: `${depth * 16 + 8}px` };
+
+  if (node.kind === 'describe') {
+    return (
+      <div>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          style={indent}
+          className={`w-full flex items-center gap-1.5 pr-2 py-1 text-left text-xs font-medium hover:bg-gray-50 ${
+            node.skipped ? 'text-gray-400' : 'text-gray-800'
+          }`}
+        >
+          {expanded ? <ChevronDown className="w-3 h-3 flex-shrink-0" /> : <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+          <span className="truncate">{node.title}</span>
+          <NodeBadges node={node} />
+        </button>
+        {expanded && node.children.map((child, index) => (
+          <TreeNode
+            key={`${child.line}:${index}`}
+            node={child}
+            depth={depth + 1}
+            selectedTestCase={selectedTestCase}
+            onSelect={onSelect}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const selected = selectedTestCase === node.title;
+  return (
+    <button
+      type="button"
+      // Skipped tests would never run, so there is nothing to select
+      disabled={node.skipped}
+      onClick={() => onSelect(node.title)}
+      style={indent}
+      title={node.fullTitle}
+      className={`w-full flex items-center gap-1.5 pr-2 py-1 text-left text-xs ${
+        node.skipped
+          ? 'text-gray-400 cursor-not-allowed'
+          : selected
+            ? 'bg-blue-50 text-blue-700'
+            : 'text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      <CircleDot className={`w-3 h-3 flex-shrink-0 ${selected ? 'text-blue-500' : 'text-gray-300'}`} />
+      <span className="truncate">{node.title}</span>
+      <NodeBadges node={node} />
+    </button>
+  );
+}
+
+/**
+ * describe/it tree of a spec file; picking a test selects it as the test case
+ */
+export default function TestSuiteTree({ suites, selectedTestCase, onSelect, allLabel = 'All tests in file' }: TestSuiteTreeProps) {
+  return (
+    <div className="max-h-64 overflow-y-auto border border-gray-300 rounded-md py-1">
+      <button
+        type="button"
+        onClick={() => onSelect('')}
+        className={`w-full flex items-center gap-1.5 px-2 py-1 text-left text-xs ${
+          selectedTestCase === '' ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <FolderTree className="w-3 h-3 flex-shrink-0" />
+        {allLabel}
+      </button>
+      {suites.map((node, index) => (
+        <TreeNode
+          key={`${node.line}:${index}`}
+          node={node}
+          depth={0}
+          selectedTestCase={selectedTestCase}
+          onSelect={onSelect}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+// Runs once when the server starts, so bad AWS settings stop startup instead of failing requests later
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getAwsConfig } = await import('../services/aws/aws.service');
+  // Throws AwsConfigError listing every problem
+  const config = getAwsConfig();
+
+  console.log(`☁️  AWS credentials: ${config.credentials.source}${config.credentials.profile ? ` (${config.credentials.profile})` : ''}`);
+  if (config.deviceFarm.backend === 'local') {
+    console.log('☁️  Device Farm: local stand-in (DEVICE_FARM_BACKEND=local), nothing is sent to AWS');
+  } else if (config.deviceFarm.projectArn) {
+    console.log(`☁️  Device Farm project: ${config.deviceFarm.projectArn}`);
+  } else {
+    console.warn('⚠️  DEVICE_FARM_PROJECT_ARN is not set; Device Farm routes are disabled');
+    return;
+  }
+
+  // Device Farm runs left in progress by the last server are picked up and watched from here on
+  const { getRunWatcher } = await import('../services/run-watcher/run-watcher.service');
+  getRunWatcher();
+}
@@ -4,10 +4,10 @@
  * Usage: Add tags directly to test descriptions:
  * it('Should login successfully @ios @smoke @auth', async () => {})
  * 
- * Filter tests with:
- * --mochaOpts.grep="@ios" (run only iOS tests)
- * --mochaOpts.grep="@smoke" (run only smoke tests)
- * --mochaOpts.grep="@ios.*@smoke" (run tests with both tags)
+ * Filter tests with a tag expression (compiled to a mocha grep):
+ * WDIO_TAG="@ios" (run only iOS tests)
+ * WDIO_TAG="@smoke and not @banking" (smoke tests outside banking)
+ * WDIO_TAG="@smoke and (@ios or @android)" (tag order in the title doesn't matter)
  */
 
 /**
@@ -22,23 +22,276 @@ export const TAGS = {
     AUTH: '@auth',
     BANKING: '@banking',
     PORTFOLIO: '@portfolio',
-    SETTINGS: '@settings'
+    SETTINGS: '@settings',
+    // Failures don't fail the run; see config/quarantine.json for quarantining without editing the test
+    QUARANTINED: '@quarantined'
 } as const;
 
 /**
  * Generate grep pattern for multiple tags
  * Examples:
  * - generateGrepPattern(['@ios']) => "@ios"
- * - generateGrepPattern(['@ios', '@smoke']) => "@ios.*@smoke"
+ * - generateGrepPattern(['@ios', '@smoke']) => matches titles with both tags, in either order
  * - generateGrepPattern(['@ios', '@smoke'], 'OR') => "@ios|@smoke"
  */
 export function generateGrepPattern(tags: string[], logic: 'AND' | 'OR' = 'AND'): string {
     if (tags.length === 0) return '';
     if (tags.length === 1) return tags[0];
     
-    if (logic === 'OR') {
-        return tags.join('|');
-    } else {
-        return tags.join('.*');
+    const expression = tags
+        .map(tag => parseTagExpression(tag))
+        .reduce((left, right): TagExpression => ({ type: logic === 'OR' ? 'or' : 'and', left, right }));
+    return compileTagGrep(expression);
+}
+
+/**
+ * Extract the tags embedded in a test title
+ * Example: extractTags('Should login successfully @ios @smoke') => ['@ios', '@smoke']
+ */
+export function extractTags(title: string): string[] {
+    return Array.from(new Set(title.match(/@[\w-]+/g) || []));
+}
+
+/**
+ * Parsed tag expression, e.g. "@smoke and (@ios or @android) and not @banking"
+ */
+export type TagExpression =
+    | { type: 'tag'; tag: string }
+    | { type: 'not'; expression: TagExpression }
+    | { type: 'and' | 'or'; left: TagExpression; right: TagExpression };
+
+export class TagExpressionError extends Error {
+    constructor(message: string, public readonly expression: string, public readonly position: number) {
+        super(`${message} at position ${position + 1} in "${expression}"`);
+        this.name = 'TagExpressionError';
+    }
+}
+
+interface TagToken {
+    type: 'tag' | 'and' | 'or' | 'not' | '(' | ')';
+    value: string;
+    position: number;
+}
+
+// Symbolic operators are accepted too, so old grep-style values like "@ios|@smoke" keep working
+const OPERATOR_TOKENS: Record<string, TagToken['type']> = {
+    and: 'and', '&&': 'and', '&': 'and',
+    or: 'or', '||': 'or', '|': 'or',
+    not: 'not', '!': 'not'
+};
+
+// Characters of the regexes WDIO_TAG used to take, e.g. "@ios.*@smoke"
+const LEGACY_PATTERN_CHARACTERS = /[.*+?^$\\[\]{}]/;
+
+// Point a regex from before tag expressions at the expression that replaces it
+function describeLegacyPattern(input: string): string {
+    const message = 'Regular expressions were replaced by tag expressions';
+    try {
+        const expression = parseTagExpression(input.replace(/\.[*+]/g, ' and ').replace(/[\^$]/g, ''));
+        return `${message} (write "${formatTagExpression(expression)}")`;
+    } catch {
+        return `${message} (combine tags with and, or, not and parentheses)`;
+    }
+}
+
+function tokenizeTagExpression(input: string): TagToken[] {
+    const tokens: TagToken[] = [];
+    const pattern = /\s*(?:(@[\w-]+)|(\(|\))|(&&|\|\||[&|!])|([A-Za-z]+))/y;
+    let position = 0;
+
+    while (position < input.length) {
+        pattern.lastIndex = position;
+        const match = pattern.exec(input);
+        if (!match) {
+            const rest = input.slice(position);
+            if (rest.trim() === '') break;
+            const at = position + rest.length - rest.trimStart().length;
+            throw new TagExpressionError(
+                LEGACY_PATTERN_CHARACTERS.test(input) ? describeLegacyPattern(input) : 'Unexpected character',
+                input,
+                at
+            );
+        }
+        const start = position + match[0].length - match[0].trimStart().length;
+        const [, tag, paren, symbol, word] = match;
+
+        if (tag) {
+            tokens.push({ type: 'tag', value: tag, position: start });
+        } else if (paren) {
+            tokens.push({ type: paren as '(' | ')', value: paren, position: start });
+        } else {
+            const operator = OPERATOR_TOKENS[(symbol || word).toLowerCase()];
+            if (!operator) {
+                throw new TagExpressionError(`Unknown word "${word}" (tags start with @)`, input, start);
+            }
+            tokens.push({ type: operator, value: symbol || word, position: start });
+        }
+        position = pattern.lastIndex;
+    }
+    return tokens;
+}
+
+/**
+ * Parse a tag expression. "and" binds tighter than "or", "not" tighter than both,
+ * and tags written next to each other ("@ios @smoke") are and-ed.
+ */
+export function parseTagExpression(input: string): TagExpression {
+    const tokens = tokenizeTagExpression(input);
+    let index = 0;
+
+    const peek = (): TagToken | undefined => tokens[index];
+    const fail = (message: string): never => {
+        throw new TagExpressionError(message, input, peek()?.position ?? input.length);
+    };
+
+    const parseOr = (): TagExpression => {
+        let left = parseAnd();
+        while (peek()?.type === 'or') {
+            index++;
+            left = { type: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): TagExpression => {
+        let left = parseNot();
+        for (;;) {
+            const next = peek();
+            if (next?.type === 'and') {
+                index++;
+            } else if (!next || (next.type !== 'tag' && next.type !== 'not' && next.type !== '(')) {
+                return left;
+            }
+            left = { type: 'and', left, right: parseNot() };
+        }
+    };
+
+    const parseNot = (): TagExpression => {
+        if (peek()?.type === 'not') {
+            index++;
+            return { type: 'not', expression: parseNot() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): TagExpression => {
+        const token = peek();
+        if (token?.type === 'tag') {
+            index++;
+            return { type: 'tag', tag: token.value };
+        }
+        if (token?.type === '(') {
+            index++;
+            const expression = parseOr();
+            if (peek()?.type !== ')') {
+                fail('Expected ")"');
+            }
+            index++;
+            return expression;
+        }
+        return fail(token ? `Unexpected "${token.value}"` : 'Expected a tag');
+    };
+
+    if (tokens.length === 0) {
+        throw new TagExpressionError('Empty tag expression', input, 0);
+    }
+    const expression = parseOr();
+    if (index < tokens.length) {
+        fail(`Unexpected "${peek()!.value}"`);
+    }
+    return expression;
+}
+
+/**
+ * Parse several expressions and and them together; null when there are none
+ */
+export function combineTagExpressions(inputs: string[]): TagExpression | null {
+    return inputs
+        .filter(input => input.trim() !== '')
+        .map(input => parseTagExpression(input))
+        .reduce<TagExpression | null>((left, right) => left ? { type: 'and', left, right } : right, null);
+}
+
+/**
+ * Whether a test with these tags is selected by the expression
+ */
+export function matchesTagExpression(expression: TagExpression, tags: string[]): boolean {
+    switch (expression.type) {
+        case 'tag':
+            return tags.includes(expression.tag);
+        case 'not':
+            return !matchesTagExpression(expression.expression, tags);
+        case 'and':
+            return matchesTagExpression(expression.left, tags) && matchesTagExpression(expression.right, tags);
+        case 'or':
+            return matchesTagExpression(expression.left, tags) || matchesTagExpression(expression.right, tags);
+    }
+}
+
+/**
+ * Canonical text of an expression, using words for operators
+ */
+export function formatTagExpression(expression: TagExpression): string {
+    const wrap = (child: TagExpression, parent: 'and' | 'or') =>
+        child.type === 'or' && parent === 'and' ? `(${formatTagExpression(child)})` : formatTagExpression(child);
+
+    switch (expression.type) {
+        case 'tag':
+            return expression.tag;
+        case 'not':
+            return expression.expression.type === 'tag' || expression.expression.type === 'not'
+                ? `not ${formatTagExpression(expression.expression)}`
+                : `not (${formatTagExpression(expression.expression)})`;
+        case 'and':
+        case 'or':
+            return `${wrap(expression.left, expression.type)} ${expression.type} ${wrap(expression.right, expression.type)}`;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Zero-width at the start of the title, so and/or/not compose as lookaheads regardless of tag order
+function compileAssertion(expression: TagExpression): string {
+    switch (expression.type) {
+        case 'tag':
+            // "@ios" must not match "@ios-only"
+            return `(?=.*${escapeRegExp(expression.tag)}(?![\\w-]))`;
+        case 'not':
+            return `(?!${compileAssertion(expression.expression)})`;
+        case 'and':
+            return compileAssertion(expression.left) + compileAssertion(expression.right);
+        case 'or':
+            return `(?:${compileAssertion(expression.left)}|${compileAssertion(expression.right)})`;
+    }
+}
+
+/**
+ * Compile an expression to a mocha grep pattern (matched against the full title)
+ */
+export function compileTagGrep(expression: TagExpression): string {
+    return `^${compileAssertion(expression)}`;
+}
+
+/**
+ * Mocha grep for a run: the title of a single test case (matched literally), a raw
+ * regular expression and/or tag expressions. Returns undefined when there is nothing to filter on.
+ */
+export function buildGrepPattern(options: { testCase?: string; pattern?: string; tags?: string | string[] }): string | undefined {
+    const tags = typeof options.tags === 'string' ? [options.tags] : options.tags || [];
+    const expression = combineTagExpressions(tags);
+    const testCase = options.testCase?.trim();
+    const pattern = options.pattern?.trim();
+
+    if (!expression && !testCase && !pattern) {
+        return undefined;
+    }
+    // Passed through untouched when it's the only filter, as mocha would have had it
+    if (pattern && !expression && !testCase) {
+        return pattern;
     }
-}
\ No newline at end of file
+    const testCaseAssertion = testCase ? `(?=.*${escapeRegExp(testCase)})` : '';
+    const patternAssertion = pattern ? `(?=.*(?:${pattern}))` : '';
+    return `^${testCaseAssertion}${patternAssertion}${expression ? compileAssertion(expression) : ''}`;
+}
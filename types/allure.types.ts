@@ -0,0 +1,27 @@
+/**
+ * Where a set of raw Allure results came from. Merged reports show the device
+ * and platform as test parameters, so the same test on two devices shows up
+ * as two tests rather than as retries of one.
+ */
+export interface AllureResultsSource {
+  runId: string;
+  device: string;
+  platform: string;
+  osVersion?: string;
+}
+
+export interface MergedAllureReport {
+  reportId: string;
+  reportDir: string;
+  resultCount: number;
+  sources: (AllureResultsSource & { resultCount: number })[];
+}
+
+/**
+ * Reports of the same branch and platform share a history, so their trend
+ * and per-test history widgets follow on from one report to the next
+ */
+export interface AllureHistoryKey {
+  branch?: string;
+  platform: string;
+}
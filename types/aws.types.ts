@@ -0,0 +1,48 @@
+import { DeviceFarmBackendKind } from './device-farm.types';
+
+// Where the AWS SDK gets credentials: a named profile, static keys from the environment,
+// or the SDK's default chain (instance/task role, SSO cache, ...)
+export type AwsCredentialSource = 'profile' | 'env' | 'default';
+
+export interface AwsCredentialsConfig {
+  source: AwsCredentialSource;
+  profile?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+}
+
+export interface AwsBucketConfig {
+  name: string;
+  region: string;
+}
+
+export interface DeviceFarmBudgetConfig {
+  // USD per metered device minute; unmetered minutes come from flat-rate device slots
+  costPerMinute: number;
+  // Monthly spend the UI warns about, in USD; no budget when null
+  monthlyLimit: number | null;
+  // Refuse new Device Farm runs once the month's spend reaches the limit
+  blockWhenExceeded: boolean;
+}
+
+export interface AwsConfig {
+  credentials: AwsCredentialsConfig;
+  deviceFarm: {
+    backend: DeviceFarmBackendKind;
+    region: string;
+    // Optional so local-only setups still start; Device Farm routes answer 503 without it
+    projectArn: string | null;
+    budget: DeviceFarmBudgetConfig;
+    // Times a job that failed for infrastructure reasons is re-scheduled on another device; 0 turns retries off
+    maxInfraRetries: number;
+  };
+  buckets: {
+    // Device Farm test package read by the test-suites route
+    tests: AwsBucketConfig;
+    // Published Allure reports
+    reports: AwsBucketConfig;
+    // APKs and IPAs, read by the s3 build provider
+    builds: AwsBucketConfig;
+  };
+}
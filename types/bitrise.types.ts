@@ -2,8 +2,6 @@ export interface BitriseConfig {
   apiToken: string;
   appSlug: string;
   baseUrl: string;
-  cacheDir: string;
-  appsDir: string;
 }
 
 export interface BuildInfo {
@@ -25,6 +23,18 @@ export interface ArtifactInfo {
   fileSizeBytes: number;
 }
 
+/**
+ * Emitted by BuildDownloader as an artifact downloads. `resumedFrom` is how
+ * many bytes were already on disk from an earlier, interrupted attempt.
+ */
+export interface DownloadProgress {
+  fileName: string;
+  bytesDownloaded: number;
+  totalBytes: number | null;
+  percent: number | null;
+  resumedFrom: number;
+}
+
 export interface BuildMetadata {
   buildNumber: number;
   buildSlug: string;
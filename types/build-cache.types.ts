@@ -0,0 +1,45 @@
+import { BuildMetadata } from './bitrise.types';
+
+export interface BuildCacheConfig {
+  cacheDir: string;
+  // Unpinned builds kept per platform and branch, newest first
+  maxBuildsPerBranch: number;
+  // Once the cached builds add up to more, the least recently used unpinned ones go first
+  maxTotalBytes: number;
+}
+
+/**
+ * A build in the cache index, keyed `<platform>/<branch>/<buildNumber>` so
+ * an Android and an iOS build with the same number don't collide
+ */
+export interface CachedBuild extends BuildMetadata {
+  key: string;
+  platform: 'android' | 'ios';
+  // Pinned builds are never pruned and don't count towards the per-branch limit
+  pinned: boolean;
+  lastUsedAt: string;
+}
+
+export interface BuildCacheIndex {
+  version: 1;
+  builds: Record<string, CachedBuild>;
+}
+
+export interface BuildCacheFilter {
+  platform?: 'android' | 'ios';
+  branch?: string;
+}
+
+export type BuildCacheRemovalReason = 'missing' | 'branch-limit' | 'size-limit';
+
+export interface BuildCacheRemoval {
+  build: CachedBuild;
+  reason: BuildCacheRemovalReason;
+}
+
+export type BuildVerifyStatus = 'ok' | 'missing' | 'corrupt';
+
+export interface BuildVerifyResult {
+  build: CachedBuild;
+  status: BuildVerifyStatus;
+}
@@ -0,0 +1,57 @@
+import { DownloadProgress } from './bitrise.types';
+
+/**
+ * What a build fetch is busy with. Only iOS builds are extracted: the IPA's
+ * app bundle is what the simulator installs.
+ */
+export type BuildFetchPhase = 'resolving' | 'listing' | 'downloading' | 'verifying' | 'extracting';
+
+export type BuildFetchStatus = 'running' | 'completed' | 'failed';
+
+export interface BuildFetchRequest {
+  platform: 'android' | 'ios';
+  branch: string;
+  buildSlug?: string;
+  // A project in config/build-providers.json; the default project when not given
+  project?: string;
+}
+
+export interface BuildFetchJob {
+  id: string;
+  platform: 'android' | 'ios';
+  branch: string;
+  buildSlug: string | null;
+  project: string | null;
+  status: BuildFetchStatus;
+  phase: BuildFetchPhase;
+  // Bytes of the artifact on disk, including any resumed from an earlier attempt
+  bytesDownloaded: number;
+  totalBytes: number | null;
+  percent: number | null;
+  etaSeconds: number | null;
+  // The APK, or the extracted app bundle for iOS, once the fetch has finished
+  filePath: string | null;
+  error: string | null;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * What scripts/fetch-builds.ts prints (one JSON line each) for the build
+ * fetch job running it to follow along
+ */
+export type BuildFetchEvent =
+  | { type: 'phase'; phase: BuildFetchPhase }
+  | ({ type: 'progress' } & DownloadProgress)
+  | { type: 'result'; filePath: string | null };
+
+/**
+ * What the build fetch events endpoint streams: the job as it is when a
+ * client connects, then each change until it finishes
+ */
+export interface BuildFetchJobEvent {
+  type: 'snapshot' | 'job:update';
+  job: BuildFetchJob;
+  timestamp: string;
+}
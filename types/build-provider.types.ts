@@ -0,0 +1,140 @@
+import { Readable } from 'stream';
+import { ArtifactInfo, BuildInfo } from './bitrise.types';
+
+// 'bitrise' asks the Bitrise API; 's3' and 'local' read builds named app-<branch>-build-<number>.apk/.ipa
+// from a bucket or a directory
+export type BuildProviderKind = 'bitrise' | 's3' | 'local';
+
+export interface BitriseProviderSettings {
+  provider: 'bitrise';
+  // Defaults to BITRISE_APP_SLUG; the API token always comes from BITRISE_API_TOKEN
+  appSlug?: string;
+}
+
+export interface S3ProviderSettings {
+  provider: 's3';
+  // Defaults to the builds bucket (BUILDS_BUCKET_NAME)
+  bucket?: string;
+  // Key prefix the platform folders sit under, e.g. 'vault22/'
+  prefix?: string;
+  // For S3-compatible stores such as MinIO; path-style addressing is used with it
+  endpoint?: string;
+}
+
+export interface LocalProviderSettings {
+  provider: 'local';
+  // Relative to the project root
+  directory: string;
+}
+
+export type BuildProviderSettings = (BitriseProviderSettings | S3ProviderSettings | LocalProviderSettings) & {
+  // Overrides the file's artifactRules for this project's builds, per platform
+  artifactRules?: ArtifactRulesConfig;
+};
+
+/**
+ * What an artifact has to look like to match a rule; every field given has to match
+ */
+export interface ArtifactRule {
+  // Shown when explaining a selection; the rule's fields are shown otherwise
+  name?: string;
+  // Regular expression the artifact's title must match, case-insensitively
+  title?: string;
+  // The CI's artifact type, e.g. 'android-apk', 'ios-ipa' or 'file' on Bitrise
+  artifactType?: string;
+  // Product flavor, found as a word of the title: 'uae' matches app-uae-release.apk and app-uaeStaging-release.apk
+  flavor?: string;
+  // Build variant, found the same way, e.g. 'release' or 'debug'
+  variant?: string;
+}
+
+/**
+ * How a build's artifact is picked for one platform. Artifacts that can't be
+ * installed (not an APK, or not an IPA) are never candidates.
+ */
+export interface ArtifactSelectionRules {
+  // In preference order: the first rule any candidate matches decides, and the first artifact matching it wins
+  prefer: ArtifactRule[];
+  // Candidates matching any of these are never picked
+  exclude: ArtifactRule[];
+  // With no preference rule matched, fail rather than take the first candidate
+  requireMatch: boolean;
+}
+
+export type ArtifactRules = Record<'android' | 'ios', ArtifactSelectionRules>;
+
+// Fields left out keep their defaults
+export type ArtifactRulesConfig = Partial<Record<'android' | 'ios', Partial<ArtifactSelectionRules>>>;
+
+export type ArtifactCandidateStatus = 'selected' | 'wrong-type' | 'excluded' | 'not-preferred' | 'unmatched';
+
+export interface ArtifactCandidate {
+  artifact: ArtifactInfo;
+  status: ArtifactCandidateStatus;
+  // The preference or exclusion rule the artifact matched, as shown to people
+  rule: string | null;
+  reason: string;
+}
+
+/**
+ * Which artifact was picked and why, with every artifact of the build and why it was or wasn't
+ */
+export interface ArtifactSelection {
+  platform: 'android' | 'ios';
+  selected: ArtifactInfo | null;
+  reason: string;
+  candidates: ArtifactCandidate[];
+}
+
+/**
+ * config/build-providers.json: where each project's builds come from
+ */
+export interface BuildProvidersFile {
+  // Used when neither the caller nor BUILD_PROJECT names a project
+  defaultProject: string;
+  projects: Record<string, BuildProviderSettings>;
+  // Artifact selection for every project, per platform
+  artifactRules?: ArtifactRulesConfig;
+}
+
+/**
+ * An artifact's bytes from the offset asked for. `resumed` is false when the
+ * source could only start from the beginning; `stream` is null when there is
+ * nothing after the offset.
+ */
+export interface ArtifactStream {
+  stream: Readable | null;
+  resumed: boolean;
+  totalBytes: number | null;
+}
+
+/**
+ * Where builds come from. Builds and artifacts use the Bitrise shapes the UI
+ * already reads, so the build fetch modal works the same with any provider.
+ */
+export interface BuildProvider {
+  readonly kind: BuildProviderKind;
+  listBranches(): Promise<string[]>;
+  // Successful builds of a branch, newest first
+  listBuilds(branch: string, limit?: number): Promise<BuildInfo[]>;
+  getBuild(buildSlug: string): Promise<BuildInfo | null>;
+  listArtifacts(build: BuildInfo): Promise<ArtifactInfo[]>;
+  downloadArtifact(build: BuildInfo, artifact: ArtifactInfo, offset: number): Promise<ArtifactStream>;
+}
+
+export interface BuildDownloaderConfig {
+  cacheDir: string;
+  appsDir: string;
+  // How many times a dropped download is resumed before giving up
+  downloadRetries: number;
+  artifactRules: ArtifactRules;
+}
+
+export interface BuildDownloadRequest {
+  platform: 'android' | 'ios';
+  branch: string;
+  // A specific build; the branch's latest when not given
+  buildSlug?: string;
+  // Download even if the build is cached
+  force?: boolean;
+}
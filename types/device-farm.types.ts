@@ -0,0 +1,112 @@
+import {
+  CreateDevicePoolRequest,
+  CreateDevicePoolResult,
+  CreateUploadRequest,
+  CreateUploadResult,
+  GetDevicePoolRequest,
+  GetDevicePoolResult,
+  ExecutionResult,
+  GetRunRequest,
+  GetRunResult,
+  GetUploadRequest,
+  GetUploadResult,
+  ListArtifactsRequest,
+  ListArtifactsResult,
+  ListDevicesRequest,
+  ListDevicesResult,
+  ListJobsRequest,
+  ListJobsResult,
+  ListProjectsRequest,
+  ListProjectsResult,
+  ListRunsRequest,
+  ListRunsResult,
+  ListSuitesRequest,
+  ListSuitesResult,
+  ListUploadsRequest,
+  ListUploadsResult,
+  ScheduleRunRequest,
+  ScheduleRunResult,
+  Upload
+} from '@aws-sdk/client-device-farm';
+
+// 'aws' talks to the real service; 'local' emulates it in memory for offline work
+export type DeviceFarmBackendKind = 'aws' | 'local';
+
+/**
+ * The Device Farm operations the runner uses. Requests and results are the
+ * SDK's own shapes, so routes read the same fields whichever backend is active.
+ */
+export interface DeviceFarmBackend {
+  readonly kind: DeviceFarmBackendKind;
+  listProjects(input: ListProjectsRequest): Promise<ListProjectsResult>;
+  listDevices(input: ListDevicesRequest): Promise<ListDevicesResult>;
+  createDevicePool(input: CreateDevicePoolRequest): Promise<CreateDevicePoolResult>;
+  getDevicePool(input: GetDevicePoolRequest): Promise<GetDevicePoolResult>;
+  listUploads(input: ListUploadsRequest): Promise<ListUploadsResult>;
+  createUpload(input: CreateUploadRequest): Promise<CreateUploadResult>;
+  getUpload(input: GetUploadRequest): Promise<GetUploadResult>;
+  // Send the file for an upload created by createUpload (a PUT to its pre-signed URL on AWS)
+  sendUploadContent(upload: Upload, content: Buffer): Promise<void>;
+  scheduleRun(input: ScheduleRunRequest): Promise<ScheduleRunResult>;
+  getRun(input: GetRunRequest): Promise<GetRunResult>;
+  listRuns(input: ListRunsRequest): Promise<ListRunsResult>;
+  listJobs(input: ListJobsRequest): Promise<ListJobsResult>;
+  listSuites(input: ListSuitesRequest): Promise<ListSuitesResult>;
+  listArtifacts(input: ListArtifactsRequest): Promise<ListArtifactsResult>;
+  // Download the file behind an artifact URL returned by listArtifacts
+  downloadArtifact(url: string): Promise<Buffer>;
+}
+
+export interface LocalDeviceFarmConfig {
+  // How long an upload stays PROCESSING once its content has arrived
+  uploadProcessingMs: number;
+  // Time a run spends in each of SCHEDULING, PREPARING and RUNNING
+  schedulingMs: number;
+  preparingMs: number;
+  runningMs: number;
+  // Outcome every emulated job reports
+  result: ExecutionResult;
+  testsPerJob: number;
+  // Device names whose jobs end ERRORED in setup, as if the device had failed
+  unreliableDevices: string[];
+  // Origin of this server, used to build browser-reachable artifact URLs
+  baseUrl: string;
+  now: () => number;
+}
+
+// A spec file and how much work it holds (its runnable test count), for sharding
+export interface WeightedSpec {
+  path: string;
+  weight: number;
+}
+
+export interface DeviceFarmUsageTotals {
+  runs: number;
+  minutes: number;
+  meteredMinutes: number;
+  estimatedCost: number;
+}
+
+export interface DeviceFarmBudgetStatus {
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  // Past the warning threshold, or over the limit
+  warning: boolean;
+  exceeded: boolean;
+  // Whether POST /api/device-farm/run refuses new runs while exceeded
+  blocksRuns: boolean;
+}
+
+/**
+ * Device Farm minutes and estimated spend for a calendar month (UTC), from
+ * the runs recorded in the run store
+ */
+export interface DeviceFarmUsageReport {
+  month: string;
+  totals: DeviceFarmUsageTotals;
+  byUser: Record<string, DeviceFarmUsageTotals>;
+  byBranch: Record<string, DeviceFarmUsageTotals>;
+  budget: DeviceFarmBudgetStatus | null;
+}
@@ -0,0 +1,39 @@
+import { DeviceFormFactor } from '@aws-sdk/client-device-farm';
+
+/**
+ * What a device matrix selects from the Device Farm catalog. Platform, form
+ * factor and manufacturer go to ListDevices as filters; the rest is applied to
+ * the devices it returns, as ListDevices can't rank OS versions.
+ */
+export interface DeviceMatrixRules {
+  platform: 'ios' | 'android';
+  formFactor?: DeviceFormFactor;
+  manufacturers?: string[];
+  // Case-insensitive part of the device name, e.g. "iPhone" or "Pixel"
+  nameContains?: string;
+  // Skip devices Device Farm reports as busy or unavailable
+  availableOnly?: boolean;
+  minOsVersion?: string;
+  maxOsVersion?: string;
+  // Keep the newest N distinct OS versions ("latest 3 iPhones")
+  latestOsVersions?: number;
+  // Keep only the oldest and newest OS versions ("min/max SDK")
+  minMaxOsVersions?: boolean;
+  // How many devices to keep for each OS version (default: all of them)
+  devicesPerOsVersion?: number;
+  maxDevices?: number;
+}
+
+/**
+ * A named, saved set of device rules, resolved to devices each time it is used
+ */
+export interface DeviceMatrix {
+  id: string;
+  name: string;
+  description?: string;
+  rules: DeviceMatrixRules;
+  created: string;
+  updated: string;
+}
+
+export type DeviceMatrixInput = Pick<DeviceMatrix, 'name' | 'description' | 'rules'>;
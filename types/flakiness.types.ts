@@ -0,0 +1,36 @@
+import { TestCaseState } from './run-store.types';
+
+export interface FlakinessConfig {
+  windowSize: number;
+  minRuns: number;
+}
+
+export interface FlakinessFilter {
+  platform?: string;
+  device?: string;
+  minScore?: number;
+  limit?: number;
+}
+
+/**
+ * Flakiness of one test on one platform/device over its most recent runs.
+ * `score` is the share of consecutive runs whose outcome flipped (0 = stable,
+ * 1 = alternates every run).
+ */
+export interface FlakyTest {
+  file: string | null;
+  title: string;
+  fullTitle: string;
+  platform: string | null;
+  device: string | null;
+  runs: number;
+  failures: number;
+  flips: number;
+  score: number;
+  recentStates: TestCaseState[];
+  lastFailure: {
+    runId: string;
+    created: string;
+    errorMessage: string | null;
+  } | null;
+}
@@ -5,4 +5,55 @@ export * from './test.types';
 export * from './device.types';
 
 // Bitrise API types
-export * from './bitrise.types';
\ No newline at end of file
+export * from './bitrise.types';
+
+// Build provider types
+export * from './build-provider.types';
+
+// Build fetch types
+export * from './build-fetch.types';
+
+// Build cache types
+export * from './build-cache.types';
+
+// Run store types
+export * from './run-store.types';
+
+// Run queue types
+export * from './run-queue.types';
+
+// Server-Sent Events types
+export * from './sse.types';
+
+// Run watcher types
+export * from './run-watcher.types';
+
+// Run results types
+export * from './run-results.types';
+
+// Flakiness types
+export * from './flakiness.types';
+
+// Run comparison types
+export * from './run-compare.types';
+
+// Quarantine types
+export * from './quarantine.types';
+
+// Test discovery types
+export * from './test-discovery.types';
+
+// Tag catalog types
+export * from './tag-catalog.types';
+
+// AWS configuration types
+export * from './aws.types';
+
+// Device Farm backend types
+export * from './device-farm.types';
+
+// Device matrix types
+export * from './device-matrix.types';
+
+// Allure report types
+export * from './allure.types';
@@ -0,0 +1,27 @@
+export interface QuarantineConfig {
+  listPath: string;
+}
+
+/**
+ * One entry of config/quarantine.json. `title` matches either the it() title
+ * or the full title including describe blocks. Without a platform the entry
+ * applies to both; `expires` is an ISO date after which it no longer applies.
+ */
+export interface QuarantineEntry {
+  file: string;
+  title: string;
+  platform?: 'ios' | 'android';
+  expires?: string;
+  reason?: string;
+}
+
+export interface QuarantineListFile {
+  tests: QuarantineEntry[];
+}
+
+export interface QuarantineCandidate {
+  file: string | null;
+  title: string;
+  fullTitle: string;
+  platform?: string | null;
+}
@@ -0,0 +1,60 @@
+import { TestCaseState } from './run-store.types';
+import { TestCounters } from './test.types';
+
+export interface RunComparisonConfig {
+  // A duration change counts when it is at least this long and this big a share of the base duration
+  minDurationChangeMs: number;
+  minDurationChangePercent: number;
+  // Where Bitrise downloads saved their build metadata, for runs that didn't record their build
+  buildCacheDir: string;
+}
+
+/**
+ * One side of a comparison, with the build it tested
+ */
+export interface ComparedRun {
+  id: string;
+  name: string | null;
+  created: string | null;
+  platform: string | null;
+  device: string | null;
+  isDeviceFarm: boolean;
+  result: string | null;
+  counters: TestCounters | null;
+  build: string | null;
+  branch: string | null;
+  buildNumber: number | null;
+  commitHash: string | null;
+}
+
+/**
+ * One test in both runs. A test that ran on several devices counts as failed
+ * if it failed on any of them, and as its slowest duration.
+ */
+export interface TestComparison {
+  title: string;
+  fullTitle: string;
+  file: string | null;
+  baseState: TestCaseState | null;
+  headState: TestCaseState | null;
+  baseDuration: number | null;
+  headDuration: number | null;
+  durationChangeMs: number | null;
+  // The head run's error, or the base run's for a test that now passes
+  errorMessage: string | null;
+}
+
+export interface RunComparison {
+  base: ComparedRun;
+  head: ComparedRun;
+  sameBuild: boolean;
+  newlyFailed: TestComparison[];
+  newlyPassed: TestComparison[];
+  stillFailing: TestComparison[];
+  // Slowest change first
+  durationChanges: TestComparison[];
+  // Tests only one of the runs has
+  added: number;
+  removed: number;
+  compared: number;
+}
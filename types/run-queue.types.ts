@@ -0,0 +1,23 @@
+import { ChildProcess } from 'child_process';
+
+export interface RunQueueConfig {
+  maxRunsPerDevice: number;
+}
+
+/**
+ * A local run waiting for (or holding) a device slot. `start` launches the
+ * run; the owner must call `release` on the queue once it has finished.
+ */
+export interface RunQueueJob {
+  runId: string;
+  deviceKey: string;
+  start: () => void;
+}
+
+/**
+ * The wdio process of a local run that has started, and whether it was asked to stop
+ */
+export interface LocalRunProcess {
+  child: ChildProcess;
+  cancelled: boolean;
+}
@@ -0,0 +1,16 @@
+import { TestCaseRecord } from './run-store.types';
+
+export type RunResultTest = Omit<TestCaseRecord, 'runId'>;
+
+/**
+ * Written by the results reporter: one file per wdio worker, merged into a
+ * single results.json for the run when wdio completes.
+ */
+export interface RunResultsFile {
+  startTime: string;
+  endTime: string;
+  specs: string[];
+  // Failures wdio counted, including ones that never reached a test (session errors, failed hooks)
+  failures: number;
+  tests: RunResultTest[];
+}
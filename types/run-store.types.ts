@@ -0,0 +1,65 @@
+import { HistoryEntry } from './test.types';
+
+export interface RunStoreConfig {
+  dbPath: string;
+  legacyDir: string;
+}
+
+/**
+ * A run as persisted by the run store. Indexed history fields are stored as
+ * columns; anything else a route attaches (config, command, runArn, ...) is
+ * kept alongside and returned unchanged.
+ */
+export interface RunRecord extends Partial<HistoryEntry> {
+  id: string;
+  [key: string]: unknown;
+}
+
+export interface RunFilter {
+  status?: string[];
+  isDeviceFarm?: boolean;
+  limit?: number;
+}
+
+export type TestCaseState = 'passed' | 'failed' | 'broken' | 'skipped' | 'pending';
+
+export interface TestCaseRecord {
+  runId: string;
+  title: string;
+  fullTitle: string;
+  file: string | null;
+  state: TestCaseState;
+  duration: number;
+  errorMessage: string | null;
+  errorStack: string | null;
+  retries: number;
+  tags: string[];
+  quarantined: boolean;
+}
+
+/**
+ * A test case result together with the run it came from, for looking at one
+ * test across many runs
+ */
+export interface TestCaseHistoryEntry extends TestCaseRecord {
+  created: string;
+  platform: string | null;
+  device: string | null;
+  isDeviceFarm: boolean;
+}
+
+export interface TestCaseHistoryFilter {
+  file?: string;
+  fullTitle?: string;
+  platform?: string;
+  device?: string;
+  since?: string;
+}
+
+export interface RunArtifact {
+  runId: string;
+  name: string;
+  type: string;
+  url: string;
+  createdAt: string;
+}
@@ -0,0 +1,20 @@
+import { RunRecord } from './run-store.types';
+
+export interface RunWatcherConfig {
+  // Delay between polls of a run that just changed
+  minIntervalMs: number;
+  // Longest delay a run that stays unchanged backs off to
+  maxIntervalMs: number;
+  // How much longer the delay gets after each poll that finds nothing new
+  backoffFactor: number;
+  // How often the run store is checked for Device Farm runs the watcher has not been told about
+  rescanIntervalMs: number;
+}
+
+/**
+ * What the run watcher streams to the browser: the runs in progress when a
+ * client connects, then each change to one of them
+ */
+export type RunWatcherEvent =
+  | { type: 'snapshot'; runs: RunRecord[]; timestamp: string }
+  | { type: 'run:update'; run: RunRecord; previousStatus?: string; timestamp: string };
@@ -0,0 +1,14 @@
+/**
+ * One client's Server-Sent Events stream. Sending after the stream has
+ * closed (the client went away, or the route closed it) does nothing.
+ */
+export interface SseStream<T> {
+  send: (event: T) => void;
+  close: () => void;
+  readonly closed: boolean;
+}
+
+/**
+ * Starts sending events to a stream and returns how to stop
+ */
+export type SseSubscribe<T> = (stream: SseStream<T>) => () => void;
@@ -0,0 +1,30 @@
+export interface TagFileUsage {
+  path: string;
+  count: number;
+}
+
+/**
+ * A tag found in the test source and how many tests carry it
+ */
+export interface TagUsage {
+  tag: string;
+  // Listed in TAGS (test/utils/tag.utils.ts)
+  known: boolean;
+  count: number;
+  files: TagFileUsage[];
+}
+
+export interface CatalogTest {
+  file: string;
+  title: string;
+  fullTitle: string;
+  line: number;
+}
+
+export interface TagCatalog {
+  tags: TagUsage[];
+  // Tags used by tests but missing from TAGS, usually typos
+  unknownTags: string[];
+  // Tests tagged with neither @ios nor @android
+  testsWithoutPlatform: CatalogTest[];
+}
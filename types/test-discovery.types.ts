@@ -0,0 +1,30 @@
+export type TestNodeKind = 'describe' | 'it';
+
+// How the block was declared: it.skip/xit are 'skip', it.only/describe.only are 'only'
+export type TestNodeMode = 'normal' | 'skip' | 'only';
+
+/**
+ * A describe or it block found in a spec file
+ */
+export interface TestNode {
+  kind: TestNodeKind;
+  title: string;
+  // Titles of the enclosing describes and this block joined with spaces, as mocha matches --grep against
+  fullTitle: string;
+  mode: TestNodeMode;
+  // Whether mocha will skip it: declared skipped, inside a skipped describe, or an it() without a body
+  skipped: boolean;
+  // Tags in this block's title and those of the enclosing describes
+  tags: string[];
+  line: number;
+  children: TestNode[];
+}
+
+export interface DiscoveredTestFile {
+  // Relative to the project root, e.g. test/e2e/auth/login.e2e.ts
+  path: string;
+  name: string;
+  suites: TestNode[];
+  // Titles of every it() in the file, in source order
+  tests: string[];
+}
@@ -2,9 +2,13 @@ export interface TestConfig {
   platform: 'ios' | 'android';
   build: string;
   device: string;
+  // Simulator/emulator to start the run on (e.g. from a device matrix); the wdio config default otherwise
+  deviceName?: string;
+  osVersion?: string;
   testMode: 'full' | 'single';
   test?: string;
   testCase?: string;
+  // Tag expressions such as "@smoke and not @banking", and-ed together
   tags?: string[];
 }
 
@@ -20,8 +24,8 @@ export interface TestRun {
   id: string;
   name: string;
   config: TestConfig;
-  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
-  result?: 'PASSED' | 'FAILED';
+  status: TestStatus;
+  result?: TestResult;
   created: string;
   startTime: string;
   endTime?: string;
@@ -35,6 +39,7 @@ export interface TestRun {
   selectedTestCase?: string;
   executingTests: string[];
   currentlyRunningTest: string | null;
+  queuePosition?: number | null;
   output?: string;
   error?: string;
 }
@@ -50,17 +55,107 @@ export interface HistoryEntry {
   platform: string;
   build: string;
   counters: TestCounters;
+  quarantinedFailures?: number;
   artifactsUrl: string | null;
   hasAllureReport: boolean;
   isDeviceFarm: boolean;
+  runArn?: string;
+  stopped?: string;
+  testMode?: string;
+  test?: string | null;
+  testCase?: string | null;
+  // One per device for Device Farm runs on several devices; the entry's own status, result and counters add these up
+  deviceRuns?: DeviceRunSummary[];
+  // Device Farm usage, for cost tracking by user and branch
+  deviceMinutes?: DeviceMinutes;
+  estimatedCost?: number;
+  triggeredBy?: string;
+  branch?: string;
+  // The Bitrise build under test, from the metadata saved when it was downloaded
+  buildNumber?: number;
+  commitHash?: string | null;
+  // What the runner scheduled, so a device that failed for infrastructure reasons can be retried
+  deviceFarmSchedule?: DeviceFarmSchedule;
+  // Jobs re-scheduled after infrastructure failures
+  retries?: number;
+  // Status changes the run watcher saw, oldest first
+  statusChanges?: RunStatusChange[];
 }
 
+export interface RunStatusChange {
+  status: string;
+  result?: string;
+  at: string;
+}
+
+export interface DeviceFarmSchedule {
+  projectArn: string;
+  appArn: string;
+  testPackageArn: string;
+  testType: string;
+  devicePoolArn?: string;
+  name: string;
+}
+
+/**
+ * Why a Device Farm job failed: 'infra' when the device or Device Farm got in
+ * the way (worth retrying elsewhere), 'test' when the tests themselves failed
+ */
+export interface DeviceRunFailure {
+  kind: 'infra' | 'test';
+  reason: string;
+}
+
+// Device minutes as Device Farm reports them for a run or job
+export interface DeviceMinutes {
+  total: number;
+  metered: number;
+  unmetered: number;
+}
+
+/**
+ * One device's part of a multi-device Device Farm run. Sharded runs schedule a
+ * Device Farm run per device; otherwise every device is a job of the same run.
+ */
+export interface DeviceRunSummary {
+  deviceArn: string;
+  deviceName: string;
+  os?: string;
+  runArn: string;
+  // Known once Device Farm has created the device's job; its artifacts are listed under it
+  jobArn?: string;
+  // Spec files this device was given when the run was sharded
+  specs?: string[];
+  status: string;
+  result?: string;
+  counters?: TestCounters;
+  deviceMinutes?: DeviceMinutes;
+  started?: string;
+  stopped?: string;
+  testSpecArn?: string;
+  // Device Farm's message for the job, e.g. why it errored
+  message?: string;
+  failure?: DeviceRunFailure;
+  // 1 for the first attempt; retries after infrastructure failures count up from there
+  attempt?: number;
+  // Job this one retries
+  retryOf?: string;
+  // Run that retried this job; a retried job no longer counts towards the entry's result
+  retriedBy?: string;
+}
+
+export type RunEvent =
+  | { type: 'log'; stream: 'stdout' | 'stderr'; line: string; timestamp: string }
+  | { type: 'suite:start'; suite: string; timestamp: string }
+  | { type: 'test:pass' | 'test:fail'; title: string; duration?: number; timestamp: string }
+  | { type: 'run:end'; status: string; result?: string; exitCode: number | null; timestamp: string };
+
 export interface TestStorageData {
   id: string;
   [key: string]: unknown;
 }
 
-export type TestStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+export type TestStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 export type TestResult = 'PASSED' | 'FAILED';
 export type Platform = 'ios' | 'android';
 export type TestMode = 'full' | 'single';
\ No newline at end of file